@@ -0,0 +1,175 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import {
+  ActionsLogger,
+  DiscordWebhookPublisher,
+  GitHubActionsAdapter,
+  SlackWebhookPublisher,
+} from "../../../../src/adapters";
+import { OctokitIssuesClient } from "../../../../src/adapters/github-actions.adapter";
+import { SettingsLoader, toDigestIssueOptions } from "../../../../src/config";
+import { DigestPublisher } from "../../../../src/interfaces";
+import { JobDigestService } from "../../../../src/services/job-digest.service";
+import {
+  ActionInputs,
+  ActionOutputs,
+  CreateDigestIssueOptions,
+  DedupeMode,
+} from "../../../../src/types";
+
+const DEDUPE_MODES: DedupeMode[] = ["off", "skip", "mark"];
+const ISSUE_MODES: NonNullable<ActionInputs["mode"]>[] = ["create", "upsert"];
+
+/**
+ * Everything the action needs from the Actions runtime and the GitHub API
+ * The default runtime uses @actions/core and @actions/github; tests inject fakes
+ */
+export interface ActionRuntime {
+  core: Pick<
+    typeof core,
+    "getInput" | "setOutput" | "setFailed" | "info" | "debug" | "error"
+  >;
+  getOctokit(token: string): OctokitIssuesClient;
+  repo(): { owner: string; repo: string };
+}
+
+const defaultRuntime: ActionRuntime = {
+  core,
+  getOctokit: (token) => github.getOctokit(token),
+  repo: () => github.context.repo,
+};
+
+/**
+ * Read action inputs declared in action.yml
+ */
+export function readInputs(runtime: ActionRuntime): ActionInputs {
+  const dedupe = runtime.core.getInput("dedupe") || undefined;
+  if (dedupe && !DEDUPE_MODES.includes(dedupe as DedupeMode)) {
+    throw new Error(
+      `Invalid dedupe input "${dedupe}": expected one of ${DEDUPE_MODES.join(
+        ", "
+      )}`
+    );
+  }
+
+  const mode = runtime.core.getInput("mode") || undefined;
+  if (
+    mode &&
+    !ISSUE_MODES.includes(mode as NonNullable<ActionInputs["mode"]>)
+  ) {
+    throw new Error(
+      `Invalid mode input "${mode}": expected one of ${ISSUE_MODES.join(", ")}`
+    );
+  }
+
+  return {
+    digestData: runtime.core.getInput("digest-data", { required: true }),
+    githubToken: runtime.core.getInput("github-token", { required: true }),
+    dedupe: dedupe as DedupeMode | undefined,
+    mode: mode as ActionInputs["mode"],
+    settingsFile: runtime.core.getInput("settings-file") || undefined,
+    slackWebhookUrl: runtime.core.getInput("slack-webhook-url") || undefined,
+    discordWebhookUrl:
+      runtime.core.getInput("discord-webhook-url") || undefined,
+  };
+}
+
+/**
+ * Publish action outputs declared in action.yml
+ */
+export function writeOutputs(
+  runtime: ActionRuntime,
+  outputs: ActionOutputs
+): void {
+  runtime.core.setOutput("issue-number", outputs.issueNumber);
+  runtime.core.setOutput("issue-url", outputs.issueUrl);
+  runtime.core.setOutput("issue-action", outputs.issueAction);
+}
+
+/**
+ * Digest options from the settings file, if any, with explicit inputs on top
+ */
+export function readOptions(inputs: ActionInputs): CreateDigestIssueOptions & {
+  dryRun: false;
+  mode: NonNullable<ActionInputs["mode"]>;
+} {
+  const settings = inputs.settingsFile
+    ? new SettingsLoader().load(inputs.settingsFile)
+    : undefined;
+
+  return {
+    ...(settings ? toDigestIssueOptions(settings) : {}),
+    ...(inputs.dedupe ? { dedupe: inputs.dedupe } : {}),
+    dryRun: false,
+    mode: inputs.mode ?? settings?.digest.mode ?? "create",
+  };
+}
+
+/**
+ * Action entry point: create a digest issue in the workflow's repository
+ */
+export async function run(
+  runtime: ActionRuntime = defaultRuntime
+): Promise<ActionOutputs | undefined> {
+  try {
+    const inputs = readInputs(runtime);
+    const { owner, repo } = runtime.repo();
+
+    const githubClient = new GitHubActionsAdapter(
+      runtime.getOctokit(inputs.githubToken),
+      owner,
+      repo
+    );
+    const logger = new ActionsLogger(runtime.core);
+    const publishers: DigestPublisher[] = [];
+    if (inputs.slackWebhookUrl) {
+      publishers.push(new SlackWebhookPublisher(inputs.slackWebhookUrl));
+    }
+    if (inputs.discordWebhookUrl) {
+      publishers.push(new DiscordWebhookPublisher(inputs.discordWebhookUrl));
+    }
+    const service = new JobDigestService(
+      githubClient,
+      logger,
+      undefined,
+      publishers
+    );
+
+    const { mode, ...options } = readOptions(inputs);
+    if (await service.findActiveSnooze(options)) {
+      const outputs: ActionOutputs = {
+        issueNumber: "",
+        issueUrl: "",
+        issueAction: "skipped",
+      };
+      writeOutputs(runtime, outputs);
+      return outputs;
+    }
+
+    const issue =
+      mode === "upsert"
+        ? await service.upsertDigestIssue(inputs.digestData, options)
+        : {
+            ...(await service.createDigestIssue(inputs.digestData, options)),
+            action: "created" as const,
+          };
+
+    const outputs: ActionOutputs = {
+      issueNumber: issue.number.toString(),
+      issueUrl: issue.url,
+      issueAction: issue.action,
+    };
+    writeOutputs(runtime, outputs);
+
+    return outputs;
+  } catch (error) {
+    runtime.core.setFailed(
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    return undefined;
+  }
+}
+
+if (require.main === module) {
+  run();
+}
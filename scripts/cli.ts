@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+
+/**
+ * Job digest command line: validate, preview, publish and export digests
+ * outside GitHub Actions. Run `npm run cli -- --help` for usage.
+ */
+
+import { config } from "dotenv";
+import { Cli } from "../src/cli";
+
+// Load environment variables from .env file
+config({ quiet: true });
+
+function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    return Promise.reject(
+      new Error("No digest file given and nothing piped to stdin")
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () =>
+      resolve(Buffer.concat(chunks).toString("utf8"))
+    );
+    process.stdin.on("error", reject);
+  });
+}
+
+new Cli({
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readStdin,
+  env: process.env,
+})
+  .run(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  });
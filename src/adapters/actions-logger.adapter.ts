@@ -0,0 +1,28 @@
+import * as core from "@actions/core";
+import { Logger } from "../interfaces";
+
+/**
+ * Subset of @actions/core used for logging
+ * Narrow enough to be replaced with an in-process fake in tests
+ */
+export type ActionsCoreLogging = Pick<typeof core, "info" | "debug" | "error">;
+
+/**
+ * Logger adapter for the GitHub Actions runtime
+ * Debug output is only shown when the workflow runs with step debugging enabled
+ */
+export class ActionsLogger implements Logger {
+  constructor(private readonly actionsCore: ActionsCoreLogging = core) {}
+
+  info(message: string): void {
+    this.actionsCore.info(message);
+  }
+
+  debug(message: string): void {
+    this.actionsCore.debug(message);
+  }
+
+  error(message: string): void {
+    this.actionsCore.error(message);
+  }
+}
@@ -0,0 +1,25 @@
+import { DigestPublication, DigestPublisher } from "../interfaces";
+import { DiscordFormatter } from "../services/discord-formatter";
+import { postWebhook, WEBHOOK_TIMEOUT_MS } from "./webhook";
+
+/**
+ * Posts each digest to a Discord channel through a channel webhook
+ */
+export class DiscordWebhookPublisher implements DigestPublisher {
+  readonly name = "discord";
+
+  constructor(
+    private readonly webhookUrl: string,
+    private readonly formatter: DiscordFormatter = new DiscordFormatter(),
+    private readonly timeoutMs: number = WEBHOOK_TIMEOUT_MS
+  ) {}
+
+  async publish(publication: DigestPublication): Promise<void> {
+    await postWebhook(
+      "Failed to post digest to Discord",
+      this.webhookUrl,
+      this.formatter.format(publication),
+      this.timeoutMs
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  CommentResult,
+  CreateIssueParams,
+  GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueResult,
+  ListIssuesParams,
+  UpdateIssueParams,
+} from "../interfaces";
+import { InMemoryGitHubAdapter } from "./in-memory-github.adapter";
+
+export interface DryRunCall {
+  method: keyof GitHubClient;
+  args: unknown[];
+}
+
+/**
+ * GitHub client that posts nothing: issues and comments are kept in memory,
+ * every call is recorded and rendered bodies are written to `outputDir` as
+ * `issue-<n>.md` and `issue-<n>-comment-<id>.md` for review
+ */
+export class DryRunGitHubClient implements GitHubClient {
+  public calls: DryRunCall[] = [];
+  private readonly store: InMemoryGitHubAdapter;
+
+  constructor(
+    private readonly outputDir: string,
+    owner: string = "dry-run-owner",
+    repo: string = "dry-run-repo"
+  ) {
+    this.store = new InMemoryGitHubAdapter(owner, repo);
+  }
+
+  async createIssue(params: CreateIssueParams): Promise<IssueResult> {
+    this.record("createIssue", params);
+    const issue = await this.store.createIssue(params);
+    await this.write(issueFile(issue.number), params.body);
+    return issue;
+  }
+
+  async listIssues(params: ListIssuesParams): Promise<IssueDetails[]> {
+    this.record("listIssues", params);
+    return this.store.listIssues(params);
+  }
+
+  async updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult> {
+    this.record("updateIssue", issueNumber, params);
+    const issue = await this.store.updateIssue(issueNumber, params);
+    if (params.body !== undefined) {
+      await this.write(issueFile(issueNumber), params.body);
+    }
+    return issue;
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    this.record("getIssue", issueNumber);
+    return this.store.getIssue(issueNumber);
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    this.record("addLabels", issueNumber, labels);
+    return this.store.addLabels(issueNumber, labels);
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    this.record("removeLabel", issueNumber, label);
+    return this.store.removeLabel(issueNumber, label);
+  }
+
+  async createComment(
+    issueNumber: number,
+    body: string
+  ): Promise<CommentResult> {
+    this.record("createComment", issueNumber, body);
+    const comment = await this.store.createComment(issueNumber, body);
+    await this.write(commentFile(issueNumber, comment.id), body);
+    return comment;
+  }
+
+  async listComments(issueNumber: number): Promise<IssueComment[]> {
+    this.record("listComments", issueNumber);
+    return this.store.listComments(issueNumber);
+  }
+
+  async updateComment(commentId: number, body: string): Promise<CommentResult> {
+    this.record("updateComment", commentId, body);
+    const comment = await this.store.updateComment(commentId, body);
+    await this.write(commentFile(this.issueOf(commentId), commentId), body);
+    return comment;
+  }
+
+  async deleteComment(commentId: number): Promise<void> {
+    this.record("deleteComment", commentId);
+    const issueNumber = this.issueOf(commentId);
+    await this.store.deleteComment(commentId);
+    await rm(join(this.outputDir, commentFile(issueNumber, commentId)), {
+      force: true,
+    });
+  }
+
+  // Test helpers
+  callsTo(method: keyof GitHubClient): unknown[][] {
+    return this.calls
+      .filter((call) => call.method === method)
+      .map((call) => call.args);
+  }
+
+  private record(method: keyof GitHubClient, ...args: unknown[]): void {
+    this.calls.push({ method, args });
+  }
+
+  private issueOf(commentId: number): number {
+    const comment = this.store.comments.find(({ id }) => id === commentId);
+    if (!comment) {
+      throw new Error(`Comment ${commentId} not found`);
+    }
+    return comment.issueNumber;
+  }
+
+  private async write(fileName: string, body: string): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+    await writeFile(join(this.outputDir, fileName), body, "utf8");
+  }
+}
+
+function issueFile(issueNumber: number): string {
+  return `issue-${issueNumber}.md`;
+}
+
+function commentFile(issueNumber: number, commentId: number): string {
+  return `issue-${issueNumber}-comment-${commentId}.md`;
+}
@@ -0,0 +1,251 @@
+import {
+  CommentResult,
+  CreateIssueParams,
+  GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueResult,
+  ListIssuesParams,
+  UpdateIssueParams,
+} from "../interfaces";
+import { toIssueDetails } from "./github-rest";
+
+// A type alias (not an interface) so it stays assignable to Octokit's
+// index-signature RequestParameters
+type IssueRef = {
+  owner: string;
+  repo: string;
+  issue_number: number;
+};
+
+type CommentRef = {
+  owner: string;
+  repo: string;
+  comment_id: number;
+};
+
+/**
+ * Subset of the Octokit REST client used by the adapter
+ * Satisfied by `github.getOctokit(token)` and by in-process fakes in tests
+ */
+export interface OctokitIssuesClient {
+  rest: {
+    issues: {
+      create(params: {
+        owner: string;
+        repo: string;
+        title: string;
+        body?: string;
+        labels?: string[];
+      }): Promise<{ data: { number: number; html_url: string } }>;
+      listForRepo(params: {
+        owner: string;
+        repo: string;
+        state?: "open" | "closed" | "all";
+        labels?: string;
+        per_page?: number;
+        page?: number;
+      }): Promise<{ data: any[] }>;
+      update(
+        params: IssueRef & {
+          title?: string;
+          body?: string;
+          labels?: string[];
+          state?: "open" | "closed";
+        }
+      ): Promise<{ data: { number: number; html_url: string } }>;
+      get(params: IssueRef): Promise<{ data: any }>;
+      addLabels(params: IssueRef & { labels: string[] }): Promise<unknown>;
+      removeLabel(params: IssueRef & { name: string }): Promise<unknown>;
+      createComment(
+        params: IssueRef & { body: string }
+      ): Promise<{ data: { id: number; html_url: string } }>;
+      listComments(
+        params: IssueRef & { per_page?: number }
+      ): Promise<{ data: any[] }>;
+      updateComment(
+        params: CommentRef & { body: string }
+      ): Promise<{ data: { id: number; html_url: string } }>;
+      deleteComment(params: CommentRef): Promise<unknown>;
+    };
+  };
+}
+
+/**
+ * GitHub adapter for running inside GitHub Actions
+ * Uses the authenticated Octokit client provided by @actions/github
+ */
+export class GitHubActionsAdapter implements GitHubClient {
+  constructor(
+    private readonly octokit: OctokitIssuesClient,
+    private readonly owner: string,
+    private readonly repo: string
+  ) {}
+
+  async createIssue(params: CreateIssueParams): Promise<IssueResult> {
+    try {
+      const { data } = await this.octokit.rest.issues.create({
+        owner: this.owner,
+        repo: this.repo,
+        title: params.title,
+        body: params.body,
+        labels: params.labels || [],
+      });
+
+      return {
+        number: data.number,
+        url: data.html_url,
+      };
+    } catch (error) {
+      throw wrapError("Failed to create GitHub issue", error);
+    }
+  }
+
+  async listIssues(params: ListIssuesParams): Promise<IssueDetails[]> {
+    try {
+      const { data } = await this.octokit.rest.issues.listForRepo({
+        owner: this.owner,
+        repo: this.repo,
+        state: params.state || "open",
+        labels: params.labels?.join(","),
+        per_page: params.perPage || 30,
+        page: params.page,
+      });
+
+      return data
+        .filter((issue) => !issue.pull_request)
+        .map((issue) => toIssueDetails(issue));
+    } catch (error) {
+      throw wrapError("Failed to list GitHub issues", error);
+    }
+  }
+
+  async updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult> {
+    try {
+      const { data } = await this.octokit.rest.issues.update({
+        ...this.issueRef(issueNumber),
+        ...params,
+      });
+      return { number: data.number, url: data.html_url };
+    } catch (error) {
+      throw wrapError(`Failed to update GitHub issue #${issueNumber}`, error);
+    }
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    try {
+      const { data } = await this.octokit.rest.issues.get(
+        this.issueRef(issueNumber)
+      );
+      return toIssueDetails(data);
+    } catch (error) {
+      throw wrapError(`Failed to get GitHub issue #${issueNumber}`, error);
+    }
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    try {
+      await this.octokit.rest.issues.addLabels({
+        ...this.issueRef(issueNumber),
+        labels,
+      });
+    } catch (error) {
+      throw wrapError(
+        `Failed to add labels to GitHub issue #${issueNumber}`,
+        error
+      );
+    }
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    try {
+      await this.octokit.rest.issues.removeLabel({
+        ...this.issueRef(issueNumber),
+        name: label,
+      });
+    } catch (error) {
+      throw wrapError(
+        `Failed to remove label from GitHub issue #${issueNumber}`,
+        error
+      );
+    }
+  }
+
+  async createComment(
+    issueNumber: number,
+    body: string
+  ): Promise<CommentResult> {
+    try {
+      const { data } = await this.octokit.rest.issues.createComment({
+        ...this.issueRef(issueNumber),
+        body,
+      });
+      return { id: data.id, url: data.html_url };
+    } catch (error) {
+      throw wrapError(
+        `Failed to comment on GitHub issue #${issueNumber}`,
+        error
+      );
+    }
+  }
+
+  async listComments(issueNumber: number): Promise<IssueComment[]> {
+    try {
+      const { data } = await this.octokit.rest.issues.listComments({
+        ...this.issueRef(issueNumber),
+        per_page: 100,
+      });
+      return data.map((comment) => ({
+        id: comment.id,
+        url: comment.html_url,
+        body: comment.body || "",
+        author: comment.user
+          ? { login: comment.user.login, type: comment.user.type }
+          : undefined,
+      }));
+    } catch (error) {
+      throw wrapError(
+        `Failed to list comments on GitHub issue #${issueNumber}`,
+        error
+      );
+    }
+  }
+
+  async updateComment(commentId: number, body: string): Promise<CommentResult> {
+    try {
+      const { data } = await this.octokit.rest.issues.updateComment({
+        ...this.commentRef(commentId),
+        body,
+      });
+      return { id: data.id, url: data.html_url };
+    } catch (error) {
+      throw wrapError(`Failed to update GitHub comment ${commentId}`, error);
+    }
+  }
+
+  async deleteComment(commentId: number): Promise<void> {
+    try {
+      await this.octokit.rest.issues.deleteComment(this.commentRef(commentId));
+    } catch (error) {
+      throw wrapError(`Failed to delete GitHub comment ${commentId}`, error);
+    }
+  }
+
+  private commentRef(commentId: number): CommentRef {
+    return { owner: this.owner, repo: this.repo, comment_id: commentId };
+  }
+
+  private issueRef(issueNumber: number): IssueRef {
+    return { owner: this.owner, repo: this.repo, issue_number: issueNumber };
+  }
+}
+
+function wrapError(context: string, error: unknown): Error {
+  if (error instanceof Error) {
+    return new Error(`${context}: ${error.message}`);
+  }
+  return new Error(`${context}: Unknown error`);
+}
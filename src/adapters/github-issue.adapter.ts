@@ -0,0 +1,77 @@
+import {
+  DigestPublisher,
+  GitHubClient,
+  IssueDraft,
+  Logger,
+  UpsertIssueResult,
+} from "../interfaces";
+
+/**
+ * Posts each digest as a GitHub issue, creating it or updating the existing
+ * digest issue in place, and keeps its overflow comments in step
+ * The default primary channel of `JobDigestService`; failures are rethrown.
+ */
+export class GitHubIssuePublisher
+  implements DigestPublisher<IssueDraft, UpsertIssueResult>
+{
+  readonly name = "github";
+
+  constructor(
+    private readonly githubClient: GitHubClient,
+    private readonly logger: Logger
+  ) {}
+
+  async publish(draft: IssueDraft): Promise<UpsertIssueResult> {
+    const { params, comments, existing } = draft;
+
+    if (existing) {
+      const issue = await this.githubClient.updateIssue(
+        existing.number,
+        params
+      );
+      this.logger.info(`✅ Updated issue #${issue.number}: ${issue.url}`);
+      await this.syncOverflowComments(
+        issue.number,
+        comments,
+        existing.commentIds
+      );
+      return { ...issue, action: "updated" };
+    }
+
+    const issue = await this.githubClient.createIssue(params);
+    this.logger.info(`✅ Created issue #${issue.number}: ${issue.url}`);
+    await this.syncOverflowComments(issue.number, comments, []);
+    return { ...issue, action: "created" };
+  }
+
+  /**
+   * Post overflow parts as comments in order, reusing (editing) comments left
+   * by a previous run and deleting any that are no longer needed
+   */
+  private async syncOverflowComments(
+    issueNumber: number,
+    comments: string[],
+    previousCommentIds: number[]
+  ): Promise<void> {
+    for (let i = 0; i < comments.length; i++) {
+      if (i < previousCommentIds.length) {
+        await this.githubClient.updateComment(
+          previousCommentIds[i],
+          comments[i]
+        );
+      } else {
+        await this.githubClient.createComment(issueNumber, comments[i]);
+      }
+    }
+
+    for (const commentId of previousCommentIds.slice(comments.length)) {
+      await this.githubClient.deleteComment(commentId);
+    }
+
+    if (comments.length > 0) {
+      this.logger.info(
+        `Posted ${comments.length} overflow comment(s) on issue #${issueNumber}`
+      );
+    }
+  }
+}
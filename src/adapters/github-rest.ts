@@ -0,0 +1,18 @@
+import { IssueDetails } from "../interfaces";
+
+/**
+ * Map a GitHub REST API issue payload to the platform-agnostic shape
+ * Shared by the REST and Octokit adapters, which receive identical payloads
+ */
+export function toIssueDetails(issue: any): IssueDetails {
+  return {
+    number: issue.number,
+    url: issue.html_url,
+    title: issue.title,
+    body: issue.body || "",
+    labels: (issue.labels || []).map((label: any) =>
+      typeof label === "string" ? label : label.name
+    ),
+    state: issue.state === "closed" ? "closed" : "open",
+  };
+}
@@ -0,0 +1,167 @@
+import {
+  CommentAuthor,
+  CommentResult,
+  CreateIssueParams,
+  GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueResult,
+  ListIssuesParams,
+  UpdateIssueParams,
+} from "../interfaces";
+
+export interface InMemoryComment extends CommentResult {
+  issueNumber: number;
+  body: string;
+  author?: CommentAuthor;
+}
+
+/**
+ * In-memory GitHub adapter for tests and offline experiments
+ * Keeps issues in a local array and mimics GitHub's newest-first listing
+ */
+export class InMemoryGitHubAdapter implements GitHubClient {
+  public issues: IssueDetails[] = [];
+  public comments: InMemoryComment[] = [];
+  /** Account new comments are posted as */
+  public commenter: CommentAuthor = {
+    login: "github-actions[bot]",
+    type: "Bot",
+  };
+  private lastCommentId = 0;
+
+  constructor(
+    private readonly owner: string = "test-owner",
+    private readonly repo: string = "test-repo"
+  ) {}
+
+  async createIssue(params: CreateIssueParams): Promise<IssueResult> {
+    const number = this.issues.length + 1;
+    const issue: IssueDetails = {
+      number,
+      url: `https://github.com/${this.owner}/${this.repo}/issues/${number}`,
+      title: params.title,
+      body: params.body,
+      labels: [...(params.labels || [])],
+      state: "open",
+    };
+    this.issues.push(issue);
+
+    return { number: issue.number, url: issue.url };
+  }
+
+  async listIssues(params: ListIssuesParams): Promise<IssueDetails[]> {
+    const state = params.state || "open";
+    const labels = params.labels || [];
+    const perPage = params.perPage || 30;
+    const start = ((params.page || 1) - 1) * perPage;
+
+    return this.issues
+      .filter((issue) => state === "all" || issue.state === state)
+      .filter((issue) => labels.every((label) => issue.labels.includes(label)))
+      .reverse()
+      .slice(start, start + perPage)
+      .map((issue) => this.copy(issue));
+  }
+
+  async updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult> {
+    const issue = this.find(issueNumber);
+    if (params.title !== undefined) issue.title = params.title;
+    if (params.body !== undefined) issue.body = params.body;
+    if (params.labels !== undefined) issue.labels = [...params.labels];
+    if (params.state !== undefined) issue.state = params.state;
+
+    return { number: issue.number, url: issue.url };
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    return this.copy(this.find(issueNumber));
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    const issue = this.find(issueNumber);
+    for (const label of labels) {
+      if (!issue.labels.includes(label)) {
+        issue.labels.push(label);
+      }
+    }
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    const issue = this.find(issueNumber);
+    if (!issue.labels.includes(label)) {
+      throw new Error(`Label does not exist: ${label}`);
+    }
+    issue.labels = issue.labels.filter((existing) => existing !== label);
+  }
+
+  async createComment(
+    issueNumber: number,
+    body: string
+  ): Promise<CommentResult> {
+    const issue = this.find(issueNumber);
+    const id = ++this.lastCommentId;
+    const comment: InMemoryComment = {
+      id,
+      url: `${issue.url}#issuecomment-${id}`,
+      issueNumber,
+      body,
+      author: { ...this.commenter },
+    };
+    this.comments.push(comment);
+
+    return { id: comment.id, url: comment.url };
+  }
+
+  async listComments(issueNumber: number): Promise<IssueComment[]> {
+    this.find(issueNumber);
+    return this.comments
+      .filter((comment) => comment.issueNumber === issueNumber)
+      .map(({ id, url, body, author }) => ({ id, url, body, author }));
+  }
+
+  async updateComment(commentId: number, body: string): Promise<CommentResult> {
+    const comment = this.findComment(commentId);
+    comment.body = body;
+    return { id: comment.id, url: comment.url };
+  }
+
+  async deleteComment(commentId: number): Promise<void> {
+    this.findComment(commentId);
+    this.comments = this.comments.filter((comment) => comment.id !== commentId);
+  }
+
+  // Test helpers
+  commentsFor(issueNumber: number): string[] {
+    return this.comments
+      .filter((comment) => comment.issueNumber === issueNumber)
+      .map((comment) => comment.body);
+  }
+
+  private find(issueNumber: number): IssueDetails {
+    const issue = this.issues.find(
+      (candidate) => candidate.number === issueNumber
+    );
+    if (!issue) {
+      throw new Error(`Issue #${issueNumber} not found`);
+    }
+    return issue;
+  }
+
+  private findComment(commentId: number): InMemoryComment {
+    const comment = this.comments.find(
+      (candidate) => candidate.id === commentId
+    );
+    if (!comment) {
+      throw new Error(`Comment ${commentId} not found`);
+    }
+    return comment;
+  }
+
+  private copy(issue: IssueDetails): IssueDetails {
+    return { ...issue, labels: [...issue.labels] };
+  }
+}
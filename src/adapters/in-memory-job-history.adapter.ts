@@ -0,0 +1,30 @@
+import { JobHistoryStore } from "../interfaces";
+import { JobHistoryEntry, JobListing } from "../types";
+
+/**
+ * In-memory job history for tests and single-run experiments
+ */
+export class InMemoryJobHistoryStore implements JobHistoryStore {
+  public entries = new Map<string, JobHistoryEntry>();
+
+  async getEntries(jobIds: string[]): Promise<Map<string, JobHistoryEntry>> {
+    const found = new Map<string, JobHistoryEntry>();
+    for (const jobId of jobIds) {
+      const entry = this.entries.get(jobId);
+      if (entry) {
+        found.set(jobId, entry);
+      }
+    }
+    return found;
+  }
+
+  async saveEntries(entries: JobHistoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.job.id, entry);
+    }
+  }
+
+  async findJob(jobId: string): Promise<JobListing | undefined> {
+    return this.entries.get(jobId)?.job;
+  }
+}
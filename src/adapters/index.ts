@@ -1,2 +1,13 @@
+export { ActionsLogger } from "./actions-logger.adapter";
 export { ConsoleLogger } from "./console-logger.adapter";
+export { DiscordWebhookPublisher } from "./discord-webhook.adapter";
+export { DryRunGitHubClient } from "./dry-run-github.adapter";
+export { GitHubActionsAdapter } from "./github-actions.adapter";
+export { GitHubIssuePublisher } from "./github-issue.adapter";
+export { InMemoryGitHubAdapter } from "./in-memory-github.adapter";
+export { InMemoryJobHistoryStore } from "./in-memory-job-history.adapter";
+export { JsonFileJobHistoryStore } from "./json-file-job-history.adapter";
 export { LocalGitHubAdapter } from "./local-github.adapter";
+export { SlackWebhookPublisher } from "./slack-webhook.adapter";
+export { SmtpPublisher } from "./smtp.adapter";
+export { SystemClock } from "./system-clock.adapter";
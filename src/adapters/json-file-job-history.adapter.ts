@@ -0,0 +1,101 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { JobHistoryStore } from "../interfaces";
+import { JobHistoryEntry, JobListing } from "../types";
+
+const FILE_VERSION = 1;
+
+interface JobHistoryFile {
+  version: number;
+  jobs: Record<string, JobHistoryEntry>;
+}
+
+/**
+ * Job history kept in a JSON file, e.g. committed back to the repository by
+ * the workflow so the next run can tell new jobs from repeats
+ * The file is read once and rewritten in full on every save.
+ */
+export class JsonFileJobHistoryStore implements JobHistoryStore {
+  private jobs?: Map<string, JobHistoryEntry>;
+
+  constructor(private readonly filePath: string) {}
+
+  async getEntries(jobIds: string[]): Promise<Map<string, JobHistoryEntry>> {
+    const jobs = await this.load();
+    const found = new Map<string, JobHistoryEntry>();
+    for (const jobId of jobIds) {
+      const entry = jobs.get(jobId);
+      if (entry) {
+        found.set(jobId, entry);
+      }
+    }
+    return found;
+  }
+
+  async saveEntries(entries: JobHistoryEntry[]): Promise<void> {
+    const jobs = await this.load();
+    for (const entry of entries) {
+      jobs.set(entry.job.id, entry);
+    }
+
+    const file: JobHistoryFile = {
+      version: FILE_VERSION,
+      jobs: Object.fromEntries(jobs),
+    };
+
+    // Write then rename so an interrupted run never leaves a truncated file
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Every remembered job, most recently seen first
+   */
+  async listEntries(): Promise<JobHistoryEntry[]> {
+    return [...(await this.load()).values()].sort((a, b) =>
+      b.lastSeenAt.localeCompare(a.lastSeenAt)
+    );
+  }
+
+  async findJob(jobId: string): Promise<JobListing | undefined> {
+    return (await this.load()).get(jobId)?.job;
+  }
+
+  private async load(): Promise<Map<string, JobHistoryEntry>> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.jobs = new Map();
+        return this.jobs;
+      }
+      throw error;
+    }
+
+    let file: JobHistoryFile;
+    try {
+      file = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid job history file ${this.filePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+    if (file?.version !== FILE_VERSION || typeof file.jobs !== "object") {
+      throw new Error(
+        `Invalid job history file ${this.filePath}: expected version ${FILE_VERSION}`
+      );
+    }
+
+    this.jobs = new Map(Object.entries(file.jobs));
+    return this.jobs;
+  }
+}
@@ -1,24 +1,256 @@
-import { CreateIssueParams, GitHubClient, IssueResult } from "../interfaces";
+import {
+  Clock,
+  CommentResult,
+  CreateIssueParams,
+  GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueResult,
+  ListIssuesParams,
+  UpdateIssueParams,
+} from "../interfaces";
+import { toIssueDetails } from "./github-rest";
+import { SystemClock } from "./system-clock.adapter";
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on each further retry (default 1000) */
+  baseDelayMs?: number;
+  /** Longest single wait, including rate-limit waits; longer waits fail fast (default 60000) */
+  maxDelayMs?: number;
+}
+
+export interface LocalGitHubAdapterOptions {
+  /** API root, overridable for GitHub Enterprise or local stubs */
+  apiUrl?: string;
+  retry?: RetryOptions;
+  clock?: Clock;
+}
+
+/** Methods that are safe to repeat when GitHub may already have acted */
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "PATCH", "DELETE"]);
+
+const SECONDARY_RATE_LIMIT_PATTERN = /secondary rate limit/i;
+
+/**
+ * Error carrying the HTTP response details needed for retry decisions
+ */
+class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
 
 /**
  * GitHub adapter for local development and testing with real API
  * Uses direct REST API calls - perfect for testing outside GitHub Actions
+ * Retries rate limits, plus 5xx responses and network errors for idempotent
+ * methods, with exponential backoff
  */
 export class LocalGitHubAdapter implements GitHubClient {
   private readonly baseUrl: string;
+  private readonly retry: Required<RetryOptions>;
+  private readonly clock: Clock;
 
   constructor(
     private readonly token: string,
     private readonly owner: string,
-    private readonly repo: string
+    private readonly repo: string,
+    options: LocalGitHubAdapterOptions = {}
   ) {
-    this.baseUrl = `https://api.github.com/repos/${owner}/${repo}`;
+    const apiUrl = (options.apiUrl || "https://api.github.com").replace(
+      /\/+$/,
+      ""
+    );
+    this.baseUrl = `${apiUrl}/repos/${owner}/${repo}`;
+    this.retry = {
+      maxRetries: options.retry?.maxRetries ?? 3,
+      baseDelayMs: options.retry?.baseDelayMs ?? 1000,
+      maxDelayMs: options.retry?.maxDelayMs ?? 60000,
+    };
+    this.clock = options.clock || new SystemClock();
   }
 
   async createIssue(params: CreateIssueParams): Promise<IssueResult> {
+    const issueData = await this.request(
+      "Failed to create GitHub issue",
+      "POST",
+      "/issues",
+      {
+        title: params.title,
+        body: params.body,
+        labels: params.labels || [],
+      }
+    );
+
+    return {
+      number: issueData.number,
+      url: issueData.html_url,
+    };
+  }
+
+  async listIssues(params: ListIssuesParams): Promise<IssueDetails[]> {
+    const query = new URLSearchParams({
+      state: params.state || "open",
+      per_page: String(params.perPage || 30),
+    });
+    if (params.page) {
+      query.set("page", String(params.page));
+    }
+    if (params.labels && params.labels.length > 0) {
+      query.set("labels", params.labels.join(","));
+    }
+
+    const issues = (await this.request(
+      "Failed to list GitHub issues",
+      "GET",
+      `/issues?${query}`
+    )) as any[];
+
+    return issues
+      .filter((issue) => !issue.pull_request)
+      .map((issue) => toIssueDetails(issue));
+  }
+
+  async updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult> {
+    const issueData = await this.request(
+      `Failed to update GitHub issue #${issueNumber}`,
+      "PATCH",
+      `/issues/${issueNumber}`,
+      params
+    );
+
+    return {
+      number: issueData.number,
+      url: issueData.html_url,
+    };
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    const issue = await this.request(
+      `Failed to get GitHub issue #${issueNumber}`,
+      "GET",
+      `/issues/${issueNumber}`
+    );
+
+    return toIssueDetails(issue);
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await this.request(
+      `Failed to add labels to GitHub issue #${issueNumber}`,
+      "POST",
+      `/issues/${issueNumber}/labels`,
+      { labels }
+    );
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    await this.request(
+      `Failed to remove label from GitHub issue #${issueNumber}`,
+      "DELETE",
+      `/issues/${issueNumber}/labels/${encodeURIComponent(label)}`
+    );
+  }
+
+  async createComment(
+    issueNumber: number,
+    body: string
+  ): Promise<CommentResult> {
+    const comment = await this.request(
+      `Failed to comment on GitHub issue #${issueNumber}`,
+      "POST",
+      `/issues/${issueNumber}/comments`,
+      { body }
+    );
+
+    return {
+      id: comment.id,
+      url: comment.html_url,
+    };
+  }
+
+  async listComments(issueNumber: number): Promise<IssueComment[]> {
+    const comments = (await this.request(
+      `Failed to list comments on GitHub issue #${issueNumber}`,
+      "GET",
+      `/issues/${issueNumber}/comments?per_page=100`
+    )) as any[];
+
+    return comments.map((comment) => ({
+      id: comment.id,
+      url: comment.html_url,
+      body: comment.body || "",
+      author: comment.user
+        ? { login: comment.user.login, type: comment.user.type }
+        : undefined,
+    }));
+  }
+
+  async updateComment(commentId: number, body: string): Promise<CommentResult> {
+    const comment = await this.request(
+      `Failed to update GitHub comment ${commentId}`,
+      "PATCH",
+      `/issues/comments/${commentId}`,
+      { body }
+    );
+
+    return {
+      id: comment.id,
+      url: comment.html_url,
+    };
+  }
+
+  async deleteComment(commentId: number): Promise<void> {
+    await this.request(
+      `Failed to delete GitHub comment ${commentId}`,
+      "DELETE",
+      `/issues/comments/${commentId}`
+    );
+  }
+
+  /**
+   * Perform a REST call against the repository and return the parsed JSON
+   * Every failure is rethrown with the given context prefix
+   */
+  private async request(
+    context: string,
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(method, path, body);
+      } catch (error) {
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined) {
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          throw new Error(`${context}: ${message}`);
+        }
+        await this.clock.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Single HTTP round trip; failures are classified as retryable or not
+   */
+  private async send(method: string, path: string, body?: unknown) {
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+    let response: Response;
     try {
-      const response = await fetch(`${this.baseUrl}/issues`, {
-        method: "POST",
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
         headers: {
           Authorization: `Bearer ${this.token}`,
           Accept: "application/vnd.github+json",
@@ -26,32 +258,100 @@ export class LocalGitHubAdapter implements GitHubClient {
           "X-GitHub-Api-Version": "2022-11-28",
           "User-Agent": "job-search-automation-github/1.0",
         },
-        body: JSON.stringify({
-          title: params.title,
-          body: params.body,
-          labels: params.labels || [],
-        }),
+        body: body === undefined ? undefined : JSON.stringify(body),
       });
+    } catch (error) {
+      // fetch only rejects for network-level failures; the request may still
+      // have reached GitHub, so only idempotent methods are repeated
+      throw new GitHubApiError(
+        `Network error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        idempotent
+      );
+    }
 
-      if (!response.ok) {
-        const errorData = (await response.json().catch(() => ({}))) as any;
-        throw new Error(
-          `GitHub API error (${response.status}): ${
-            errorData.message || response.statusText
-          }`
-        );
-      }
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as any;
+      const message: string = errorData.message || response.statusText;
+      const rateLimitWait = this.rateLimitWait(response, message);
+      throw new GitHubApiError(
+        `GitHub API error (${response.status}): ${message}`,
+        rateLimitWait !== undefined || (idempotent && response.status >= 500),
+        rateLimitWait
+      );
+    }
 
-      const issueData = (await response.json()) as any;
-      return {
-        number: issueData.number,
-        url: issueData.html_url,
-      };
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to create GitHub issue: ${error.message}`);
-      }
-      throw new Error("Failed to create GitHub issue: Unknown error");
+    if (response.status === 204) {
+      return undefined;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Wait requested by a 403/429 rate-limit response, or undefined when the
+   * response is not a rate limit (e.g. a 403 for missing permissions)
+   * Rate limits are rejected before GitHub acts, so any method may retry them
+   */
+  private rateLimitWait(
+    response: Response,
+    message: string
+  ): number | undefined {
+    if (response.status !== 403 && response.status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = readHeaderNumber(response.headers.get("retry-after"));
+    if (retryAfter !== undefined) {
+      return Math.max(0, retryAfter * 1000);
+    }
+
+    const reset = readHeaderNumber(response.headers.get("x-ratelimit-reset"));
+    const exhausted = response.headers.get("x-ratelimit-remaining") === "0";
+    if (reset !== undefined && (exhausted || response.status === 429)) {
+      return Math.max(0, reset * 1000 - this.clock.now());
+    }
+
+    // Rate limits without usable hints fall back to backoff
+    const rateLimited =
+      response.status === 429 ||
+      exhausted ||
+      SECONDARY_RATE_LIMIT_PATTERN.test(message);
+    return rateLimited ? 0 : undefined;
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the error is final
+   */
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    if (!(error instanceof GitHubApiError) || !error.retryable) {
+      return undefined;
+    }
+    if (attempt >= this.retry.maxRetries) {
+      return undefined;
     }
+
+    const backoff = this.retry.baseDelayMs * 2 ** attempt;
+    const delay = Math.max(backoff, error.retryAfterMs ?? 0);
+
+    if (error.retryAfterMs !== undefined && delay > this.retry.maxDelayMs) {
+      // Rate limit resets too far in the future to wait for
+      return undefined;
+    }
+
+    return Math.min(delay, this.retry.maxDelayMs);
+  }
+}
+
+/**
+ * Numeric header value, or undefined when missing or not a number
+ * (e.g. a Retry-After given as an HTTP date)
+ */
+function readHeaderNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
   }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
 }
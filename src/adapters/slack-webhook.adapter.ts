@@ -0,0 +1,25 @@
+import { DigestPublication, DigestPublisher } from "../interfaces";
+import { SlackFormatter } from "../services/slack-formatter";
+import { postWebhook, WEBHOOK_TIMEOUT_MS } from "./webhook";
+
+/**
+ * Posts each digest to a Slack channel through an incoming webhook
+ */
+export class SlackWebhookPublisher implements DigestPublisher {
+  readonly name = "slack";
+
+  constructor(
+    private readonly webhookUrl: string,
+    private readonly formatter: SlackFormatter = new SlackFormatter(),
+    private readonly timeoutMs: number = WEBHOOK_TIMEOUT_MS
+  ) {}
+
+  async publish(publication: DigestPublication): Promise<void> {
+    await postWebhook(
+      "Failed to post digest to Slack",
+      this.webhookUrl,
+      this.formatter.format(publication),
+      this.timeoutMs
+    );
+  }
+}
@@ -0,0 +1,405 @@
+import { connect as connectTcp, Socket } from "net";
+import { connect as connectTls } from "tls";
+import { DigestPublication, DigestPublisher } from "../interfaces";
+import { HtmlFormatter } from "../services/html-formatter";
+import { PlainTextFormatter } from "../services/plain-text-formatter";
+
+export interface SmtpPublisherOptions {
+  host: string;
+  /** Default 465 with `secure`, otherwise 587 */
+  port?: number;
+  /** Connect over TLS from the start (SMTPS); otherwise STARTTLS is used when offered */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  /** Sender, e.g. "Job Digest <jobs@example.com>" */
+  from: string;
+  to: string[];
+  /** Refuse to send over a plain connection (default: when credentials are set) */
+  requireTls?: boolean;
+  /** Longest wait for a server reply (default 30000) */
+  timeoutMs?: number;
+  /** Name announced in EHLO (default "localhost") */
+  clientName?: string;
+}
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  /** Sent as the preferred multipart/alternative part when set */
+  html?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-oriented SMTP conversation over a socket that can be upgraded to TLS
+ */
+class SmtpSession {
+  private buffer = "";
+  private pending: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter?: {
+    resolve(reply: SmtpReply): void;
+    reject(error: Error): void;
+  };
+  private failure?: Error;
+  private socket!: Socket;
+
+  private readonly onData = (chunk: Buffer) => this.receive(chunk);
+  private readonly onError = (error: Error) =>
+    this.fail(new Error(error.message));
+  private readonly onClose = () =>
+    this.fail(new Error("SMTP connection closed unexpectedly"));
+
+  private constructor(socket: Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static async open(
+    host: string,
+    port: number,
+    secure: boolean,
+    timeoutMs: number
+  ): Promise<SmtpSession> {
+    const socket = secure
+      ? connectTls({ host, port, servername: host })
+      : connectTcp({ host, port });
+    await connected(socket, secure ? "secureConnect" : "connect", timeoutMs);
+    return new SmtpSession(socket, timeoutMs);
+  }
+
+  /**
+   * Send one command line and check the reply code
+   * `label` names the command in errors, so credentials never appear there
+   */
+  async command(
+    line: string,
+    expected: number[],
+    label: string = line.split(" ")[0]
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(label, expected);
+  }
+
+  async expect(label: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${label} rejected (${reply.code}): ${reply.lines.join(" ")}`
+      );
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.detach();
+    const secured = connectTls({ socket: this.socket, servername: host });
+    await connected(secured, "secureConnect", this.timeoutMs);
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.detach();
+    this.socket.on("error", () => undefined);
+    this.socket.destroy();
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(
+        new Error(`SMTP server did not reply within ${this.timeoutMs}ms`)
+      )
+    );
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private detach(): void {
+    this.socket.setTimeout(0);
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  /**
+   * Collect reply lines; "250-..." continues a reply and "250 ..." ends it
+   */
+  private receive(chunk: Buffer): void {
+    const lines = (this.buffer + chunk.toString("utf8")).split(/\r?\n/);
+    this.buffer = lines.pop()!;
+
+    for (const line of lines) {
+      this.pending.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.pending });
+        this.pending = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    if (waiter) {
+      waiter.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    waiter?.reject(this.failure);
+  }
+}
+
+/**
+ * Emails each digest over SMTP, using STARTTLS and AUTH PLAIN when the
+ * server offers them
+ */
+export class SmtpPublisher implements DigestPublisher {
+  readonly name = "email";
+
+  private readonly options: Required<
+    Omit<SmtpPublisherOptions, "username" | "password">
+  > &
+    Pick<SmtpPublisherOptions, "username" | "password">;
+
+  constructor(options: SmtpPublisherOptions) {
+    this.options = {
+      ...options,
+      port: options.port ?? (options.secure ? 465 : 587),
+      secure: options.secure ?? false,
+      requireTls: options.requireTls ?? options.username !== undefined,
+      timeoutMs: options.timeoutMs ?? 30000,
+      clientName: options.clientName ?? "localhost",
+    };
+  }
+
+  async publish(publication: DigestPublication): Promise<void> {
+    const message = buildMessage(
+      this.options.from,
+      this.options.to,
+      renderEmail(publication)
+    );
+
+    try {
+      await this.send(message);
+    } catch (error) {
+      throw new Error(
+        `Failed to email digest: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * One SMTP session delivering `message` to every recipient
+   */
+  private async send(message: string): Promise<void> {
+    const { host, port, secure, timeoutMs, username, password } = this.options;
+    for (const mailbox of [this.options.from, ...this.options.to]) {
+      checkMailbox(mailbox);
+    }
+    const session = await SmtpSession.open(host, port, secure, timeoutMs);
+
+    try {
+      await session.expect("greeting", [220]);
+      const features = await this.hello(session);
+
+      let encrypted = secure;
+      if (!encrypted && features.includes("STARTTLS")) {
+        await session.command("STARTTLS", [220]);
+        await session.upgrade(host);
+        encrypted = true;
+        await this.hello(session);
+      }
+      if (!encrypted && this.options.requireTls) {
+        throw new Error(`SMTP server ${host} does not offer STARTTLS`);
+      }
+
+      if (username !== undefined) {
+        const credentials = Buffer.from(
+          `\0${username}\0${password ?? ""}`
+        ).toString("base64");
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${address(this.options.from)}>`, [250]);
+      for (const recipient of this.options.to) {
+        await session.command(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+      }
+      await session.command("DATA", [354]);
+      await session.command(`${message}\r\n.`, [250], "message");
+      await session.command("QUIT", [221]);
+    } finally {
+      session.close();
+    }
+  }
+
+  /**
+   * EHLO, returning the extension keywords the server advertises
+   */
+  private async hello(session: SmtpSession): Promise<string[]> {
+    const reply = await session.command(`EHLO ${this.options.clientName}`, [
+      250,
+    ]);
+    return reply.lines.slice(1).map((line) => line.split(" ")[0].toUpperCase());
+  }
+}
+
+/**
+ * HTML email with a plain-text alternative for a posted digest, linking back
+ * to the issue
+ */
+function renderEmail(publication: DigestPublication): EmailContent {
+  const { title, digest, issue, jobStatuses, sortBy } = publication;
+  const options = { title, sortBy, jobStatuses, issueUrl: issue.url };
+
+  return {
+    subject: title,
+    text: new PlainTextFormatter().format(digest, options).body,
+    html: new HtmlFormatter().format(digest, options).body,
+  };
+}
+
+/**
+ * RFC 5322 message with base64 UTF-8 bodies, dot-stuffed for DATA
+ */
+function buildMessage(
+  from: string,
+  to: string[],
+  content: EmailContent,
+  date: Date = new Date()
+): string {
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: ${to.map(headerValue).join(", ")}`,
+    `Subject: ${encodeHeader(headerValue(content.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+
+  let body: string;
+  if (content.html === undefined) {
+    body = bodyPart("text/plain", content.text);
+  } else {
+    const boundary = `digest-${date.getTime().toString(36)}-${Math.random()
+      .toString(36)
+      .slice(2)}`;
+    headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+    // Clients show the last part they support, so HTML goes last
+    body = [
+      "",
+      `--${boundary}`,
+      bodyPart("text/plain", content.text),
+      `--${boundary}`,
+      bodyPart("text/html", content.html),
+      `--${boundary}--`,
+    ].join("\r\n");
+  }
+
+  return `${headers.join("\r\n")}\r\n${body}`.replace(/^\./gm, "..");
+}
+
+/** Content headers, a blank line and the base64 body of one part */
+function bodyPart(type: string, content: string): string {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encoded,
+  ].join("\r\n");
+}
+
+/** Keep a header on one line so values cannot inject headers */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/** RFC 2047 encoding for non-ASCII header text such as emoji titles */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/**
+ * Addresses end up in MAIL FROM / RCPT TO lines, so a line break in one
+ * could smuggle in extra SMTP commands
+ */
+function checkMailbox(mailbox: string): void {
+  if (/[\x00-\x1f\x7f]/.test(mailbox)) {
+    throw new Error(
+      `Invalid email address ${JSON.stringify(
+        mailbox
+      )}: control characters are not allowed`
+    );
+  }
+}
+
+/** Bare address from a mailbox like "Name <user@example.com>" */
+function address(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Wait for a socket to connect (including any TLS handshake), destroying it
+ * after `timeoutMs`; socket errors are rethrown as plain errors
+ */
+function connected(
+  socket: Socket,
+  event: string,
+  timeoutMs: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, onConnect);
+      socket.off("error", onError);
+      socket.on("error", () => undefined);
+      socket.destroy();
+      reject(new Error(`SMTP server did not reply within ${timeoutMs}ms`));
+    }, timeoutMs);
+    const onConnect = () => {
+      clearTimeout(timer);
+      socket.off("error", onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      socket.off(event, onConnect);
+      reject(new Error(error.message));
+    };
+    socket.once(event, onConnect);
+    socket.once("error", onError);
+  });
+}
@@ -0,0 +1,14 @@
+import { Clock } from "../interfaces";
+
+/**
+ * Clock adapter backed by the real system time and timers
+ */
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,48 @@
+/** Longest wait for a webhook to answer */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * POST a JSON payload to a chat webhook, giving up after `timeoutMs`
+ * Failures are rethrown with the given context prefix; the webhook URL is a
+ * secret, so it is never part of the message.
+ */
+export async function postWebhook(
+  context: string,
+  url: string,
+  payload: unknown,
+  timeoutMs: number = WEBHOOK_TIMEOUT_MS
+): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "job-search-automation-github/1.0",
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    // Fetch aborts with a DOMException, which is not always an Error here
+    if ((error as { name?: unknown } | undefined)?.name === "TimeoutError") {
+      throw new Error(
+        `${context}: Webhook did not respond within ${timeoutMs}ms`
+      );
+    }
+    throw new Error(
+      `${context}: Network error: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).trim();
+    throw new Error(
+      `${context}: Webhook error (${response.status}): ${
+        detail || response.statusText
+      }`
+    );
+  }
+}
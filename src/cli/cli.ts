@@ -0,0 +1,636 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { parseArgs } from "util";
+import {
+  InMemoryGitHubAdapter,
+  JsonFileJobHistoryStore,
+  LocalGitHubAdapter,
+} from "../adapters";
+import {
+  SettingsLoader,
+  toDigestIssueOptions,
+  toLocalAdapterOptions,
+} from "../config";
+import { DryRunResult, GitHubClient, Logger } from "../interfaces";
+import { CommentCommandService } from "../services/comment-command.service";
+import { exportDigest } from "../services/digest-exporter";
+import { DigestProcessor } from "../services/digest-processor";
+import { summaryLine } from "../services/format-utils";
+import { HtmlFormatter } from "../services/html-formatter";
+import { JobDigestService } from "../services/job-digest.service";
+import { PlainTextFormatter } from "../services/plain-text-formatter";
+import {
+  CreateDigestIssueOptions,
+  ExportFormat,
+  IssueCommentEvent,
+  UserSettings,
+  ValidationIssue,
+} from "../types";
+
+/** Process exit codes */
+export const EXIT_OK = 0;
+/** GitHub, file or other runtime failure */
+export const EXIT_FAILURE = 1;
+/** Unknown command or flag, missing argument or invalid settings */
+export const EXIT_USAGE = 2;
+/** The digest failed validation */
+export const EXIT_INVALID_DIGEST = 3;
+
+const DEFAULT_SETTINGS_FILE = "config/settings.yaml";
+
+type Command =
+  | "validate"
+  | "preview"
+  | "publish"
+  | "export"
+  | "history"
+  | "comment";
+
+/** Accepted `--format` values per command; the first is the default */
+const FORMATS: Record<Command, string[]> = {
+  validate: ["text", "json"],
+  preview: ["markdown", "html", "text"],
+  publish: ["text", "json"],
+  export: ["csv", "jsonl", "ics"],
+  history: ["text", "json"],
+  comment: ["text", "json"],
+};
+
+const FLAGS = {
+  owner: { type: "string" },
+  repo: { type: "string" },
+  labels: { type: "string" },
+  "dry-run": { type: "boolean" },
+  format: { type: "string", short: "f" },
+  settings: { type: "string" },
+  history: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+export const USAGE = `Usage: npm run cli -- <command> [file] [flags]
+
+Commands:
+  validate [file]         Check a digest against the schema
+  preview [file]          Render the digest issue to stdout without posting it
+  publish [file]          Create (or, in upsert mode, update) the digest issue
+  export [file]           Write the digest's jobs as CSV, JSON Lines or iCalendar
+  history <history-file>  List the jobs remembered by a job history file
+  comment <event-file>    Run /commands from an issue_comment event payload
+                          (e.g. $GITHUB_EVENT_PATH); /apply needs --history
+
+Digests are read from [file], or from stdin when it is "-" or left out.
+
+Flags:
+  --owner <owner>         Repository owner (default: GITHUB_OWNER, then settings)
+  --repo <repo>           Repository name (default: GITHUB_REPO, then settings)
+  --labels <a,b>          Extra labels for the digest issue
+  --dry-run               With publish: print the issue instead of posting it
+  -f, --format <format>   validate, publish, history, comment: text | json
+                          preview: markdown | html | text
+                          export: csv | jsonl | ics
+  --settings <file>       Settings file (default: SETTINGS_FILE or ${DEFAULT_SETTINGS_FILE})
+  --history <file>        Job history file for new / updated / repeat badges
+                          and the job details /apply opens issues from
+  -h, --help              Show this help
+
+Environment:
+  GITHUB_TOKEN            Token used by publish and comment (not needed with --dry-run)
+  DEBUG_LOGGING           "true" for debug output on stderr
+  JOB_SEARCH__*           Settings overrides, e.g. JOB_SEARCH__DIGEST__DEDUPE=skip
+
+Exit codes:
+  ${EXIT_OK}  success
+  ${EXIT_FAILURE}  GitHub, file or other runtime failure
+  ${EXIT_USAGE}  bad command, flag or settings
+  ${EXIT_INVALID_DIGEST}  invalid digest
+`;
+
+/**
+ * Where the CLI reads and writes; `scripts/cli.ts` wires it to the process
+ * and tests to buffers
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readStdin(): Promise<string>;
+  env: Record<string, string | undefined>;
+}
+
+export interface CliOptions {
+  /** GitHub client for `publish` (default: `LocalGitHubAdapter` with GITHUB_TOKEN) */
+  createGitHubClient?(
+    owner: string,
+    repo: string,
+    settings?: UserSettings
+  ): GitHubClient;
+}
+
+interface ParsedArgs {
+  command: Command;
+  file?: string;
+  owner?: string;
+  repo?: string;
+  labels?: string[];
+  dryRun: boolean;
+  format: string;
+  settings?: string;
+  history?: string;
+}
+
+/**
+ * Failure carrying the exit code to leave with
+ */
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number = EXIT_FAILURE) {
+    super(message);
+  }
+}
+
+/**
+ * Logs progress to stderr so stdout only carries command output
+ */
+class StderrLogger implements Logger {
+  constructor(private io: CliIO, private enableDebug: boolean) {}
+
+  info(message: string): void {
+    this.io.stderr(`ℹ️  ${message}\n`);
+  }
+
+  debug(message: string): void {
+    if (this.enableDebug) {
+      this.io.stderr(`🔍 ${message}\n`);
+    }
+  }
+
+  error(message: string): void {
+    this.io.stderr(`❌ ${message}\n`);
+  }
+}
+
+/**
+ * Command-line interface: validate, preview, publish and export digests,
+ * inspect job history and run comment commands
+ * `run` never exits the process; it returns the exit code instead.
+ */
+export class Cli {
+  private readonly logger: Logger;
+
+  constructor(private io: CliIO, private options: CliOptions = {}) {
+    this.logger = new StderrLogger(io, io.env.DEBUG_LOGGING === "true");
+  }
+
+  async run(argv: string[]): Promise<number> {
+    try {
+      const args = this.parse(argv);
+      if (!args) {
+        this.io.stdout(USAGE);
+        return EXIT_OK;
+      }
+
+      switch (args.command) {
+        case "validate":
+          return await this.validate(args);
+        case "preview":
+          return await this.preview(args);
+        case "publish":
+          return await this.publish(args);
+        case "export":
+          return await this.exportJobs(args);
+        case "history":
+          return await this.history(args);
+        case "comment":
+          return await this.comment(args);
+      }
+    } catch (error) {
+      this.io.stderr(`❌ ${describeError(error)}\n`);
+      if (error instanceof CliError && error.exitCode === EXIT_USAGE) {
+        this.io.stderr(`   Run with --help for usage\n`);
+      }
+      return error instanceof CliError ? error.exitCode : EXIT_FAILURE;
+    }
+  }
+
+  /**
+   * Command and flags, or undefined when help was asked for
+   */
+  private parse(argv: string[]): ParsedArgs | undefined {
+    let parsed;
+    try {
+      parsed = parseArgs({
+        args: argv,
+        options: FLAGS,
+        allowPositionals: true,
+      });
+    } catch (error) {
+      throw new CliError(describeError(error), EXIT_USAGE);
+    }
+
+    const { values, positionals } = parsed;
+    const [command, file, ...extra] = positionals;
+    if (values.help || command === undefined || command === "help") {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(FORMATS, command)) {
+      throw new CliError(`Unknown command: ${command}`, EXIT_USAGE);
+    }
+    if (extra.length > 0) {
+      throw new CliError(`Unexpected argument: ${extra[0]}`, EXIT_USAGE);
+    }
+
+    const formats = FORMATS[command as Command];
+    const format = values.format ?? formats[0];
+    if (!formats.includes(format)) {
+      throw new CliError(
+        `Unsupported format for ${command}: ${format} (use ${formats.join(
+          ", "
+        )})`,
+        EXIT_USAGE
+      );
+    }
+    if (values["dry-run"] && command !== "publish") {
+      throw new CliError("--dry-run only applies to publish", EXIT_USAGE);
+    }
+
+    return {
+      command: command as Command,
+      file,
+      owner: values.owner,
+      repo: values.repo,
+      labels: values.labels
+        ?.split(",")
+        .map((label) => label.trim())
+        .filter(Boolean),
+      dryRun: values["dry-run"] ?? false,
+      format,
+      settings: values.settings,
+      history: values.history,
+    };
+  }
+
+  private async validate(args: ParsedArgs): Promise<number> {
+    const digestJson = await this.readDigest(args.file);
+    const processor = new DigestProcessor();
+    const report = processor.validateJson(digestJson);
+    const summary = report.valid
+      ? summaryLine(processor.parse(digestJson).summary)
+      : undefined;
+
+    if (args.format === "json") {
+      this.io.stdout(`${JSON.stringify({ ...report, summary }, null, 2)}\n`);
+    } else if (report.valid) {
+      this.io.stdout(`✅ Digest is valid: ${summary}\n`);
+    } else {
+      this.io.stdout(`❌ Digest is invalid:\n${describeIssues(report.errors)}`);
+    }
+
+    return report.valid ? EXIT_OK : EXIT_INVALID_DIGEST;
+  }
+
+  private async preview(args: ParsedArgs): Promise<number> {
+    const settings = this.loadSettings(args.settings);
+    const digestJson = await this.readDigest(args.file);
+    this.checkDigest(digestJson, settings);
+
+    const { params, comments, digest, jobStatuses } = await this.render(
+      digestJson,
+      args,
+      settings
+    );
+    if (args.format === "markdown") {
+      this.io.stdout(`${[params.body, ...comments].join("\n\n---\n\n")}\n`);
+    } else {
+      const formatter =
+        args.format === "html" ? new HtmlFormatter() : new PlainTextFormatter();
+      this.io.stdout(
+        formatter.format(digest, {
+          title: params.title,
+          sortBy: settings?.digest.sort_by,
+          jobStatuses,
+        }).body
+      );
+    }
+
+    return EXIT_OK;
+  }
+
+  private async publish(args: ParsedArgs): Promise<number> {
+    const settings = this.loadSettings(args.settings);
+    const digestJson = await this.readDigest(args.file);
+    this.checkDigest(digestJson, settings);
+
+    if (args.dryRun) {
+      const { params, comments } = await this.render(
+        digestJson,
+        args,
+        settings
+      );
+      const { title, body, labels = [] } = params;
+      if (args.format === "json") {
+        this.io.stdout(
+          `${JSON.stringify({ title, labels, body, comments }, null, 2)}\n`
+        );
+      } else {
+        this.io.stdout(
+          `Title: ${title}\nLabels: ${labels.join(", ")}\n\n${[
+            body,
+            ...comments,
+          ].join("\n\n---\n\n")}\n`
+        );
+      }
+      return EXIT_OK;
+    }
+
+    const { owner, repo } = this.repository(args, settings);
+    const service = new JobDigestService(
+      this.githubClient(owner, repo, settings),
+      this.logger,
+      args.history ? new JsonFileJobHistoryStore(args.history) : undefined
+    );
+    const options = this.issueOptions(args, settings);
+    const snoozedUntil = await service.findActiveSnooze(options);
+    if (snoozedUntil) {
+      this.io.stdout(
+        args.format === "json"
+          ? `${JSON.stringify({ action: "skipped", snoozedUntil }, null, 2)}\n`
+          : `Digests snoozed until ${snoozedUntil}; nothing posted\n`
+      );
+      return EXIT_OK;
+    }
+
+    const result =
+      settings?.digest.mode === "upsert"
+        ? await service.upsertDigestIssue(digestJson, options)
+        : {
+            ...(await service.createDigestIssue(digestJson, options)),
+            action: "created",
+          };
+
+    if (args.format === "json") {
+      this.io.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      this.io.stdout(`${result.url}\n`);
+    }
+
+    return EXIT_OK;
+  }
+
+  private async exportJobs(args: ParsedArgs): Promise<number> {
+    const settings = this.loadSettings(args.settings);
+    const digestJson = await this.readDigest(args.file);
+    this.checkDigest(digestJson, settings);
+
+    const processor = new DigestProcessor();
+    const digest =
+      settings?.digest.validation === "lenient"
+        ? processor.parseLenient(digestJson).digest
+        : processor.parse(digestJson);
+    this.io.stdout(exportDigest(digest, args.format as ExportFormat));
+
+    return EXIT_OK;
+  }
+
+  private async history(args: ParsedArgs): Promise<number> {
+    const historyFile = args.file ?? args.history;
+    if (!historyFile) {
+      throw new CliError("History file required", EXIT_USAGE);
+    }
+
+    const entries = await new JsonFileJobHistoryStore(
+      historyFile
+    ).listEntries();
+
+    if (args.format === "json") {
+      this.io.stdout(`${JSON.stringify(entries, null, 2)}\n`);
+    } else if (entries.length === 0) {
+      this.io.stdout("No jobs in history\n");
+    } else {
+      this.io.stdout(
+        entries
+          .map(
+            ({ job, status, lastSeenAt }) =>
+              `${lastSeenAt.slice(0, 10)}  ${status.padEnd(7)}  ${job.id}  ${
+                job.title
+              } at ${job.company}\n`
+          )
+          .join("")
+      );
+    }
+
+    return EXIT_OK;
+  }
+
+  private async comment(args: ParsedArgs): Promise<number> {
+    if (!args.file) {
+      throw new CliError("Event file required", EXIT_USAGE);
+    }
+    const settings = this.loadSettings(args.settings);
+    const event = await this.readEvent(args.file);
+    const { owner, repo } = this.repository(args, settings);
+
+    const service = new CommentCommandService(
+      this.githubClient(owner, repo, settings),
+      this.logger,
+      {
+        jobs: args.history
+          ? new JsonFileJobHistoryStore(args.history)
+          : undefined,
+        allowedUsers: settings?.digest.command_users,
+      }
+    );
+    const results = await service.handle(event);
+
+    if (args.format === "json") {
+      this.io.stdout(`${JSON.stringify(results, null, 2)}\n`);
+    } else if (results.length === 0) {
+      this.io.stdout("No commands to run\n");
+    } else {
+      this.io.stdout(
+        results
+          .map(
+            ({ ok, command, message }) =>
+              `${ok ? "✅" : "⚠️"} ${command.text} — ${message}\n`
+          )
+          .join("")
+      );
+    }
+
+    // Failed commands are explained in the reply comment, not the exit code
+    return EXIT_OK;
+  }
+
+  /**
+   * Dry run of the digest issue; dedupe looks at an empty in-memory
+   * repository and job history is read but not recorded
+   */
+  private async render(
+    digestJson: string,
+    args: ParsedArgs,
+    settings: UserSettings | undefined
+  ): Promise<DryRunResult> {
+    const github = new InMemoryGitHubAdapter(
+      args.owner ?? this.io.env.GITHUB_OWNER ?? settings?.github.owner,
+      args.repo ?? this.io.env.GITHUB_REPO ?? settings?.github.repo
+    );
+    const history = args.history
+      ? new JsonFileJobHistoryStore(args.history)
+      : undefined;
+
+    return new JobDigestService(github, this.logger, history).createDigestIssue(
+      digestJson,
+      {
+        ...this.issueOptions(args, settings),
+        dryRun: true,
+      }
+    );
+  }
+
+  private issueOptions(
+    args: ParsedArgs,
+    settings: UserSettings | undefined
+  ): CreateDigestIssueOptions & { dryRun: false } {
+    return {
+      ...(settings ? toDigestIssueOptions(settings) : {}),
+      labels: args.labels,
+      dryRun: false,
+    };
+  }
+
+  private repository(
+    args: ParsedArgs,
+    settings: UserSettings | undefined
+  ): { owner: string; repo: string } {
+    const owner =
+      args.owner ?? this.io.env.GITHUB_OWNER ?? settings?.github.owner;
+    const repo = args.repo ?? this.io.env.GITHUB_REPO ?? settings?.github.repo;
+    if (!owner || !repo) {
+      throw new CliError(
+        "Repository required: pass --owner and --repo or set GITHUB_OWNER and GITHUB_REPO",
+        EXIT_USAGE
+      );
+    }
+    return { owner, repo };
+  }
+
+  private githubClient(
+    owner: string,
+    repo: string,
+    settings: UserSettings | undefined
+  ): GitHubClient {
+    if (this.options.createGitHubClient) {
+      return this.options.createGitHubClient(owner, repo, settings);
+    }
+
+    const token = this.io.env.GITHUB_TOKEN;
+    if (!token) {
+      throw new CliError(
+        "GITHUB_TOKEN environment variable required (or use --dry-run)",
+        EXIT_USAGE
+      );
+    }
+    return new LocalGitHubAdapter(
+      token,
+      owner,
+      repo,
+      settings ? toLocalAdapterOptions(settings) : {}
+    );
+  }
+
+  /**
+   * Settings from --settings or SETTINGS_FILE; the default file is optional
+   */
+  private loadSettings(file: string | undefined): UserSettings | undefined {
+    const settingsFile = file ?? this.io.env.SETTINGS_FILE;
+    if (!settingsFile && !existsSync(DEFAULT_SETTINGS_FILE)) {
+      return undefined;
+    }
+
+    try {
+      const settings = new SettingsLoader(this.io.env).load(
+        settingsFile ?? DEFAULT_SETTINGS_FILE
+      );
+      this.logger.debug(
+        `Loaded settings from ${settingsFile ?? DEFAULT_SETTINGS_FILE}`
+      );
+      return settings;
+    } catch (error) {
+      throw new CliError(describeError(error), EXIT_USAGE);
+    }
+  }
+
+  private async readDigest(file: string | undefined): Promise<string> {
+    if (file === undefined || file === "-") {
+      return this.io.readStdin();
+    }
+
+    try {
+      return await readFile(file, "utf8");
+    } catch (error) {
+      throw new CliError(
+        `Could not read digest file ${file}: ${describeError(error)}`
+      );
+    }
+  }
+
+  private async readEvent(file: string): Promise<IssueCommentEvent> {
+    let content: string;
+    try {
+      content = await readFile(file, "utf8");
+    } catch (error) {
+      throw new CliError(
+        `Could not read event file ${file}: ${describeError(error)}`
+      );
+    }
+
+    try {
+      return JSON.parse(content) as IssueCommentEvent;
+    } catch (error) {
+      throw new CliError(
+        `Invalid event file ${file}: ${describeError(error)}`,
+        EXIT_USAGE
+      );
+    }
+  }
+
+  /**
+   * Fail with EXIT_INVALID_DIGEST before anything is rendered or posted;
+   * lenient settings only reject problems outside the job listings
+   */
+  private checkDigest(
+    digestJson: string,
+    settings: UserSettings | undefined
+  ): void {
+    const processor = new DigestProcessor();
+    if (settings?.digest.validation === "lenient") {
+      try {
+        processor.parseLenient(digestJson);
+      } catch (error) {
+        throw new CliError(describeError(error), EXIT_INVALID_DIGEST);
+      }
+      return;
+    }
+
+    const report = processor.validateJson(digestJson);
+    if (!report.valid) {
+      throw new CliError(
+        `Invalid digest data:\n${describeIssues(report.errors)}`.trimEnd(),
+        EXIT_INVALID_DIGEST
+      );
+    }
+  }
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `   ${issue.path} ${issue.message}\n`).join("");
+}
+
+/**
+ * Error message, also for errors from another realm (e.g. Node core errors
+ * under test runners) that fail `instanceof Error`
+ */
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  const message = (error as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" ? message : String(error);
+}
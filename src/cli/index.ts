@@ -0,0 +1,10 @@
+export {
+  Cli,
+  CliIO,
+  CliOptions,
+  EXIT_FAILURE,
+  EXIT_INVALID_DIGEST,
+  EXIT_OK,
+  EXIT_USAGE,
+  USAGE,
+} from "./cli";
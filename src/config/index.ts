@@ -0,0 +1,7 @@
+export {
+  SETTINGS_ENV_PREFIX,
+  SettingsLoader,
+  toDigestIssueOptions,
+  toFormatOptions,
+  toLocalAdapterOptions,
+} from "./settings-loader";
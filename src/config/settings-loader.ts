@@ -0,0 +1,445 @@
+import { readFileSync } from "fs";
+import { load as loadYaml } from "js-yaml";
+import { LocalGitHubAdapterOptions } from "../adapters/local-github.adapter";
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  SchemaNode,
+  string,
+  validateSchema,
+} from "../services/digest-schema";
+import {
+  CreateDigestIssueOptions,
+  FormatOptions,
+  UserSettings,
+  ValidationIssue,
+} from "../types";
+
+/**
+ * Environment variables starting with this prefix override settings; the rest
+ * of the name is the key path, e.g. `JOB_SEARCH__FILTERS__MIN_MATCH_SCORE=0.7`
+ */
+export const SETTINGS_ENV_PREFIX = "JOB_SEARCH__";
+
+type Environment = Record<string, string | undefined>;
+
+const DEFAULT_SETTINGS: UserSettings = {
+  user_profile: {},
+  search_criteria: {
+    keywords: [],
+    locations: [],
+    experience_levels: [],
+    job_types: [],
+  },
+  filters: {
+    exclude_companies: [],
+    required_benefits: [],
+  },
+  sources: {},
+  notifications: {
+    github_issues: true,
+    email_digest: false,
+    timing: {},
+  },
+  digest: {
+    mode: "create",
+    dedupe: "off",
+    dedupe_lookback: 30,
+    validation: "strict",
+  },
+  scoring: {
+    enabled: false,
+    mode: "fill",
+    weights: {},
+    preferred_tags: [],
+  },
+  github: {},
+};
+
+const strings = array(string({ nonEmpty: true }));
+
+const settingsSchema = object(
+  {
+    user_profile: object(
+      {
+        name: optional(string()),
+        email: optional(string()),
+        timezone: optional(string({ nonEmpty: true })),
+      },
+      { strict: true }
+    ),
+    search_criteria: object(
+      {
+        keywords: strings,
+        locations: strings,
+        salary_min: optional(number({ min: 0 })),
+        experience_levels: strings,
+        job_types: strings,
+      },
+      { strict: true }
+    ),
+    filters: object(
+      {
+        exclude_companies: strings,
+        required_benefits: strings,
+        max_jobs_per_digest: optional(number({ min: 1 })),
+        min_match_score: optional(number({ min: 0, max: 1 })),
+        work_modes: optional(array(oneOf(["remote", "hybrid", "onsite"]))),
+      },
+      { strict: true }
+    ),
+    sources: record(
+      object(
+        {
+          enabled: boolean(),
+          api_key_secret: optional(string({ nonEmpty: true })),
+          rate_limit: optional(number({ min: 1 })),
+        },
+        { strict: true }
+      )
+    ),
+    notifications: object(
+      {
+        github_issues: boolean(),
+        email_digest: boolean(),
+        timing: object(
+          {
+            schedule: optional(string({ nonEmpty: true })),
+            timezone: optional(string({ nonEmpty: true })),
+          },
+          { strict: true }
+        ),
+      },
+      { strict: true }
+    ),
+    digest: object(
+      {
+        mode: oneOf(["create", "upsert"]),
+        dedupe: oneOf(["off", "skip", "mark"]),
+        dedupe_lookback: number({ min: 1 }),
+        validation: oneOf(["strict", "lenient"]),
+        max_body_length: optional(number({ min: 1000 })),
+        layout: optional(oneOf(["cards", "compact"])),
+        full_card_count: optional(number({ min: 0 })),
+        group_by: optional(
+          oneOf(["company", "source", "location", "experience_level"])
+        ),
+        merge_duplicates: optional(boolean()),
+        sort_by: optional(oneOf(["match", "salary", "date"])),
+        commands: optional(boolean()),
+        command_users: optional(strings),
+      },
+      { strict: true }
+    ),
+    scoring: object(
+      {
+        enabled: boolean(),
+        mode: oneOf(["fill", "override"]),
+        weights: object(
+          {
+            keywords: optional(number({ min: 0 })),
+            location: optional(number({ min: 0 })),
+            salary: optional(number({ min: 0 })),
+            remote: optional(number({ min: 0 })),
+            tags: optional(number({ min: 0 })),
+            experience: optional(number({ min: 0 })),
+          },
+          { strict: true }
+        ),
+        preferred_tags: strings,
+      },
+      { strict: true }
+    ),
+    github: object(
+      {
+        owner: optional(string({ nonEmpty: true })),
+        repo: optional(string({ nonEmpty: true })),
+        api_url: optional(string({ nonEmpty: true })),
+        max_retries: optional(number({ min: 0 })),
+        base_delay_ms: optional(number({ min: 0 })),
+        max_delay_ms: optional(number({ min: 0 })),
+      },
+      { strict: true }
+    ),
+  },
+  { strict: true }
+);
+
+/**
+ * Loads user settings from a YAML or JSON file
+ * Missing keys fall back to defaults, `JOB_SEARCH__*` environment variables
+ * override the file, and the result is validated before it is returned.
+ */
+export class SettingsLoader {
+  constructor(private env: Environment = process.env) {}
+
+  /**
+   * Read and parse a settings file (`.json` as JSON, anything else as YAML)
+   */
+  load(filePath: string): UserSettings {
+    let content: string;
+    try {
+      content = readFileSync(filePath, "utf8");
+    } catch (error) {
+      throw new Error(
+        `Could not read settings file ${filePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return this.parse(content, filePath);
+  }
+
+  /**
+   * Parse settings text; `source` names the file in error messages
+   */
+  parse(content: string, source: string = "settings"): UserSettings {
+    let raw: unknown;
+    try {
+      raw = source.endsWith(".json") ? JSON.parse(content) : loadYaml(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid settings in ${source}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    if (raw === undefined || raw === null) {
+      raw = {};
+    }
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`Invalid settings in ${source}: $ must be an object`);
+    }
+
+    const overrides = this.envOverrides();
+    const merged = merge(
+      merge(DEFAULT_SETTINGS, raw),
+      overrides.reduce((tree, { keys, value }) => {
+        return merge(tree, nest(keys, value));
+      }, {} as unknown)
+    );
+
+    const errors = validateSchema(merged, settingsSchema);
+    if (errors.length > 0) {
+      const details = errors
+        .map((issue) => this.describeIssue(issue, overrides))
+        .join("; ");
+      throw new Error(`Invalid settings in ${source}: ${details}`);
+    }
+
+    return merged as UserSettings;
+  }
+
+  /**
+   * Settings overrides from `JOB_SEARCH__*` environment variables
+   * Values are read as the type the schema expects for the key: text keys
+   * keep the raw string, other keys are read as YAML so `0.7`, `true` and
+   * `[a, b]` keep their types
+   */
+  private envOverrides(): {
+    variable: string;
+    keys: string[];
+    value: unknown;
+  }[] {
+    return Object.entries(this.env)
+      .filter(
+        ([name, value]) =>
+          name.startsWith(SETTINGS_ENV_PREFIX) && value !== undefined
+      )
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([variable, value]) => {
+        const keys = variable
+          .slice(SETTINGS_ENV_PREFIX.length)
+          .toLowerCase()
+          .split("__");
+        return {
+          variable,
+          keys,
+          value: readEnvValue(value!, schemaAt(settingsSchema, keys)),
+        };
+      });
+  }
+
+  /**
+   * Name the environment variable behind a failing key, if any
+   */
+  private describeIssue(
+    issue: ValidationIssue,
+    overrides: { variable: string; keys: string[] }[]
+  ): string {
+    const override = overrides.find(({ keys }) => {
+      const path = `$.${keys.join(".")}`;
+      return (
+        issue.path === path ||
+        issue.path.startsWith(`${path}.`) ||
+        issue.path.startsWith(`${path}[`)
+      );
+    });
+    const from = override ? ` (from ${override.variable})` : "";
+
+    return `${issue.path}${from} ${issue.message}`;
+  }
+}
+
+/**
+ * Options for `JobDigestService.createDigestIssue` / `upsertDigestIssue`
+ */
+export function toDigestIssueOptions(
+  settings: UserSettings
+): CreateDigestIssueOptions {
+  const { digest, filters, search_criteria, scoring } = settings;
+
+  return {
+    dedupe: digest.dedupe,
+    dedupeLookback: digest.dedupe_lookback,
+    maxBodyLength: digest.max_body_length,
+    validation: digest.validation,
+    layout: digest.layout,
+    fullCardCount: digest.full_card_count,
+    groupBy: digest.group_by,
+    mergeDuplicates: digest.merge_duplicates,
+    sortBy: digest.sort_by,
+    commands: digest.commands,
+    preferences: {
+      excludeCompanies: filters.exclude_companies,
+      minMatchScore: filters.min_match_score,
+      maxJobsPerDigest: filters.max_jobs_per_digest,
+      salaryMin: search_criteria.salary_min,
+      experienceLevels: search_criteria.experience_levels,
+      jobTypes: search_criteria.job_types,
+      workModes: filters.work_modes,
+    },
+    scoring: scoring.enabled
+      ? {
+          mode: scoring.mode,
+          weights: scoring.weights,
+          profile: {
+            keywords: search_criteria.keywords,
+            locations: search_criteria.locations,
+            salaryMin: search_criteria.salary_min,
+            tags: scoring.preferred_tags,
+            experienceLevels: search_criteria.experience_levels,
+          },
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Options for `IssueFormatter.formatPaginated`
+ */
+export function toFormatOptions(settings: UserSettings): FormatOptions {
+  const { max_body_length, layout, full_card_count, group_by, sort_by } =
+    settings.digest;
+
+  return {
+    maxBodyLength: max_body_length,
+    layout,
+    fullCardCount: full_card_count,
+    groupBy: group_by,
+    sortBy: sort_by,
+  };
+}
+
+/**
+ * Options for `LocalGitHubAdapter`
+ */
+export function toLocalAdapterOptions(
+  settings: UserSettings
+): LocalGitHubAdapterOptions {
+  const { api_url, max_retries, base_delay_ms, max_delay_ms } = settings.github;
+
+  return {
+    apiUrl: api_url,
+    retry: {
+      maxRetries: max_retries,
+      baseDelayMs: base_delay_ms,
+      maxDelayMs: max_delay_ms,
+    },
+  };
+}
+
+/**
+ * Deep-merge plain objects; arrays and scalars in `override` replace `base`
+ * and empty (null) keys keep the default
+ */
+function merge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined || override === null ? base : override;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = merge(base[key], value);
+  }
+  return result;
+}
+
+/**
+ * Environment value as the type `node` expects, e.g. `JOB_SEARCH__GITHUB__REPO=123`
+ * stays the string "123"; empty values leave the setting unchanged
+ */
+function readEnvValue(value: string, node: SchemaNode | undefined): unknown {
+  if (value.trim() === "") {
+    return undefined;
+  }
+  if (node && isText(node)) {
+    return value;
+  }
+
+  const parsed = readScalar(value);
+  if (node?.kind === "array" && Array.isArray(parsed) && isText(node.items)) {
+    return parsed.map((item) =>
+      typeof item === "number" || typeof item === "boolean"
+        ? String(item)
+        : item
+    );
+  }
+  return parsed;
+}
+
+function readScalar(value: string): unknown {
+  try {
+    return loadYaml(value);
+  } catch {
+    return value;
+  }
+}
+
+function isText(node: SchemaNode): boolean {
+  return node.kind === "string" || node.kind === "enum";
+}
+
+/**
+ * Schema node for a settings key path, or undefined for unknown keys
+ */
+function schemaAt(node: SchemaNode, keys: string[]): SchemaNode | undefined {
+  let current: SchemaNode | undefined = node;
+  for (const key of keys) {
+    if (current?.kind === "object") {
+      current = Object.prototype.hasOwnProperty.call(current.properties, key)
+        ? current.properties[key]
+        : undefined;
+    } else if (current?.kind === "record") {
+      current = current.values;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function nest(keys: string[], value: unknown): unknown {
+  return keys.reduceRight<unknown>((child, key) => ({ [key]: child }), value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
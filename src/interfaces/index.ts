@@ -1,5 +1,15 @@
 // Abstract interfaces for platform-agnostic implementation
 
+import {
+  DigestResult,
+  DigestStats,
+  JobHistoryEntry,
+  JobHistoryStatus,
+  JobListing,
+  JobSortOrder,
+  SkippedListing,
+} from "../types";
+
 export interface CreateIssueParams {
   title: string;
   body: string;
@@ -11,8 +21,82 @@ export interface IssueResult {
   url: string;
 }
 
+export interface UpsertIssueResult extends IssueResult {
+  action: "created" | "updated";
+}
+
+/**
+ * What `createDigestIssue` would post, returned instead of an issue with
+ * `dryRun: true`
+ */
+export interface DryRunResult {
+  dryRun: true;
+  /** Title, body and labels the issue would be created with */
+  params: CreateIssueParams;
+  /** Overflow comments, when the body is split into parts */
+  comments: string[];
+  stats: DigestStats;
+  /** Listings dropped by lenient validation */
+  skipped: SkippedListing[];
+  /** Digest as it would be posted: scored, filtered and in display order */
+  digest: DigestResult;
+  jobStatuses?: Map<string, JobHistoryStatus>;
+}
+
+export type IssueState = "open" | "closed";
+
+export interface UpdateIssueParams {
+  title?: string;
+  body?: string;
+  labels?: string[];
+  state?: IssueState;
+}
+
+export interface ListIssuesParams {
+  labels?: string[];
+  state?: IssueState | "all";
+  perPage?: number;
+  /** 1-based page of results, `perPage` issues each */
+  page?: number;
+}
+
+export interface IssueDetails extends IssueResult {
+  title: string;
+  body: string;
+  labels: string[];
+  state: IssueState;
+}
+
+export interface CommentResult {
+  id: number;
+  url: string;
+}
+
+export interface CommentAuthor {
+  login: string;
+  /** "User" or "Bot" */
+  type?: string;
+}
+
+export interface IssueComment extends CommentResult {
+  body: string;
+  author?: CommentAuthor;
+}
+
 export interface GitHubClient {
   createIssue(params: CreateIssueParams): Promise<IssueResult>;
+  listIssues(params: ListIssuesParams): Promise<IssueDetails[]>;
+  updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult>;
+  getIssue(issueNumber: number): Promise<IssueDetails>;
+  addLabels(issueNumber: number, labels: string[]): Promise<void>;
+  removeLabel(issueNumber: number, label: string): Promise<void>;
+  createComment(issueNumber: number, body: string): Promise<CommentResult>;
+  listComments(issueNumber: number): Promise<IssueComment[]>;
+  updateComment(commentId: number, body: string): Promise<CommentResult>;
+  deleteComment(commentId: number): Promise<void>;
 }
 
 export interface Logger {
@@ -20,3 +104,61 @@ export interface Logger {
   debug(message: string): void;
   error(message: string): void;
 }
+
+export interface Clock {
+  /** Current time in epoch milliseconds */
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface JobLookup {
+  /** Full listing for a job id seen in an earlier digest */
+  findJob(jobId: string): Promise<JobListing | undefined>;
+}
+
+/**
+ * Remembers every job posted in a digest, keyed by job id
+ */
+export interface JobHistoryStore extends JobLookup {
+  /** Entries for the given ids; unknown ids are left out */
+  getEntries(jobIds: string[]): Promise<Map<string, JobHistoryEntry>>;
+  /** Insert or replace entries by job id */
+  saveEntries(entries: JobHistoryEntry[]): Promise<void>;
+}
+
+export interface DigestPublication {
+  /** Issue title, reused as the message or email subject */
+  title: string;
+  /** Digest as posted: scored, filtered and in display order */
+  digest: DigestResult;
+  /** Order of `digest.jobs` (default "match") */
+  sortBy?: JobSortOrder;
+  /** The GitHub issue the digest was posted as */
+  issue: IssueResult;
+  jobStatuses?: Map<string, JobHistoryStatus>;
+}
+
+/**
+ * A digest rendered as a GitHub issue, with its overflow comments
+ */
+export interface IssueDraft {
+  params: CreateIssueParams;
+  /** Overflow comment bodies, in part order */
+  comments: string[];
+  /** Digest issue to update in place instead, with its overflow comment ids */
+  existing?: { number: number; commentIds: number[] };
+}
+
+/**
+ * A channel that receives each digest
+ * The GitHub issue publisher (`DigestPublisher<IssueDraft, UpsertIssueResult>`)
+ * posts first; the others receive the issue it returns to link back to.
+ */
+export interface DigestPublisher<
+  Publication = DigestPublication,
+  Result = void
+> {
+  /** Channel name used in logs, e.g. "slack" */
+  readonly name: string;
+  publish(publication: Publication): Promise<Result>;
+}
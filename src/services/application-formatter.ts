@@ -0,0 +1,145 @@
+import { ApplicationStatus, IssueContent, JobListing } from "../types";
+import { formatJobIdMarker } from "./issue-markers";
+
+const STATUS_DISPLAY: Record<ApplicationStatus, string> = {
+  interested: "⭐ Interested",
+  applied: "📨 Applied",
+  interviewing: "🗣️ Interviewing",
+  offer: "🎉 Offer",
+  rejected: "🚫 Rejected",
+};
+
+/**
+ * Formats per-job application tracking issues and their status comments
+ */
+export class ApplicationFormatter {
+  /**
+   * Format the tracking issue for a single job application
+   */
+  format(job: JobListing, digestIssueNumber?: number): IssueContent {
+    const title = `📝 ${job.title} at ${job.company}`;
+
+    let body = `# ${job.title} at **${job.company}**\n`;
+    body += `${formatJobIdMarker(job.id)}\n\n`;
+    body += this.formatDetailsSection(job, digestIssueNumber);
+    body += this.formatDescriptionSection(job);
+    body += this.formatChecklistSection();
+    body += this.formatStatusSection();
+
+    return { title, body };
+  }
+
+  /**
+   * Format the comment recorded when an application changes status
+   */
+  formatTransitionComment(
+    from: ApplicationStatus,
+    to: ApplicationStatus,
+    note?: string
+  ): string {
+    let comment = `### 🔄 Status Update\n\n`;
+    comment += `${this.formatStatus(from)} → **${this.formatStatus(to)}**\n`;
+
+    if (note && note.trim().length > 0) {
+      comment += `\n> ${note.trim().replace(/\n/g, "\n> ")}\n`;
+    }
+
+    return comment;
+  }
+
+  /**
+   * Human-readable status with emoji
+   */
+  formatStatus(status: ApplicationStatus): string {
+    return STATUS_DISPLAY[status];
+  }
+
+  /**
+   * Format table of job details
+   */
+  private formatDetailsSection(
+    job: JobListing,
+    digestIssueNumber?: number
+  ): string {
+    const rows: [string, string | undefined][] = [
+      ["Company", job.company],
+      ["Location", job.location],
+      ["Salary", job.salary],
+      ["Job Type", job.job_type],
+      ["Experience", job.experience_level],
+      ["Remote", job.remote_option ? "Yes" : undefined],
+      ["Source", job.source],
+      ["Posted", job.posted_date],
+      ["Deadline", job.application_deadline],
+      [
+        "Match",
+        job.match_score !== undefined
+          ? `${Math.round(job.match_score * 100)}%`
+          : undefined,
+      ],
+    ];
+
+    let section = `## 📋 Job Details\n\n`;
+    section += `| Field | Value |\n`;
+    section += `| --- | --- |\n`;
+    for (const [field, value] of rows) {
+      if (value) {
+        section += `| ${field} | ${value.replace(/\|/g, "\\|")} |\n`;
+      }
+    }
+    section += `\n`;
+
+    section += `- [**View Job Posting**](${job.url}) 🔗\n`;
+    if (digestIssueNumber !== undefined) {
+      section += `- Found in digest #${digestIssueNumber}\n`;
+    }
+    section += `\n`;
+
+    return section;
+  }
+
+  /**
+   * Format description, requirements and benefits
+   */
+  private formatDescriptionSection(job: JobListing): string {
+    let section = `## 📄 Description\n\n${job.description}\n\n`;
+
+    if (job.requirements) {
+      section += `**Requirements:** ${job.requirements}\n\n`;
+    }
+
+    if (job.benefits) {
+      section += `**Benefits:** ${job.benefits}\n\n`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Format application checklist
+   */
+  private formatChecklistSection(): string {
+    let section = `## ✅ Application Checklist\n\n`;
+    section += `- [ ] Research the company\n`;
+    section += `- [ ] Tailor CV\n`;
+    section += `- [ ] Write cover letter\n`;
+    section += `- [ ] Submit application\n\n`;
+
+    return section;
+  }
+
+  /**
+   * Format the status lifecycle explanation
+   */
+  private formatStatusSection(): string {
+    let section = `## 🔄 Status\n\n`;
+    section += `Status is tracked with \`status:*\` labels: `;
+    section += `${this.formatStatus("interested")} → ${this.formatStatus(
+      "applied"
+    )} → ${this.formatStatus("interviewing")} → ${this.formatStatus(
+      "offer"
+    )} / ${this.formatStatus("rejected")}\n`;
+
+    return section;
+  }
+}
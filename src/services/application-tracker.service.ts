@@ -0,0 +1,169 @@
+import { GitHubClient, IssueDetails, Logger } from "../interfaces";
+import { ApplicationIssue, ApplicationStatus, JobListing } from "../types";
+import { ApplicationFormatter } from "./application-formatter";
+import { extractJobIds } from "./issue-markers";
+
+const APPLICATION_LABEL = "job-application";
+const STATUS_LABEL_PREFIX = "status:";
+/** Largest page size the GitHub issues API accepts */
+const ISSUES_PER_PAGE = 100;
+
+/**
+ * Allowed lifecycle transitions; offer and rejected are terminal
+ */
+const ALLOWED_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  interested: ["applied", "rejected"],
+  applied: ["interviewing", "rejected"],
+  interviewing: ["offer", "rejected"],
+  offer: [],
+  rejected: [],
+};
+
+/**
+ * Tracks one GitHub issue per job application and moves it through
+ * interested → applied → interviewing → offer/rejected via labels and comments
+ */
+export class ApplicationTrackerService {
+  private readonly formatter = new ApplicationFormatter();
+
+  constructor(private githubClient: GitHubClient, private logger: Logger) {}
+
+  /**
+   * Open a tracking issue for a job, or return the existing one
+   */
+  async openApplication(
+    job: JobListing,
+    digestIssueNumber?: number
+  ): Promise<ApplicationIssue> {
+    const existing = await this.findApplication(job.id);
+    if (existing) {
+      this.logger.info(
+        `Application for ${job.id} already tracked in #${existing.number}`
+      );
+      return existing;
+    }
+
+    const content = this.formatter.format(job, digestIssueNumber);
+    const issue = await this.githubClient.createIssue({
+      title: content.title,
+      body: content.body,
+      labels: [APPLICATION_LABEL, statusLabel("interested")],
+    });
+
+    this.logger.info(
+      `✅ Opened application issue #${issue.number}: ${issue.url}`
+    );
+
+    return {
+      number: issue.number,
+      url: issue.url,
+      jobId: job.id,
+      status: "interested",
+    };
+  }
+
+  /**
+   * Find the tracking issue for a job id, if one exists
+   */
+  async findApplication(jobId: string): Promise<ApplicationIssue | undefined> {
+    for (let page = 1; ; page++) {
+      const issues = await this.githubClient.listIssues({
+        labels: [APPLICATION_LABEL],
+        state: "all",
+        perPage: ISSUES_PER_PAGE,
+        page,
+      });
+
+      const issue = issues.find((candidate) =>
+        extractJobIds(candidate.body).includes(jobId)
+      );
+
+      if (issue) {
+        return this.toApplicationIssue(issue);
+      }
+      if (issues.length < ISSUES_PER_PAGE) {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Read the current state of a tracking issue
+   */
+  async getApplication(issueNumber: number): Promise<ApplicationIssue> {
+    const issue = await this.githubClient.getIssue(issueNumber);
+
+    if (!issue.labels.includes(APPLICATION_LABEL)) {
+      throw new Error(`Issue #${issueNumber} is not a job application`);
+    }
+
+    return this.toApplicationIssue(issue);
+  }
+
+  /**
+   * Move an application to a new status, recording the change as a comment
+   */
+  async transition(
+    issueNumber: number,
+    to: ApplicationStatus,
+    note?: string
+  ): Promise<ApplicationIssue> {
+    const application = await this.getApplication(issueNumber);
+    const from = application.status;
+
+    if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+      throw new Error(
+        `Invalid status transition for #${issueNumber}: ${from} → ${to}`
+      );
+    }
+
+    await this.githubClient.removeLabel(issueNumber, statusLabel(from));
+    await this.githubClient.addLabels(issueNumber, [statusLabel(to)]);
+    await this.githubClient.createComment(
+      issueNumber,
+      this.formatter.formatTransitionComment(from, to, note)
+    );
+
+    this.logger.info(`Application #${issueNumber}: ${from} → ${to}`);
+
+    return { ...application, status: to };
+  }
+
+  /**
+   * Statuses an application may move to next
+   */
+  nextStatuses(status: ApplicationStatus): ApplicationStatus[] {
+    return [...ALLOWED_TRANSITIONS[status]];
+  }
+
+  private toApplicationIssue(issue: IssueDetails): ApplicationIssue {
+    const [jobId] = extractJobIds(issue.body);
+    const statusLabels = issue.labels.filter((label) =>
+      label.startsWith(STATUS_LABEL_PREFIX)
+    );
+
+    if (statusLabels.length !== 1) {
+      throw new Error(
+        `Issue #${issue.number} must have exactly one status label, found ${
+          statusLabels.length > 0 ? statusLabels.join(", ") : "none"
+        }`
+      );
+    }
+
+    const status = statusLabels[0].slice(STATUS_LABEL_PREFIX.length);
+    if (!Object.prototype.hasOwnProperty.call(ALLOWED_TRANSITIONS, status)) {
+      throw new Error(`Issue #${issue.number} has unknown status: ${status}`);
+    }
+
+    return {
+      number: issue.number,
+      url: issue.url,
+      jobId: jobId || "",
+      status: status as ApplicationStatus,
+    };
+  }
+}
+
+function statusLabel(status: ApplicationStatus): string {
+  return `${STATUS_LABEL_PREFIX}${status}`;
+}
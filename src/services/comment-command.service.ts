@@ -0,0 +1,391 @@
+import { SystemClock } from "../adapters/system-clock.adapter";
+import {
+  Clock,
+  GitHubClient,
+  IssueComment,
+  JobLookup,
+  Logger,
+} from "../interfaces";
+import {
+  CommentCommand,
+  CommentCommandName,
+  CommentCommandResult,
+  IssueCommentEvent,
+  RecordedCommands,
+} from "../types";
+import { ApplicationTrackerService } from "./application-tracker.service";
+import {
+  extractCommandMarkers,
+  extractJobIds,
+  formatCommandMarker,
+} from "./issue-markers";
+
+const DIGEST_LABEL = "job-digest";
+const SNOOZED_LABEL = "snoozed";
+/** Marks digest issues whose comments record a `/hide` or `/snooze` */
+export const COMMANDS_LABEL = "digest-commands";
+
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+(.*))?$/i;
+const DURATION_PATTERN = /^(\d+)([hdw])$/i;
+const HIDE_FIELD_PATTERN = /^(company|source|location):(.+)$/i;
+
+/** Repository roles that may run commands without being allow-listed */
+const TRUSTED_ASSOCIATIONS = new Set(["OWNER", "MEMBER", "COLLABORATOR"]);
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const USAGE: Record<CommentCommandName, string> = {
+  apply: "`/apply <job>` opens an application issue",
+  hide: "`/hide <job>` or `/hide company:<name>` hides jobs from future digests",
+  snooze: "`/snooze <duration>` (e.g. `7d`, `12h`, `2w`) pauses new digests",
+  more: "`/more <job>` asks for more jobs like this one",
+};
+
+export interface CommentCommandServiceOptions {
+  /** Source of full job listings, needed by `/apply` */
+  jobs?: JobLookup;
+  clock?: Clock;
+  /** Logins allowed to run commands besides owners, members and collaborators */
+  allowedUsers?: string[];
+}
+
+type CommandHandler = (
+  command: CommentCommand,
+  context: CommandContext
+) => Promise<Omit<CommentCommandResult, "command">>;
+
+interface CommandContext {
+  issueNumber: number;
+  /** Job ids in the digest, in display order (job N is `jobIds[N - 1]`) */
+  jobIds: string[];
+}
+
+/**
+ * Acts on `/command` lines in comments on digest issues: opens application
+ * issues, records hidden companies and "more like this" requests, snoozes
+ * the digest, and replies with one comment summarising every command
+ */
+export class CommentCommandService {
+  private readonly tracker: ApplicationTrackerService;
+  private readonly clock: Clock;
+  private readonly handlers: Record<CommentCommandName, CommandHandler> = {
+    apply: (command, context) => this.apply(command, context),
+    hide: (command, context) => this.hide(command, context),
+    snooze: (command, context) => this.snooze(command, context),
+    more: (command, context) => this.more(command, context),
+  };
+
+  constructor(
+    private githubClient: GitHubClient,
+    private logger: Logger,
+    private options: CommentCommandServiceOptions = {}
+  ) {
+    this.tracker = new ApplicationTrackerService(githubClient, logger);
+    this.clock = options.clock || new SystemClock();
+  }
+
+  /**
+   * Handle an `issue_comment` webhook payload
+   * Returns one result per command; comments that are edits, come from bots
+   * or from users without write access (unless allow-listed), sit on other
+   * issues or carry no commands are ignored.
+   */
+  async handle(event: IssueCommentEvent): Promise<CommentCommandResult[]> {
+    const { issue, comment } = event;
+
+    if (event.action !== "created" || comment.user?.type === "Bot") {
+      this.logger.debug(`Ignoring ${event.action} comment ${comment.id}`);
+      return [];
+    }
+    if (!(issue.labels ?? []).some((label) => label.name === DIGEST_LABEL)) {
+      this.logger.debug(
+        `Ignoring comment on non-digest issue #${issue.number}`
+      );
+      return [];
+    }
+    if (!this.isAllowed(comment)) {
+      this.logger.debug(
+        `Ignoring commands from ${
+          comment.user?.login ?? "unknown user"
+        } in comment ${comment.id}`
+      );
+      return [];
+    }
+
+    const commands = this.parseCommands(comment.body);
+    if (commands.length === 0) {
+      return [];
+    }
+
+    const digest = await this.githubClient.getIssue(issue.number);
+    const context: CommandContext = {
+      issueNumber: issue.number,
+      jobIds: [...new Set(extractJobIds(digest.body))],
+    };
+
+    const results: CommentCommandResult[] = [];
+    for (const command of commands) {
+      results.push({ command, ...(await this.run(command, context)) });
+    }
+
+    await this.githubClient.createComment(
+      issue.number,
+      this.formatReply(results)
+    );
+    this.logger.info(
+      `Digest #${issue.number}: ran ${results.length} command(s) from comment ${comment.id}`
+    );
+
+    return results;
+  }
+
+  /**
+   * Commands in a comment body, one per line; fenced code blocks are skipped
+   */
+  parseCommands(body: string): CommentCommand[] {
+    const commands: CommentCommand[] = [];
+    let inCodeBlock = false;
+
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line.startsWith("```")) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+
+      const match = !inCodeBlock && line.match(COMMAND_PATTERN);
+      if (match) {
+        commands.push({
+          name: match[1].toLowerCase(),
+          args: (match[2] ?? "").split(/\s+/).filter(Boolean),
+          text: line,
+        });
+      }
+    }
+
+    return commands;
+  }
+
+  private isAllowed(comment: IssueCommentEvent["comment"]): boolean {
+    const login = comment.user?.login;
+    return (
+      TRUSTED_ASSOCIATIONS.has(comment.author_association ?? "") ||
+      (login !== undefined && (this.options.allowedUsers ?? []).includes(login))
+    );
+  }
+
+  private async run(
+    command: CommentCommand,
+    context: CommandContext
+  ): Promise<Omit<CommentCommandResult, "command">> {
+    const handler = this.handlers[command.name as CommentCommandName];
+    if (!handler) {
+      return failure(
+        `Unknown command. Available: ${Object.values(USAGE).join("; ")}`
+      );
+    }
+
+    try {
+      return await handler(command, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      this.logger.error(`Command ${command.text} failed: ${message}`);
+      return failure(message);
+    }
+  }
+
+  private async apply(
+    command: CommentCommand,
+    context: CommandContext
+  ): Promise<Omit<CommentCommandResult, "command">> {
+    const jobId = this.resolveJob(command, context);
+    if (!jobId) {
+      return failure(this.referenceError(command, context, "apply"));
+    }
+
+    const job = await this.options.jobs?.findJob(jobId);
+    if (!job) {
+      return failure(`No job details available for \`${jobId}\``, [jobId]);
+    }
+
+    const application = await this.tracker.openApplication(
+      job,
+      context.issueNumber
+    );
+
+    return success(
+      `Tracking **${job.title}** at **${job.company}** in #${application.number}`,
+      [jobId]
+    );
+  }
+
+  private async hide(
+    command: CommentCommand,
+    context: CommandContext
+  ): Promise<Omit<CommentCommandResult, "command">> {
+    const field = command.args.join(" ").match(HIDE_FIELD_PATTERN);
+    if (field) {
+      const [, name, value] = field;
+      const key = `${name.toLowerCase()}:${value.trim()}`;
+      await this.githubClient.addLabels(context.issueNumber, [COMMANDS_LABEL]);
+      return success(
+        `Hiding ${name.toLowerCase()} **${value.trim()}** from future digests ${formatCommandMarker(
+          "hide",
+          key
+        )}`,
+        []
+      );
+    }
+
+    const jobId = this.resolveJob(command, context);
+    if (!jobId) {
+      return failure(this.referenceError(command, context, "hide"));
+    }
+
+    await this.githubClient.addLabels(context.issueNumber, [COMMANDS_LABEL]);
+    return success(
+      `Hiding \`${jobId}\` from future digests ${formatCommandMarker(
+        "hide",
+        `job:${jobId}`
+      )}`,
+      [jobId]
+    );
+  }
+
+  private async snooze(
+    command: CommentCommand,
+    context: CommandContext
+  ): Promise<Omit<CommentCommandResult, "command">> {
+    const duration =
+      command.args.length === 1 && command.args[0].match(DURATION_PATTERN);
+    if (!duration) {
+      return failure(`Expected a duration. ${USAGE.snooze}`);
+    }
+
+    const until = new Date(
+      this.clock.now() +
+        Number(duration[1]) * DURATION_UNIT_MS[duration[2].toLowerCase()]
+    ).toISOString();
+    await this.githubClient.addLabels(context.issueNumber, [
+      SNOOZED_LABEL,
+      COMMANDS_LABEL,
+    ]);
+
+    return success(
+      `Snoozed until ${until} ${formatCommandMarker("snooze", until)}`,
+      []
+    );
+  }
+
+  private async more(
+    command: CommentCommand,
+    context: CommandContext
+  ): Promise<Omit<CommentCommandResult, "command">> {
+    const jobId = this.resolveJob(command, context);
+    if (!jobId) {
+      return failure(this.referenceError(command, context, "more"));
+    }
+
+    return success(
+      `Will look for more jobs like \`${jobId}\` ${formatCommandMarker(
+        "more",
+        jobId
+      )}`,
+      [jobId]
+    );
+  }
+
+  /**
+   * Resolve a single job reference: a digest position (`3`) or a job id
+   */
+  private resolveJob(
+    command: CommentCommand,
+    context: CommandContext
+  ): string | undefined {
+    if (command.args.length !== 1) {
+      return undefined;
+    }
+
+    const reference = command.args[0];
+    if (/^\d+$/.test(reference)) {
+      return context.jobIds[Number(reference) - 1];
+    }
+    return context.jobIds.includes(reference) ? reference : undefined;
+  }
+
+  private referenceError(
+    command: CommentCommand,
+    context: CommandContext,
+    name: CommentCommandName
+  ): string {
+    if (command.args.length !== 1) {
+      return `Expected one job. ${USAGE[name]}`;
+    }
+
+    const range =
+      context.jobIds.length > 0 ? ` (1-${context.jobIds.length})` : "";
+    return `Job ${command.args[0]} is not in this digest${range}`;
+  }
+
+  /**
+   * Reply listing each command with its outcome and recorded markers
+   */
+  private formatReply(results: CommentCommandResult[]): string {
+    let reply = `### 🤖 Commands\n\n`;
+
+    for (const result of results) {
+      const icon = result.ok ? "✅" : "⚠️";
+      reply += `- ${icon} \`${result.command.text}\` — ${result.message}\n`;
+    }
+
+    return reply;
+  }
+}
+
+/**
+ * Hides and the latest snooze recorded in the given comments
+ * Only the automation's own replies (posted by a bot account) are read, so
+ * markers typed into a comment by hand have no effect.
+ */
+export function readRecordedCommands(
+  comments: IssueComment[]
+): RecordedCommands {
+  const markers = comments
+    .filter(({ author }) => author?.type === "Bot")
+    .flatMap(({ body }) => extractCommandMarkers(body));
+  const snoozes = markers
+    .filter(
+      ({ command, value }) => command === "snooze" && !isNaN(Date.parse(value))
+    )
+    .map(({ value }) => value)
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+
+  return {
+    hidden: [
+      ...new Set(
+        markers
+          .filter(({ command }) => command === "hide")
+          .map(({ value }) => value)
+      ),
+    ],
+    snoozedUntil: snoozes[snoozes.length - 1],
+  };
+}
+
+function success(
+  message: string,
+  jobIds: string[]
+): Omit<CommentCommandResult, "command"> {
+  return { ok: true, message, jobIds };
+}
+
+function failure(
+  message: string,
+  jobIds: string[] = []
+): Omit<CommentCommandResult, "command"> {
+  return { ok: false, message, jobIds };
+}
@@ -0,0 +1,300 @@
+import {
+  DigestTemplate,
+  JobCardContext,
+  JobGroupContext,
+  JobListing,
+  JobSourceLink,
+  JobSummary,
+  PageContext,
+  ProcessingMetadata,
+} from "../types";
+import { escapeHtml, formatDate, truncateDescription } from "./format-utils";
+import { formatSalary } from "./salary-parser";
+
+/**
+ * The standard digest layout: emoji headings, one card per job with action
+ * links, next steps and a collapsed system information footer
+ */
+export const defaultTemplate: DigestTemplate = {
+  title(summary: JobSummary): string {
+    const totalJobs = summary.total_jobs_found;
+    if (totalJobs === 0) {
+      return "📭 No New Job Opportunities Today";
+    } else if (totalJobs === 1) {
+      return "🎯 1 New Job Opportunity";
+    } else {
+      const newJobsText =
+        summary.new_jobs > 0 ? ` (${summary.new_jobs} new)` : "";
+      return `🎯 ${totalJobs} Job Opportunities${newJobsText}`;
+    }
+  },
+
+  heading(metadata: ProcessingMetadata): string {
+    const timestamp = new Date(metadata.generated_at).toLocaleDateString(
+      "en-US",
+      {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      }
+    );
+
+    return `# Job Search Results - ${timestamp}`;
+  },
+
+  summary(summary: JobSummary): string {
+    let section = `## 📊 Summary\n\n`;
+    section += `- **Total Jobs:** ${summary.total_jobs_found}`;
+
+    if (summary.new_jobs > 0) {
+      section += ` (${summary.new_jobs} new since last run)`;
+    }
+
+    section += `\n- **Sources:** ${summary.sources_queried.join(", ")}`;
+    section += `\n- **Processing Time:** ${summary.processing_time_seconds.toFixed(
+      2
+    )}s`;
+
+    if (summary.duplicates_removed > 0) {
+      section += `\n- **Duplicates Removed:** ${summary.duplicates_removed}`;
+    }
+
+    const filters = Object.entries(summary.filters_applied ?? {});
+    if (filters.length > 0) {
+      const described = filters
+        .map(
+          ([name, value]) =>
+            `${name.replace(/_/g, " ")}: ${formatFilterValue(value)}`
+        )
+        .join("; ");
+      section += `\n- **Filters Applied:** ${described}`;
+    }
+
+    section += `\n\n`;
+
+    return section;
+  },
+
+  jobsHeading(page?: PageContext): string {
+    const part = page ? ` (Part ${page.part}/${page.total})` : "";
+    return `## 💼 Job Opportunities${part}\n\n`;
+  },
+
+  jobCard(job: JobListing, context: JobCardContext): string {
+    let listing = `### ${context.index}. ${job.title} at **${job.company}**\n`;
+    listing += `${taskItem(context)} ${context.marker}\n\n`;
+
+    // Add job metadata badges
+    const metadata = [];
+    if (job.location) metadata.push(`📍 ${job.location}`);
+    if (job.salary) metadata.push(`💰 ${formatSalary(job.salary)}`);
+    if (job.job_type) metadata.push(`⏰ ${job.job_type}`);
+    if (job.experience_level) metadata.push(`👨‍💼 ${job.experience_level}`);
+    if (job.remote_option) metadata.push(`🏠 Remote Available`);
+    else if (job.work_mode === "hybrid") metadata.push(`🏢 Hybrid`);
+    if (job.match_score)
+      metadata.push(`🎯 ${Math.round(job.match_score * 100)}% match`);
+    if (context.status === "new") metadata.push(`🆕 New`);
+    if (context.status === "updated") metadata.push(`✏️ Updated`);
+    if (context.seenBefore || context.status === "repeat")
+      metadata.push(`👀 Seen before`);
+
+    if (metadata.length > 0) {
+      listing += `${metadata.join(" • ")}\n\n`;
+    }
+
+    // Add description (truncated for readability)
+    const description = truncateDescription(job.description, 300);
+    listing += `${description}\n\n`;
+
+    // Add requirements if available
+    if (job.requirements) {
+      const requirements = truncateDescription(job.requirements, 200);
+      listing += `**Requirements:** ${requirements}\n\n`;
+    }
+
+    // Add match reasons if available
+    if (job.match_reasons && job.match_reasons.length > 0) {
+      listing += `**✨ Why this matches:** ${job.match_reasons.join(", ")}\n\n`;
+    }
+
+    // Add posted date
+    const postedDate = formatDate(job.posted_date);
+    listing += `**Posted:** ${postedDate}\n\n`;
+
+    // Add action buttons
+    listing += formatActionButtons(job);
+
+    return listing;
+  },
+
+  jobSeparator: "\n---\n\n",
+
+  tableHeading(): string {
+    let heading = `### 📋 More Opportunities\n\n`;
+    heading += `| # | Title | Company | Location | Salary | Match | Posted | Apply |\n`;
+    heading += `|---:|---|---|---|---|---:|---|---|\n`;
+
+    return heading;
+  },
+
+  tableRow(job: JobListing, context: JobCardContext): string {
+    const title = [job.title, ...statusBadges(context)].join(" ");
+    const match = job.match_score
+      ? `${Math.round(job.match_score * 100)}%`
+      : EMPTY_CELL;
+    const cells = [
+      String(context.index),
+      tableCell(title),
+      tableCell(job.company),
+      tableCell(job.location),
+      tableCell(job.salary && formatSalary(job.salary)),
+      match,
+      formatDate(job.posted_date),
+      job.also_listed_on && job.also_listed_on.length > 0
+        ? sourceLinks([job, ...job.also_listed_on])
+        : `[Apply](${job.url})`,
+    ];
+
+    return `| ${cells.join(" | ")} |`;
+  },
+
+  tableTaskItem(job: JobListing, context: JobCardContext): string {
+    return `${taskItem(context)} in ${context.index}. ${job.title} ${
+      context.marker
+    }`;
+  },
+
+  groupSummary(group: JobGroupContext): string {
+    const jobs = `${group.count} job${group.count === 1 ? "" : "s"}`;
+    const continued = group.continued ? " (continued)" : "";
+    return `<b>${escapeHtml(group.label)}</b> (${jobs})${continued}`;
+  },
+
+  nextSteps(jobCount: number): string {
+    let section = `## 🎯 Next Steps\n\n`;
+
+    if (jobCount === 1) {
+      section += `Ready to apply? Click the "Apply Now" button above to get started!\n\n`;
+    } else {
+      section += `Found ${jobCount} opportunities! Here's how to proceed:\n\n`;
+      section += `1. **Review** each job listing above\n`;
+      section += `2. **Research** companies that interest you\n`;
+      section += `3. **Click "Apply Now"** to start the application process\n`;
+      section += `4. **Prepare** for interviews using the interview prep links\n\n`;
+    }
+
+    section += `💡 **Tip:** Jobs with higher match scores (🎯) align better with your preferences.\n\n`;
+
+    return section;
+  },
+
+  emptyState(): string {
+    let section = `## 🔍 No Jobs Found\n\n`;
+    section += `No jobs matched your current search criteria today. Consider:\n\n`;
+    section += `- 🔄 **Broadening search keywords** - try related terms or technologies\n`;
+    section += `- 📍 **Expanding location preferences** - include remote or nearby cities\n`;
+    section += `- 💰 **Adjusting salary expectations** - consider a wider range\n`;
+    section += `- 📅 **Checking search date range** - extend to include older postings\n\n`;
+    section += `The system will continue monitoring and notify you when new opportunities are found.\n\n`;
+
+    return section;
+  },
+
+  footer(metadata: ProcessingMetadata): string {
+    let footer = `---\n\n`;
+    footer += `<details>\n`;
+    footer += `<summary>🤖 System Information</summary>\n\n`;
+    footer += `- **Generated:** ${metadata.generated_at}\n`;
+
+    if (metadata.version) {
+      footer += `- **Version:** ${metadata.version}\n`;
+    }
+
+    if (metadata.warnings && metadata.warnings.length > 0) {
+      footer += `- **Warnings:** ${metadata.warnings.length}\n`;
+    }
+
+    if (metadata.errors && metadata.errors.length > 0) {
+      footer += `- **Errors:** ${metadata.errors.length}\n`;
+    }
+
+    footer += `\n*This digest was generated automatically by the Job Search Automation system.*\n`;
+    footer += `</details>`;
+
+    return footer;
+  },
+};
+
+/**
+ * Format action buttons for job listing
+ */
+export function formatActionButtons(job: JobListing): string {
+  const companySearchQuery = encodeURIComponent(
+    `${job.company} company review salary culture`
+  );
+  const roleSearchQuery = encodeURIComponent(
+    `${job.title} ${job.company} interview questions`
+  );
+
+  let buttons = `**🚀 Actions:**\n`;
+  buttons += `- [**Apply Now**](${job.url}) 📝\n`;
+  buttons += `- [Research Company](https://www.google.com/search?q=${companySearchQuery}) 🔍\n`;
+  buttons += `- [Interview Prep](https://www.google.com/search?q=${roleSearchQuery}) 🎯\n`;
+
+  if (job.also_listed_on && job.also_listed_on.length > 0) {
+    buttons += `- Also listed on ${sourceLinks(job.also_listed_on)} 🔗\n`;
+  }
+
+  return buttons;
+}
+
+const EMPTY_CELL = "—";
+
+/**
+ * Triage checkbox, parsed back by `extractSelectedJobIds`; stays ticked when
+ * an upsert re-renders a job the user already selected
+ */
+function taskItem(context: JobCardContext): string {
+  return `- [${context.selected ? "x" : " "}] Interested`;
+}
+
+/**
+ * Markdown links to each listing of a job, named after its source
+ */
+function sourceLinks(listings: JobSourceLink[]): string {
+  return listings
+    .map(({ source, url }) => `[${source.replace(/[[\]|]/g, "")}](${url})`)
+    .join(", ");
+}
+
+/**
+ * Compact badges for a table row's title cell
+ */
+function statusBadges(context: JobCardContext): string[] {
+  const badges: string[] = [];
+  if (context.status === "new") badges.push("🆕");
+  if (context.status === "updated") badges.push("✏️");
+  if (context.seenBefore || context.status === "repeat") badges.push("👀");
+  return badges;
+}
+
+/**
+ * Make text safe for a markdown table cell
+ */
+function tableCell(value: string | undefined): string {
+  if (!value || value.trim().length === 0) {
+    return EMPTY_CELL;
+  }
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function formatFilterValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  return String(value);
+}
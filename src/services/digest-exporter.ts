@@ -0,0 +1,198 @@
+// CSV, JSON Lines and iCalendar exports of a digest's jobs
+
+import { DigestResult, ExportFormat, JobListing } from "../types";
+
+/** Every `JobListing` field, in column order */
+const CSV_COLUMNS: (keyof JobListing)[] = [
+  "id",
+  "title",
+  "company",
+  "location",
+  "salary",
+  "description",
+  "requirements",
+  "benefits",
+  "url",
+  "source",
+  "posted_date",
+  "application_deadline",
+  "job_type",
+  "experience_level",
+  "remote_option",
+  "work_mode",
+  "tags",
+  "match_score",
+  "match_reasons",
+  "also_listed_on",
+];
+
+/** Spreadsheets run cells starting with these as formulas */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const CALENDAR_PRODUCT = "-//Job Search Automation//Digest Export//EN";
+/** iCalendar content lines are folded at 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Render a digest's jobs in the given export format
+ */
+export function exportDigest(
+  digest: DigestResult,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "csv":
+      return exportCsv(digest);
+    case "jsonl":
+      return exportJsonLines(digest);
+    case "ics":
+      return exportDeadlines(digest);
+  }
+}
+
+/**
+ * RFC 4180 CSV with a header row and one row per job
+ * Lists are joined with "; " and other sources as "Source <url>".
+ */
+export function exportCsv(digest: DigestResult): string {
+  const rows = [
+    CSV_COLUMNS,
+    ...digest.jobs.map((job) =>
+      CSV_COLUMNS.map((column) => csvValue(job, column))
+    ),
+  ];
+
+  return rows.map((row) => `${row.map(csvCell).join(",")}\r\n`).join("");
+}
+
+/**
+ * One JSON object per job per line
+ */
+export function exportJsonLines(digest: DigestResult): string {
+  return digest.jobs.map((job) => `${JSON.stringify(job)}\n`).join("");
+}
+
+/**
+ * iCalendar file with an all-day event on each job's application deadline
+ * Jobs without a readable deadline are left out.
+ */
+export function exportDeadlines(digest: DigestResult): string {
+  const stamp = icsTimestamp(new Date(digest.metadata.generated_at));
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${CALENDAR_PRODUCT}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  for (const job of digest.jobs) {
+    const deadline = job.application_deadline
+      ? new Date(job.application_deadline)
+      : undefined;
+    if (!deadline || isNaN(deadline.getTime())) {
+      continue;
+    }
+
+    const nextDay = new Date(deadline.getTime() + 24 * 60 * 60 * 1000);
+    const description = [
+      `Application deadline for ${job.title} at ${job.company}`,
+      job.location && `Location: ${job.location}`,
+      job.salary && `Salary: ${job.salary}`,
+      `Apply: ${job.url}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${icsText(job.id)}-deadline@job-search-automation`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(deadline)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay)}`,
+      `SUMMARY:${icsText(`Apply: ${job.title} at ${job.company}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      ...(job.location ? [`LOCATION:${icsText(job.location)}`] : []),
+      `URL:${job.url}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map((line) => `${foldLine(line)}\r\n`).join("");
+}
+
+function csvValue(job: JobListing, column: keyof JobListing): string {
+  const value = job[column];
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (column === "also_listed_on") {
+    return job.also_listed_on!.map((l) => `${l.source} <${l.url}>`).join("; ");
+  }
+  if (Array.isArray(value)) {
+    return value.join("; ");
+  }
+  return String(value);
+}
+
+/**
+ * Quote a cell when needed; text that would run as a formula gets a leading
+ * apostrophe, numbers are left alone
+ */
+function csvCell(value: string): string {
+  const safe =
+    FORMULA_START.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Escape iCalendar TEXT values */
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** UTC date-time, e.g. 20250731T090000Z */
+function icsTimestamp(date: Date): string {
+  const valid = isNaN(date.getTime()) ? new Date() : date;
+  return valid
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** UTC calendar date, e.g. 20250815 */
+function icsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Fold a content line into 75-octet chunks joined by CRLF and a space,
+ * without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
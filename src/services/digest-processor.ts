@@ -1,4 +1,15 @@
-import { DigestResult } from "../types";
+import {
+  DigestResult,
+  DigestStats,
+  LenientParseResult,
+  SkippedListing,
+  ValidationIssue,
+  ValidationReport,
+} from "../types";
+import { digestResultSchema, validateSchema } from "./digest-schema";
+
+// Matches paths inside one job listing, e.g. `$.jobs[3]` or `$.jobs[3].url`
+const JOB_PATH = /^\$\.jobs\[(\d+)\](?:[.[]|$)/;
 
 /**
  * Processes and validates digest data from the job search library
@@ -6,115 +17,156 @@ import { DigestResult } from "../types";
 export class DigestProcessor {
   /**
    * Parse JSON string and validate digest data structure
+   * Throws with every validation error when the data is invalid
    */
   parse(jsonData: string): DigestResult {
-    try {
-      const data = JSON.parse(jsonData);
-      this.validate(data);
-      return data as DigestResult;
-    } catch (error) {
-      throw new Error(
-        `Invalid digest data: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
+    const { data, report } = this.inspect(jsonData);
+
+    if (!report.valid) {
+      throw new Error(`Invalid digest data: ${this.describeReport(report)}`);
     }
+
+    return data as DigestResult;
   }
 
   /**
-   * Validate digest data structure and required fields
+   * Parse digest JSON, quarantining invalid job listings instead of rejecting
+   * the digest. Skipped listings are appended to `metadata.warnings`; problems
+   * outside the jobs array still throw.
    */
-  private validate(data: any): void {
-    // Validate summary
-    if (!data.summary || typeof data.summary !== "object") {
-      throw new Error("Missing or invalid summary object");
-    }
-
-    if (typeof data.summary.total_jobs_found !== "number") {
-      throw new Error("Missing or invalid total_jobs_found in summary");
+  parseLenient(jsonData: string): LenientParseResult {
+    const { data, report } = this.inspect(jsonData);
+    const skippedByIndex = new Map<number, ValidationIssue[]>();
+    const blocking: ValidationIssue[] = [];
+
+    for (const issue of report.errors) {
+      const match = JOB_PATH.exec(issue.path);
+      if (match) {
+        const index = Number(match[1]);
+        skippedByIndex.set(index, [
+          ...(skippedByIndex.get(index) ?? []),
+          issue,
+        ]);
+      } else {
+        blocking.push(issue);
+      }
     }
 
-    if (typeof data.summary.new_jobs !== "number") {
-      throw new Error("Missing or invalid new_jobs in summary");
+    if (blocking.length > 0) {
+      throw new Error(
+        `Invalid digest data: ${this.describeReport({
+          valid: false,
+          errors: blocking,
+        })}`
+      );
     }
 
-    if (!Array.isArray(data.summary.sources_queried)) {
-      throw new Error("Missing or invalid sources_queried array in summary");
+    const parsed = data as DigestResult;
+    const skipped: SkippedListing[] = [];
+    for (const [index, errors] of skippedByIndex) {
+      // Listings that failed validation may not even be objects
+      const job: unknown = parsed.jobs[index];
+      const fields: Record<string, unknown> =
+        typeof job === "object" && job !== null
+          ? (job as Record<string, unknown>)
+          : {};
+      skipped.push({
+        index,
+        id: typeof fields.id === "string" ? fields.id : undefined,
+        title: typeof fields.title === "string" ? fields.title : undefined,
+        errors,
+      });
     }
+    skipped.sort((a, b) => a.index - b.index);
 
-    // Validate jobs array
-    if (!Array.isArray(data.jobs)) {
-      throw new Error("Jobs data must be an array");
+    if (skipped.length === 0) {
+      return { digest: parsed, skipped };
     }
 
-    // Validate each job has required fields
-    for (let i = 0; i < data.jobs.length; i++) {
-      const job = data.jobs[i];
-      const jobContext = `Job at index ${i}`;
-
-      if (!job.id || typeof job.id !== "string") {
-        throw new Error(`${jobContext}: missing or invalid id field`);
-      }
+    const digest: DigestResult = {
+      ...parsed,
+      jobs: parsed.jobs.filter((_, index) => !skippedByIndex.has(index)),
+      metadata: {
+        ...parsed.metadata,
+        warnings: [
+          ...(parsed.metadata.warnings ?? []),
+          ...skipped.map((listing) => this.describeSkipped(listing)),
+        ],
+      },
+    };
 
-      if (!job.title || typeof job.title !== "string") {
-        throw new Error(`${jobContext}: missing or invalid title field`);
-      }
+    return { digest, skipped };
+  }
 
-      if (!job.company || typeof job.company !== "string") {
-        throw new Error(`${jobContext}: missing or invalid company field`);
-      }
+  /**
+   * Validate a JSON string, reporting every problem instead of the first
+   */
+  validateJson(jsonData: string): ValidationReport {
+    return this.inspect(jsonData).report;
+  }
 
-      if (!job.url || typeof job.url !== "string") {
-        throw new Error(`${jobContext}: missing or invalid url field`);
-      }
+  /**
+   * Validate parsed digest data against the digest schema
+   */
+  validate(data: unknown): ValidationReport {
+    const errors = validateSchema(data, digestResultSchema);
+    return { valid: errors.length === 0, errors };
+  }
 
-      if (!job.description || typeof job.description !== "string") {
-        throw new Error(`${jobContext}: missing or invalid description field`);
-      }
+  /**
+   * One-line, human-readable summary of a validation report
+   */
+  describeReport(report: ValidationReport): string {
+    const count = report.errors.length;
+    const details = report.errors
+      .map((issue) => `${issue.path} ${issue.message}`)
+      .join("; ");
 
-      if (!job.source || typeof job.source !== "string") {
-        throw new Error(`${jobContext}: missing or invalid source field`);
-      }
+    return count === 1 ? details : `${count} validation errors: ${details}`;
+  }
 
-      if (!job.posted_date || typeof job.posted_date !== "string") {
-        throw new Error(`${jobContext}: missing or invalid posted_date field`);
-      }
+  /**
+   * Warning line for a listing dropped by lenient parsing
+   */
+  describeSkipped(listing: SkippedListing): string {
+    const label = listing.id ? ` ${listing.id}` : "";
+    const details = listing.errors
+      .map((issue) => `${issue.path} ${issue.message}`)
+      .join("; ");
 
-      // Validate optional numeric fields
-      if (
-        job.match_score !== undefined &&
-        (typeof job.match_score !== "number" ||
-          job.match_score < 0 ||
-          job.match_score > 1)
-      ) {
-        throw new Error(
-          `${jobContext}: match_score must be a number between 0 and 1`
-        );
-      }
-    }
+    return `Skipped job${label} at $.jobs[${listing.index}]: ${details}`;
+  }
 
-    // Validate metadata
-    if (!data.metadata || typeof data.metadata !== "object") {
-      throw new Error("Missing or invalid metadata object");
+  private inspect(jsonData: string): {
+    data?: unknown;
+    report: ValidationReport;
+  } {
+    let data: unknown;
+    try {
+      data = JSON.parse(jsonData);
+    } catch (error) {
+      return {
+        report: {
+          valid: false,
+          errors: [
+            {
+              path: "$",
+              message: `is not valid JSON (${
+                error instanceof Error ? error.message : "Unknown error"
+              })`,
+            },
+          ],
+        },
+      };
     }
 
-    if (
-      !data.metadata.generated_at ||
-      typeof data.metadata.generated_at !== "string"
-    ) {
-      throw new Error("Missing or invalid generated_at in metadata");
-    }
+    return { data, report: this.validate(data) };
   }
 
   /**
    * Get summary statistics for logging/monitoring
    */
-  getSummaryStats(digest: DigestResult): {
-    totalJobs: number;
-    newJobs: number;
-    sources: string[];
-    avgMatchScore: number;
-  } {
+  getSummaryStats(digest: DigestResult): DigestStats {
     const { summary, jobs } = digest;
 
     const matchScores = jobs
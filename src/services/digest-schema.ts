@@ -0,0 +1,229 @@
+import { ValidationIssue } from "../types";
+
+// Declarative schema for digest data produced by the job search library
+// Mirrors the interfaces in src/types; optional fields are validated when present
+
+export type SchemaNode =
+  | { kind: "string"; optional?: boolean; nonEmpty?: boolean }
+  | { kind: "number"; optional?: boolean; min?: number; max?: number }
+  | { kind: "boolean"; optional?: boolean }
+  | { kind: "enum"; optional?: boolean; values: readonly string[] }
+  | { kind: "array"; optional?: boolean; items: SchemaNode }
+  | {
+      kind: "object";
+      optional?: boolean;
+      /** Report keys not listed in `properties` */
+      strict?: boolean;
+      properties: Record<string, SchemaNode>;
+    }
+  | { kind: "record"; optional?: boolean; values?: SchemaNode };
+
+type Options<K extends SchemaNode["kind"]> = Omit<
+  Extract<SchemaNode, { kind: K }>,
+  "kind" | "items" | "properties" | "values"
+>;
+
+export const string = (options: Options<"string"> = {}): SchemaNode => ({
+  kind: "string",
+  ...options,
+});
+
+export const number = (options: Options<"number"> = {}): SchemaNode => ({
+  kind: "number",
+  ...options,
+});
+
+export const boolean = (options: Options<"boolean"> = {}): SchemaNode => ({
+  kind: "boolean",
+  ...options,
+});
+
+export const oneOf = (
+  values: readonly string[],
+  options: Options<"enum"> = {}
+): SchemaNode => ({ kind: "enum", values, ...options });
+
+export const array = (
+  items: SchemaNode,
+  options: Options<"array"> = {}
+): SchemaNode => ({ kind: "array", items, ...options });
+
+export const object = (
+  properties: Record<string, SchemaNode>,
+  options: Options<"object"> = {}
+): SchemaNode => ({ kind: "object", properties, ...options });
+
+export const record = (
+  values?: SchemaNode,
+  options: Options<"record"> = {}
+): SchemaNode => ({ kind: "record", values, ...options });
+
+export const optional = (node: SchemaNode): SchemaNode => ({
+  ...node,
+  optional: true,
+});
+
+export const searchQuerySchema = object({
+  keywords: string(),
+  location: optional(string()),
+  job_title: optional(string()),
+  company: optional(string()),
+  date_range: optional(string()),
+  additional_filters: optional(record()),
+});
+
+export const jobSummarySchema = object({
+  total_jobs_found: number({ min: 0 }),
+  new_jobs: number({ min: 0 }),
+  updated_jobs: number({ min: 0 }),
+  duplicates_removed: number({ min: 0 }),
+  processing_time_seconds: number({ min: 0 }),
+  sources_queried: array(string()),
+  date_range_processed: optional(string()),
+  filters_applied: optional(record()),
+});
+
+export const jobListingSchema = object({
+  id: string({ nonEmpty: true }),
+  title: string({ nonEmpty: true }),
+  company: string({ nonEmpty: true }),
+  location: optional(string()),
+  salary: optional(string()),
+  description: string({ nonEmpty: true }),
+  requirements: optional(string()),
+  benefits: optional(string()),
+  url: string({ nonEmpty: true }),
+  source: string({ nonEmpty: true }),
+  posted_date: string({ nonEmpty: true }),
+  application_deadline: optional(string()),
+  job_type: optional(string()),
+  experience_level: optional(string()),
+  remote_option: optional(boolean()),
+  work_mode: optional(oneOf(["remote", "hybrid", "onsite"])),
+  tags: optional(array(string())),
+  match_score: optional(number({ min: 0, max: 1 })),
+  match_reasons: optional(array(string())),
+  also_listed_on: optional(
+    array(
+      object({
+        id: string({ nonEmpty: true }),
+        source: string({ nonEmpty: true }),
+        url: string({ nonEmpty: true }),
+      })
+    )
+  ),
+});
+
+export const processingMetadataSchema = object({
+  generated_at: string({ nonEmpty: true }),
+  version: optional(string()),
+  config_snapshot: optional(record()),
+  errors: optional(array(string())),
+  warnings: optional(array(string())),
+});
+
+export const digestResultSchema = object({
+  query: searchQuerySchema,
+  summary: jobSummarySchema,
+  jobs: array(jobListingSchema),
+  metadata: processingMetadataSchema,
+});
+
+/**
+ * Validate a value against a schema, collecting every violation
+ * Paths use JSON-path notation, e.g. `$.jobs[3].description`
+ */
+export function validateSchema(
+  value: unknown,
+  schema: SchemaNode,
+  path: string = "$"
+): ValidationIssue[] {
+  // Optional fields may be absent or null (the Python library emits None as null)
+  if (value === undefined || value === null) {
+    return schema.optional ? [] : [{ path, message: "is required" }];
+  }
+
+  switch (schema.kind) {
+    case "string":
+      if (typeof value !== "string") {
+        return [{ path, message: "must be a string" }];
+      }
+      if (schema.nonEmpty && value.trim().length === 0) {
+        return [{ path, message: "must not be empty" }];
+      }
+      return [];
+
+    case "number":
+      if (typeof value !== "number" || isNaN(value)) {
+        return [{ path, message: "must be a number" }];
+      }
+      if (schema.min !== undefined && schema.max !== undefined) {
+        return value < schema.min || value > schema.max
+          ? [
+              {
+                path,
+                message: `must be between ${schema.min} and ${schema.max}`,
+              },
+            ]
+          : [];
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return [{ path, message: `must be at least ${schema.min}` }];
+      }
+      return [];
+
+    case "boolean":
+      return typeof value === "boolean"
+        ? []
+        : [{ path, message: "must be a boolean" }];
+
+    case "enum":
+      return typeof value === "string" && schema.values.includes(value)
+        ? []
+        : [{ path, message: `must be one of: ${schema.values.join(", ")}` }];
+
+    case "array":
+      if (!Array.isArray(value)) {
+        return [{ path, message: "must be an array" }];
+      }
+      return value.flatMap((item, index) =>
+        validateSchema(item, schema.items, `${path}[${index}]`)
+      );
+
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [{ path, message: "must be an object" }];
+      }
+      const issues = Object.entries(schema.properties).flatMap(([key, child]) =>
+        validateSchema(
+          (value as Record<string, unknown>)[key],
+          child,
+          `${path}.${key}`
+        )
+      );
+      if (schema.strict) {
+        for (const key of Object.keys(value)) {
+          if (!(key in schema.properties)) {
+            issues.push({
+              path: `${path}.${key}`,
+              message: "is not a known key",
+            });
+          }
+        }
+      }
+      return issues;
+    }
+
+    case "record": {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return [{ path, message: "must be an object" }];
+      }
+      const values = schema.values;
+      return values
+        ? Object.entries(value).flatMap(([key, child]) =>
+            validateSchema(child, values, `${path}.${key}`)
+          )
+        : [];
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { GitHubClient, Logger } from "../interfaces";
+import {
+  extractDigestPart,
+  extractJobIds,
+  extractSelectedJobIds,
+} from "./issue-markers";
+
+const DIGEST_LABEL = "job-digest";
+
+/**
+ * Reads triage decisions made in a digest issue: each job renders a
+ * `- [ ] Interested` task-list item, and ticking it on GitHub selects the job
+ */
+export class DigestTriageService {
+  constructor(private githubClient: GitHubClient, private logger: Logger) {}
+
+  /**
+   * Job ids ticked in a digest issue, including jobs continued in its
+   * overflow comments, in digest order
+   */
+  async getSelectedJobIds(issueNumber: number): Promise<string[]> {
+    const issue = await this.githubClient.getIssue(issueNumber);
+
+    if (!issue.labels.includes(DIGEST_LABEL)) {
+      throw new Error(`Issue #${issueNumber} is not a job digest`);
+    }
+
+    const parts = (await this.githubClient.listComments(issueNumber))
+      .filter((comment) => extractDigestPart(comment.body) !== undefined)
+      .sort(
+        (a, b) =>
+          extractDigestPart(a.body)!.part - extractDigestPart(b.body)!.part
+      );
+    const bodies = [issue.body, ...parts.map((comment) => comment.body)];
+
+    const selected = [...new Set(bodies.flatMap(extractSelectedJobIds))];
+    const total = new Set(extractJobIds(issue.body)).size;
+
+    this.logger.info(
+      `Digest #${issueNumber}: ${selected.length} of ${total} job(s) marked interested`
+    );
+
+    return selected;
+  }
+}
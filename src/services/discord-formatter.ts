@@ -0,0 +1,90 @@
+import { DigestPublication } from "../interfaces";
+import {
+  ChatFormatOptions,
+  DiscordEmbed,
+  DiscordMessage,
+  JobListing,
+} from "../types";
+import {
+  formatDate,
+  jobHighlights,
+  summaryLine,
+  truncateDescription,
+} from "./format-utils";
+
+/** Discord allows 10 embeds per message */
+const MAX_JOBS = 10;
+const MAX_TITLE_LENGTH = 256;
+const DESCRIPTION_PREVIEW_LENGTH = 200;
+
+/** Embed accent colours by match score */
+const STRONG_MATCH_COLOR = 0x2ecc71;
+const GOOD_MATCH_COLOR = 0xf1c40f;
+const DEFAULT_COLOR = 0x95a5a6;
+
+/**
+ * Renders a posted digest as a Discord webhook message: the title, summary
+ * and issue link as content and one embed per job
+ */
+export class DiscordFormatter {
+  private readonly maxJobs: number;
+
+  constructor(options: ChatFormatOptions = {}) {
+    this.maxJobs = Math.min(options.maxJobs ?? MAX_JOBS, MAX_JOBS);
+  }
+
+  format(publication: DigestPublication): DiscordMessage {
+    const { title, digest, issue, jobStatuses } = publication;
+    const shown = digest.jobs.slice(0, this.maxJobs);
+    const hidden = digest.jobs.length - shown.length;
+
+    const lines = [`**${title}**`, summaryLine(digest.summary)];
+    if (hidden > 0) {
+      lines.push(
+        `…and ${hidden} more job${hidden === 1 ? "" : "s"} in the digest issue`
+      );
+    }
+    lines.push(`<${issue.url}>`);
+
+    return {
+      content: lines.join("\n"),
+      embeds: shown.map((job, index) =>
+        toEmbed(job, index + 1, jobHighlights(job, jobStatuses?.get(job.id)))
+      ),
+    };
+  }
+}
+
+function toEmbed(
+  job: JobListing,
+  index: number,
+  highlights: string[]
+): DiscordEmbed {
+  const description = [
+    highlights.join(" • "),
+    truncateDescription(job.description, DESCRIPTION_PREVIEW_LENGTH),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    title: truncateDescription(
+      `${index}. ${job.title} at ${job.company}`,
+      MAX_TITLE_LENGTH - 3
+    ),
+    url: job.url,
+    description,
+    color: matchColor(job.match_score),
+    footer: { text: `${job.source} • Posted ${formatDate(job.posted_date)}` },
+  };
+}
+
+function matchColor(score?: number): number {
+  if (score !== undefined && score >= 0.8) {
+    return STRONG_MATCH_COLOR;
+  }
+  if (score !== undefined && score >= 0.6) {
+    return GOOD_MATCH_COLOR;
+  }
+  return DEFAULT_COLOR;
+}
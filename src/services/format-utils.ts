@@ -0,0 +1,145 @@
+// Sorting, truncation, dates and highlights shared by every digest formatter
+
+import {
+  DocumentFormatOptions,
+  JobHistoryStatus,
+  JobListing,
+  JobSortOrder,
+  JobSummary,
+} from "../types";
+import { annualSalary, formatSalary } from "./salary-parser";
+
+type JobComparator = (a: JobListing, b: JobListing) => number;
+
+const byScore: JobComparator = (a, b) =>
+  (b.match_score || 0) - (a.match_score || 0);
+const byDate: JobComparator = (a, b) =>
+  new Date(b.posted_date).getTime() - new Date(a.posted_date).getTime();
+// Jobs without a readable salary go last
+const bySalary: JobComparator = (a, b) =>
+  (annualSalary(b.salary) ?? -1) - (annualSalary(a.salary) ?? -1);
+
+/** Each order falls back to the others to break ties */
+const JOB_ORDERS: Record<JobSortOrder, JobComparator> = {
+  match: (a, b) => byScore(a, b) || byDate(a, b),
+  salary: (a, b) => bySalary(a, b) || byScore(a, b) || byDate(a, b),
+  date: (a, b) => byDate(a, b) || byScore(a, b),
+};
+
+/**
+ * Jobs in display order (best match first by default), as a new array
+ */
+export function sortJobs(
+  jobs: JobListing[],
+  order: JobSortOrder = "match"
+): JobListing[] {
+  return [...jobs].sort(JOB_ORDERS[order]);
+}
+
+/**
+ * One-line summary, e.g. "3 jobs (2 new) from Adzuna, Indeed"
+ */
+export function summaryLine(summary: JobSummary): string {
+  const total = summary.total_jobs_found;
+  const jobs = `${total} job${total === 1 ? "" : "s"}`;
+  const newJobs = summary.new_jobs > 0 ? ` (${summary.new_jobs} new)` : "";
+  const sources =
+    summary.sources_queried.length > 0
+      ? ` from ${summary.sources_queried.join(", ")}`
+      : "";
+  return `${jobs}${newJobs}${sources}`;
+}
+
+/**
+ * Short emoji-tagged facts about a job for chat messages and emails
+ */
+export function jobHighlights(
+  job: JobListing,
+  status?: JobHistoryStatus
+): string[] {
+  const highlights: string[] = [];
+  if (job.location) highlights.push(`📍 ${job.location}`);
+  if (job.salary) highlights.push(`💰 ${formatSalary(job.salary)}`);
+  // "Remote" is often the whole location already
+  if (job.remote_option && !/\bremote\b/i.test(job.location ?? ""))
+    highlights.push(`🏠 Remote`);
+  else if (job.work_mode === "hybrid") highlights.push(`🏢 Hybrid`);
+  if (job.match_score)
+    highlights.push(`🎯 ${Math.round(job.match_score * 100)}% match`);
+  if (status === "new") highlights.push(`🆕 New`);
+  if (status === "updated") highlights.push(`✏️ Updated`);
+  if (status === "repeat") highlights.push(`👀 Seen before`);
+  return highlights;
+}
+
+/**
+ * History status for a job, treating jobs seen in earlier digests as repeats
+ */
+export function jobStatus(
+  job: JobListing,
+  options: Pick<DocumentFormatOptions, "jobStatuses" | "seenJobIds">
+): JobHistoryStatus | undefined {
+  return (
+    options.jobStatuses?.get(job.id) ??
+    (options.seenJobIds?.has(job.id) ? "repeat" : undefined)
+  );
+}
+
+/**
+ * Truncate description to specified length with ellipsis
+ */
+export function truncateDescription(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  // Find the last space before the max length to avoid cutting words
+  const truncated = text.substring(0, maxLength);
+  const lastSpaceIndex = truncated.lastIndexOf(" ");
+
+  if (lastSpaceIndex > maxLength * 0.8) {
+    return truncated.substring(0, lastSpaceIndex) + "...";
+  }
+
+  return truncated + "...";
+}
+
+/**
+ * Format date string for display, relative when recent
+ */
+export function formatDate(dateString: string): string {
+  try {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffInDays = Math.floor(
+      (now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    if (diffInDays === 0) {
+      return "Today";
+    } else if (diffInDays === 1) {
+      return "Yesterday";
+    } else if (diffInDays < 7) {
+      return `${diffInDays} days ago`;
+    } else {
+      return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      });
+    }
+  } catch (error) {
+    return dateString; // Fallback to original string if parsing fails
+  }
+}
+
+/**
+ * Escape text for HTML element content and quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,186 @@
+import {
+  DigestDocument,
+  DigestResult,
+  DocumentFormatOptions,
+  JobHistoryStatus,
+  JobListing,
+  JobSortOrder,
+} from "../types";
+import { defaultTemplate } from "./default-template";
+import {
+  escapeHtml,
+  formatDate,
+  jobHighlights,
+  jobStatus,
+  sortJobs,
+  summaryLine,
+  truncateDescription,
+} from "./format-utils";
+
+const DESCRIPTION_PREVIEW_LENGTH = 300;
+
+/** Table captions naming the listing order for screen readers */
+const ORDER_CAPTIONS: Record<JobSortOrder, string> = {
+  match: "best match first",
+  salary: "highest salary first",
+  date: "newest first",
+};
+
+/**
+ * Inline styles only; many mail clients drop `<style>` blocks
+ */
+const STYLES = {
+  body: "margin:0;padding:24px;background:#f6f8fa;color:#24292f;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;font-size:14px;line-height:1.5;",
+  container:
+    "max-width:720px;margin:0 auto;background:#ffffff;border:1px solid #d0d7de;border-radius:6px;padding:24px;",
+  heading: "margin:0 0 8px;font-size:22px;",
+  summary: "margin:0 0 16px;color:#57606a;",
+  table: "width:100%;border-collapse:collapse;",
+  caption: "text-align:left;padding:0 0 8px;color:#57606a;font-size:12px;",
+  headerCell:
+    "text-align:left;padding:8px;border-bottom:2px solid #d0d7de;font-size:12px;text-transform:uppercase;color:#57606a;",
+  jobCell: "text-align:left;padding:12px 8px;border-bottom:1px solid #d0d7de;",
+  cell: "padding:12px 8px;border-bottom:1px solid #d0d7de;vertical-align:top;",
+  jobTitle: "font-size:16px;font-weight:600;",
+  company: "color:#57606a;",
+  highlights: "margin:4px 0;font-weight:normal;font-size:13px;",
+  description: "margin:4px 0 0;font-weight:normal;color:#57606a;",
+  link: "color:#0969da;",
+  button:
+    "display:inline-block;padding:6px 12px;background:#1f883d;color:#ffffff;border-radius:6px;text-decoration:none;white-space:nowrap;",
+  footer: "margin:16px 0 0;color:#57606a;font-size:12px;",
+};
+
+/**
+ * Renders a digest as a self-contained HTML document for email or archiving:
+ * inline CSS, one accessible table row per job and a link back to the issue
+ */
+export class HtmlFormatter {
+  format(
+    digest: DigestResult,
+    options: DocumentFormatOptions = {}
+  ): DigestDocument {
+    const title = options.title ?? defaultTemplate.title(digest.summary);
+    const jobs = sortJobs(digest.jobs, options.sortBy);
+
+    const content = [
+      `<h1 style="${STYLES.heading}">${escapeHtml(title)}</h1>`,
+      `<p style="${STYLES.summary}">${escapeHtml(
+        summaryLine(digest.summary)
+      )}</p>`,
+      jobs.length > 0
+        ? this.jobTable(jobs, options)
+        : `<p>No jobs matched your search criteria this time.</p>`,
+      this.footer(digest, options),
+    ];
+
+    const body = [
+      "<!DOCTYPE html>",
+      `<html lang="en">`,
+      "<head>",
+      `<meta charset="utf-8">`,
+      `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+      `<title>${escapeHtml(title)}</title>`,
+      "</head>",
+      `<body style="${STYLES.body}">`,
+      `<div style="${STYLES.container}">`,
+      ...content,
+      "</div>",
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+
+    return { title, body };
+  }
+
+  private jobTable(jobs: JobListing[], options: DocumentFormatOptions): string {
+    const caption = `Job opportunities, ${
+      ORDER_CAPTIONS[options.sortBy ?? "match"]
+    }`;
+    const rows = jobs.map((job, index) =>
+      this.jobRow(job, index + 1, jobStatus(job, options))
+    );
+
+    return [
+      `<table style="${STYLES.table}">`,
+      `<caption style="${STYLES.caption}">${caption}</caption>`,
+      "<thead>",
+      "<tr>",
+      `<th scope="col" style="${STYLES.headerCell}">Job</th>`,
+      `<th scope="col" style="${STYLES.headerCell}">Posted</th>`,
+      `<th scope="col" style="${STYLES.headerCell}">Apply</th>`,
+      "</tr>",
+      "</thead>",
+      "<tbody>",
+      ...rows,
+      "</tbody>",
+      "</table>",
+    ].join("\n");
+  }
+
+  private jobRow(
+    job: JobListing,
+    index: number,
+    status: JobHistoryStatus | undefined
+  ): string {
+    const highlights = jobHighlights(job, status);
+    const description = truncateDescription(
+      job.description,
+      DESCRIPTION_PREVIEW_LENGTH
+    );
+    const title = `${index}. ${escapeHtml(job.title)}`;
+    const link = safeUrl(job.url);
+
+    const jobCell = [
+      `<span style="${STYLES.jobTitle}">${
+        link ? `<a href="${link}" style="${STYLES.link}">${title}</a>` : title
+      }</span>`,
+      `<span style="${STYLES.company}">at ${escapeHtml(job.company)}</span>`,
+      highlights.length > 0
+        ? `<p style="${STYLES.highlights}">${escapeHtml(
+            highlights.join(" • ")
+          )}</p>`
+        : "",
+      description
+        ? `<p style="${STYLES.description}">${escapeHtml(description)}</p>`
+        : "",
+    ].join("");
+
+    const apply = link
+      ? `<a href="${link}" style="${
+          STYLES.button
+        }" aria-label="Apply for ${escapeHtml(job.title)} at ${escapeHtml(
+          job.company
+        )}">Apply</a>`
+      : "";
+
+    return [
+      "<tr>",
+      `<th scope="row" style="${STYLES.jobCell}">${jobCell}</th>`,
+      `<td style="${STYLES.cell}">${escapeHtml(
+        formatDate(job.posted_date)
+      )}</td>`,
+      `<td style="${STYLES.cell}">${apply}</td>`,
+      "</tr>",
+    ].join("\n");
+  }
+
+  private footer(digest: DigestResult, options: DocumentFormatOptions): string {
+    const parts = [`Generated ${escapeHtml(digest.metadata.generated_at)}`];
+    const issueUrl = options.issueUrl && safeUrl(options.issueUrl);
+    if (issueUrl) {
+      parts.push(
+        `<a href="${issueUrl}" style="${STYLES.link}">View the full digest on GitHub</a>`
+      );
+    }
+    return `<p style="${STYLES.footer}">${parts.join(" · ")}</p>`;
+  }
+}
+
+/**
+ * Escaped http(s) URL for an href; anything else (e.g. `javascript:`) is dropped
+ */
+function safeUrl(url: string): string | undefined {
+  return /^https?:\/\//i.test(url.trim()) ? escapeHtml(url.trim()) : undefined;
+}
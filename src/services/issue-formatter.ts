@@ -1,312 +1,551 @@
 import {
   DigestResult,
+  DigestTemplate,
+  FormatOptions,
   IssueContent,
+  JobCardContext,
+  JobGroupField,
   JobListing,
   JobSummary,
-  ProcessingMetadata,
+  PaginatedIssueContent,
+  SkippedListing,
 } from "../types";
+import { defaultTemplate } from "./default-template";
+import {
+  digestKey,
+  extractAlsoListedIds,
+  extractDigestKey,
+  extractJobIds,
+  formatAlsoListedMarker,
+  formatDigestKeyMarker,
+  formatDigestPartMarker,
+  formatJobIdMarker,
+} from "./issue-markers";
+import { sortJobs } from "./format-utils";
+
+/** GitHub rejects issue and comment bodies longer than this */
+export const GITHUB_MAX_BODY_LENGTH = 65536;
+
+const CONTINUATION_RESERVE = 200;
+const OVERFLOW_HEADING_RESERVE = 200;
+const DEFAULT_FULL_CARD_COUNT = 10;
+
+/** Group labels for jobs that leave the grouped field empty */
+const UNGROUPED_LABELS: Record<JobGroupField, string> = {
+  company: "Company not listed",
+  source: "Source not listed",
+  location: "Location not listed",
+  experience_level: "Experience level not listed",
+};
+
+interface ListingGroup {
+  field: JobGroupField;
+  /** Normalized value shared by the group */
+  key: string;
+  label: string;
+  count: number;
+}
+
+interface RenderedListing {
+  jobId: string;
+  /** Full card, or a row of the compact table */
+  kind: "card" | "row";
+  text: string;
+  /** Triage task-list item listed under the table, for rows */
+  task?: string;
+  group?: ListingGroup;
+  /** First listing of its group, so a run starting elsewhere is a continuation */
+  groupStart?: boolean;
+}
 
 /**
  * Formats digest data into GitHub issue content
+ * Sections are rendered by a template; any renderer left out of `template`
+ * falls back to the default layout.
  */
 export class IssueFormatter {
+  private readonly template: DigestTemplate;
+
+  constructor(template: Partial<DigestTemplate> = {}) {
+    this.template = { ...defaultTemplate, ...template };
+  }
+
   /**
    * Format digest into GitHub issue title and body
    */
-  format(digest: DigestResult): IssueContent {
-    const jobCount = digest.summary.total_jobs_found;
-    const title = this.formatTitle(jobCount, digest.summary.new_jobs);
-    const body = this.formatBody(digest);
+  format(digest: DigestResult, options: FormatOptions = {}): IssueContent {
+    const { title, body } = this.formatPaginated(digest, {
+      ...options,
+      maxBodyLength: Infinity,
+    });
 
     return { title, body };
   }
 
   /**
-   * Format issue title based on job count
+   * Format digest into an issue plus overflow comments, each within
+   * `options.maxBodyLength` (GitHub's limit by default). The summary, next
+   * steps and footer always stay in the issue body.
    */
-  private formatTitle(totalJobs: number, newJobs: number): string {
-    if (totalJobs === 0) {
-      return "📭 No New Job Opportunities Today";
-    } else if (totalJobs === 1) {
-      return "🎯 1 New Job Opportunity";
-    } else {
-      const newJobsText = newJobs > 0 ? ` (${newJobs} new)` : "";
-      return `🎯 ${totalJobs} Job Opportunities${newJobsText}`;
-    }
+  formatPaginated(
+    digest: DigestResult,
+    options: FormatOptions = {}
+  ): PaginatedIssueContent {
+    const title = this.template.title(digest.summary);
+    const { body, comments } = this.formatBody(
+      digest,
+      options,
+      options.maxBodyLength ?? GITHUB_MAX_BODY_LENGTH
+    );
+
+    return { title, body, comments };
+  }
+
+  /**
+   * Recover the job ids embedded in a previously formatted issue body
+   */
+  extractJobIds(body: string): string[] {
+    return extractJobIds(body);
+  }
+
+  /**
+   * Recover the ids of listings merged into the jobs of a formatted issue body
+   */
+  extractAlsoListedIds(body: string): string[] {
+    return extractAlsoListedIds(body);
+  }
+
+  /**
+   * Key identifying the digest (generation day + query) an issue body belongs to
+   */
+  digestKey(digest: DigestResult): string {
+    return digestKey(digest);
+  }
+
+  /**
+   * Recover the digest key from a previously formatted issue body
+   */
+  extractDigestKey(body: string): string | undefined {
+    return extractDigestKey(body);
   }
 
   /**
    * Format issue body with job listings and metadata
    */
-  private formatBody(digest: DigestResult): string {
+  private formatBody(
+    digest: DigestResult,
+    options: FormatOptions,
+    maxBodyLength: number
+  ): { body: string; comments: string[] } {
     const { summary, jobs, metadata } = digest;
-    const timestamp = new Date(metadata.generated_at).toLocaleDateString(
-      "en-US",
-      {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      }
-    );
+    const template = this.template;
 
-    let body = `# Job Search Results - ${timestamp}\n\n`;
+    let header = `${template.heading(metadata)}\n`;
+    header += `${formatDigestKeyMarker(digestKey(digest))}\n`;
+    for (const job of jobs) {
+      for (const link of job.also_listed_on ?? []) {
+        header += `${formatAlsoListedMarker(link.id)}\n`;
+      }
+    }
+    header += "\n";
 
     // Summary section
-    body += this.formatSummarySection(summary);
+    header += template.summary(summary);
+
+    const skippedSection = this.formatSkippedListingsSection(
+      options.skippedListings ?? []
+    );
 
     // Handle empty results
     if (jobs.length === 0) {
-      body += this.formatEmptyResultsSection();
-      return body;
+      return {
+        body: header + template.emptyState() + skippedSection,
+        comments: [],
+      };
     }
 
-    // Job listings section
-    body += this.formatJobListingsSection(jobs);
-
-    // Next steps section
-    body += this.formatNextStepsSection(jobs.length);
+    // Next steps section, skipped listings and footer
+    const footer =
+      template.nextSteps(jobs.length) +
+      skippedSection +
+      template.footer(metadata);
+
+    // Job listings section, split into parts when the body would be too long
+    const listings = this.formatJobListings(jobs, summary, options);
+    const parts = this.paginateListings(
+      listings,
+      maxBodyLength - header.length - footer.length,
+      maxBodyLength
+    );
 
-    // Footer
-    body += this.formatFooter(metadata);
+    const body =
+      header +
+      this.formatJobListingsSection(parts.first, parts.overflow) +
+      footer;
+    const comments = parts.overflow.map((page, index) =>
+      this.formatOverflowComment(page, index + 2, parts.overflow.length + 1)
+    );
 
-    return body;
+    return { body, comments };
   }
 
   /**
-   * Format summary section with statistics
+   * Split rendered listings into the issue body part and overflow comment pages
    */
-  private formatSummarySection(summary: JobSummary): string {
-    let section = `## 📊 Summary\n\n`;
-    section += `- **Total Jobs:** ${summary.total_jobs_found}`;
-
-    if (summary.new_jobs > 0) {
-      section += ` (${summary.new_jobs} new since last run)`;
+  private paginateListings(
+    listings: RenderedListing[],
+    bodyBudget: number,
+    commentBudget: number
+  ): { first: RenderedListing[]; overflow: RenderedListing[][] } {
+    const sectionOverhead = this.template.jobsHeading().length + 2;
+    if (this.listingsLength(listings) + sectionOverhead <= bodyBudget) {
+      return { first: listings, overflow: [] };
     }
 
-    section += `\n- **Sources:** ${summary.sources_queried.join(", ")}`;
-    section += `\n- **Processing Time:** ${summary.processing_time_seconds.toFixed(
-      2
-    )}s`;
+    // Reserve room for the continuation note, which repeats every job id
+    // marker so deduplication still finds overflow jobs in the issue body
+    const markersLength = listings.reduce(
+      (sum, listing) => sum + formatJobIdMarker(listing.jobId).length + 1,
+      0
+    );
+    const first = this.takeListings(
+      listings,
+      0,
+      bodyBudget - sectionOverhead - CONTINUATION_RESERVE - markersLength
+    );
 
-    if (summary.duplicates_removed > 0) {
-      section += `\n- **Duplicates Removed:** ${summary.duplicates_removed}`;
+    const overflow: RenderedListing[][] = [];
+    for (let next = first.length; next < listings.length; ) {
+      const page = this.takeListings(
+        listings,
+        next,
+        commentBudget - OVERFLOW_HEADING_RESERVE
+      );
+      overflow.push(page);
+      next += page.length;
     }
 
-    section += `\n\n`;
-
-    return section;
+    return { first, overflow };
   }
 
   /**
-   * Format section for when no jobs are found
+   * Take consecutive listings from `start` while they fit in `budget`
+   * (always at least one on overflow pages, so oversized listings still post)
    */
-  private formatEmptyResultsSection(): string {
-    let section = `## 🔍 No Jobs Found\n\n`;
-    section += `No jobs matched your current search criteria today. Consider:\n\n`;
-    section += `- 🔄 **Broadening search keywords** - try related terms or technologies\n`;
-    section += `- 📍 **Expanding location preferences** - include remote or nearby cities\n`;
-    section += `- 💰 **Adjusting salary expectations** - consider a wider range\n`;
-    section += `- 📅 **Checking search date range** - extend to include older postings\n\n`;
-    section += `The system will continue monitoring and notify you when new opportunities are found.\n\n`;
+  private takeListings(
+    listings: RenderedListing[],
+    start: number,
+    budget: number
+  ): RenderedListing[] {
+    const page: RenderedListing[] = [];
+    let length = 0;
+
+    for (let i = start; i < listings.length; i++) {
+      const added = this.listingLength(listings[i], page[page.length - 1]);
+      if (length + added > budget && (page.length > 0 || start === 0)) {
+        break;
+      }
+      page.push(listings[i]);
+      length += added;
+    }
 
-    return section;
+    return page;
+  }
+
+  private listingsLength(listings: RenderedListing[]): number {
+    return listings.reduce(
+      (sum, listing, index) =>
+        sum + this.listingLength(listing, listings[index - 1]),
+      0
+    );
   }
 
   /**
-   * Format job listings section
+   * Space a listing takes after `previous`, including its separator and, for
+   * the first row of a table or the first listing of a group, the table
+   * heading and group wrapper. Rows also pay for their task item.
    */
-  private formatJobListingsSection(jobs: JobListing[]): string {
-    let section = `## 💼 Job Opportunities\n\n`;
+  private listingLength(
+    listing: RenderedListing,
+    previous?: RenderedListing
+  ): number {
+    const { jobSeparator } = this.template;
+    const sameGroup = previous?.group?.key === listing.group?.key;
+    const groupStart =
+      listing.group && !(previous && sameGroup)
+        ? this.wrapGroup(listing.group, true, "").length + 2
+        : 0;
+    if (listing.kind === "card") {
+      return listing.text.length + jobSeparator.length + groupStart;
+    }
 
-    // Sort jobs by match score (highest first), then by posted date (newest first)
-    const sortedJobs = jobs.sort((a, b) => {
-      const scoreA = a.match_score || 0;
-      const scoreB = b.match_score || 0;
+    const tableStart =
+      previous?.kind === "row" && sameGroup
+        ? 0
+        : this.template.tableHeading().length + jobSeparator.length + 2;
+    const task = (listing.task?.length ?? 0) + 1;
+    return listing.text.length + 1 + task + tableStart + groupStart;
+  }
 
-      if (scoreA !== scoreB) {
-        return scoreB - scoreA; // Higher score first
+  /**
+   * Join listings, wrapping each run of a group in a collapsible section
+   */
+  private joinListings(listings: RenderedListing[]): string {
+    const runs: RenderedListing[][] = [];
+    for (const listing of listings) {
+      const run = runs[runs.length - 1];
+      if (run && run[0].group?.key === listing.group?.key) {
+        run.push(listing);
+      } else {
+        runs.push([listing]);
       }
+    }
 
-      // If scores are equal, sort by date (newer first)
-      return (
-        new Date(b.posted_date).getTime() - new Date(a.posted_date).getTime()
-      );
-    });
-
-    sortedJobs.forEach((job, index) => {
-      section += this.formatJobListing(job, index + 1);
+    return runs
+      .map((run) => {
+        const { group, groupStart } = run[0];
+        const text = this.joinGroupListings(run);
+        return group ? this.wrapGroup(group, !groupStart, text) : text;
+      })
+      .join("\n\n");
+  }
 
-      // Add separator between jobs (but not after the last one)
-      if (index < sortedJobs.length - 1) {
-        section += "\n---\n\n";
-      }
+  /**
+   * Wrap the listings of one group in a `<details>` section
+   */
+  private wrapGroup(
+    group: ListingGroup,
+    continued: boolean,
+    text: string
+  ): string {
+    const { field, label, count } = group;
+    const summary = this.template.groupSummary({
+      field,
+      label,
+      count,
+      continued,
     });
 
-    section += "\n\n";
-
-    return section;
+    return `<details>\n<summary>${summary}</summary>\n\n${text}\n\n</details>`;
   }
 
   /**
-   * Format individual job listing
+   * Join cards with the template's separator and rows into a table, followed
+   * by the rows' task items
    */
-  private formatJobListing(job: JobListing, index: number): string {
-    let listing = `### ${index}. ${job.title} at **${job.company}**\n\n`;
-
-    // Add job metadata badges
-    const metadata = [];
-    if (job.location) metadata.push(`📍 ${job.location}`);
-    if (job.salary) metadata.push(`💰 ${job.salary}`);
-    if (job.job_type) metadata.push(`⏰ ${job.job_type}`);
-    if (job.experience_level) metadata.push(`👨‍💼 ${job.experience_level}`);
-    if (job.remote_option) metadata.push(`🏠 Remote Available`);
-    if (job.match_score)
-      metadata.push(`🎯 ${Math.round(job.match_score * 100)}% match`);
-
-    if (metadata.length > 0) {
-      listing += `${metadata.join(" • ")}\n\n`;
-    }
-
-    // Add description (truncated for readability)
-    const description = this.truncateDescription(job.description, 300);
-    listing += `${description}\n\n`;
-
-    // Add requirements if available
-    if (job.requirements) {
-      const requirements = this.truncateDescription(job.requirements, 200);
-      listing += `**Requirements:** ${requirements}\n\n`;
-    }
-
-    // Add match reasons if available
-    if (job.match_reasons && job.match_reasons.length > 0) {
-      listing += `**✨ Why this matches:** ${job.match_reasons.join(", ")}\n\n`;
-    }
-
-    // Add posted date
-    const postedDate = this.formatDate(job.posted_date);
-    listing += `**Posted:** ${postedDate}\n\n`;
+  private joinGroupListings(listings: RenderedListing[]): string {
+    let text = "";
+    let tasks: string[] = [];
+
+    listings.forEach((listing, index) => {
+      const previous = listings[index - 1];
+      if (listing.kind === "row" && previous?.kind !== "row") {
+        text += previous ? this.template.jobSeparator : "";
+        text += this.template.tableHeading();
+      } else if (previous) {
+        text += previous.kind === "row" ? "\n" : this.template.jobSeparator;
+      }
+      text += listing.text;
 
-    // Add action buttons
-    listing += this.formatActionButtons(job);
+      if (listing.task !== undefined) {
+        tasks.push(listing.task);
+      }
+      if (listing.kind === "row" && listings[index + 1]?.kind !== "row") {
+        text += `\n\n${tasks.join("\n")}`;
+        tasks = [];
+      }
+    });
 
-    return listing;
+    return text;
   }
 
   /**
-   * Format action buttons for job listing
+   * Render every job listing, sorted by relevance (or `options.sortBy`)
+   * In the compact layout only the best jobs get full cards; the rest become
+   * table rows. Without an explicit layout, digests with more jobs than
+   * `fullCardCount` use the compact layout. With `groupBy`, groups are ordered
+   * by their best job and keep the relevance order inside.
    */
-  private formatActionButtons(job: JobListing): string {
-    const companySearchQuery = encodeURIComponent(
-      `${job.company} company review salary culture`
+  private formatJobListings(
+    jobs: JobListing[],
+    summary: JobSummary,
+    options: FormatOptions
+  ): RenderedListing[] {
+    const fullCardCount = Math.max(
+      0,
+      options.fullCardCount ?? DEFAULT_FULL_CARD_COUNT
     );
-    const roleSearchQuery = encodeURIComponent(
-      `${job.title} ${job.company} interview questions`
+    const layout =
+      options.layout ??
+      (summary.total_jobs_found > fullCardCount ? "compact" : "cards");
+
+    const sortedJobs = sortJobs(jobs, options.sortBy);
+
+    // Cards go to the best jobs overall, wherever their group lands
+    const ranked = sortedJobs.map((job, index) => ({
+      job,
+      kind: (layout === "compact" && index >= fullCardCount
+        ? "row"
+        : "card") as RenderedListing["kind"],
+    }));
+    const groups = options.groupBy
+      ? this.groupJobs(ranked, options.groupBy)
+      : [{ group: undefined, members: ranked }];
+
+    let index = 0;
+    return groups.flatMap(({ group, members }) =>
+      members.map(({ job, kind }, position) => ({
+        jobId: job.id,
+        kind,
+        ...this.formatJobCard(job, kind, {
+          index: ++index,
+          seenBefore: options.seenJobIds?.has(job.id) ?? false,
+          selected: options.selectedJobIds?.has(job.id) ?? false,
+          status: options.jobStatuses?.get(job.id),
+        }),
+        group,
+        groupStart: group ? position === 0 : undefined,
+      }))
     );
-
-    let buttons = `**🚀 Actions:**\n`;
-    buttons += `- [**Apply Now**](${job.url}) 📝\n`;
-    buttons += `- [Research Company](https://www.google.com/search?q=${companySearchQuery}) 🔍\n`;
-    buttons += `- [Interview Prep](https://www.google.com/search?q=${roleSearchQuery}) 🎯\n`;
-
-    return buttons;
   }
 
   /**
-   * Format next steps section
+   * Group ranked jobs by a field, compared case- and whitespace-insensitively
+   * Groups appear in order of their first (best) job.
    */
-  private formatNextStepsSection(jobCount: number): string {
-    let section = `## 🎯 Next Steps\n\n`;
-
-    if (jobCount === 1) {
-      section += `Ready to apply? Click the "Apply Now" button above to get started!\n\n`;
-    } else {
-      section += `Found ${jobCount} opportunities! Here's how to proceed:\n\n`;
-      section += `1. **Review** each job listing above\n`;
-      section += `2. **Research** companies that interest you\n`;
-      section += `3. **Click "Apply Now"** to start the application process\n`;
-      section += `4. **Prepare** for interviews using the interview prep links\n\n`;
+  private groupJobs<T extends { job: JobListing }>(
+    ranked: T[],
+    field: JobGroupField
+  ): { group: ListingGroup; members: T[] }[] {
+    const groups = new Map<string, { group: ListingGroup; members: T[] }>();
+
+    for (const entry of ranked) {
+      const value = entry.job[field]?.trim().replace(/\s+/g, " ") ?? "";
+      const key = value.toLowerCase();
+      let entries = groups.get(key);
+      if (!entries) {
+        const label = value || UNGROUPED_LABELS[field];
+        entries = { group: { field, key, label, count: 0 }, members: [] };
+        groups.set(key, entries);
+      }
+      entries.group.count++;
+      entries.members.push(entry);
     }
 
-    section += `💡 **Tip:** Jobs with higher match scores (🎯) align better with your preferences.\n\n`;
-
-    return section;
+    return [...groups.values()];
   }
 
   /**
-   * Format footer with metadata
+   * Render one job card, or a table row plus its task item, making sure it
+   * carries the job id marker
    */
-  private formatFooter(metadata: ProcessingMetadata): string {
-    let footer = `---\n\n`;
-    footer += `<details>\n`;
-    footer += `<summary>🤖 System Information</summary>\n\n`;
-    footer += `- **Generated:** ${metadata.generated_at}\n`;
-
-    if (metadata.version) {
-      footer += `- **Version:** ${metadata.version}\n`;
+  private formatJobCard(
+    job: JobListing,
+    kind: RenderedListing["kind"],
+    details: Omit<JobCardContext, "marker">
+  ): { text: string; task?: string } {
+    const marker = formatJobIdMarker(job.id);
+    if (kind === "row") {
+      const context = { ...details, marker: "" };
+      return {
+        text: this.template.tableRow(job, context),
+        task: withMarker(
+          this.template.tableTaskItem(job, { ...context, marker }),
+          marker
+        ),
+      };
     }
 
-    if (metadata.warnings && metadata.warnings.length > 0) {
-      footer += `- **Warnings:** ${metadata.warnings.length}\n`;
-    }
+    const context = { ...details, marker };
+    return { text: withMarker(this.template.jobCard(job, context), marker) };
+  }
+
+  /**
+   * Format job listings section, noting any listings continued in comments
+   */
+  private formatJobListingsSection(
+    listings: RenderedListing[],
+    overflow: RenderedListing[][]
+  ): string {
+    let section = this.template.jobsHeading();
+
+    // Separators go between jobs (but not after the last one)
+    section += this.joinListings(listings);
+    section += "\n\n";
 
-    if (metadata.errors && metadata.errors.length > 0) {
-      footer += `- **Errors:** ${metadata.errors.length}\n`;
+    if (overflow.length > 0) {
+      const remaining = overflow.reduce((sum, page) => sum + page.length, 0);
+      const totalParts = overflow.length + 1;
+      section += `> 📄 **${remaining} more job${
+        remaining === 1 ? "" : "s"
+      }** continue in the comments below (Part 1/${totalParts}).\n`;
+      for (const page of overflow) {
+        for (const listing of page) {
+          section += `${formatJobIdMarker(listing.jobId)}\n`;
+        }
+      }
+      section += "\n";
     }
 
-    footer += `\n*This digest was generated automatically by the Job Search Automation system.*\n`;
-    footer += `</details>`;
+    return section;
+  }
 
-    return footer;
+  /**
+   * Format an overflow comment carrying one page of job listings
+   */
+  private formatOverflowComment(
+    listings: RenderedListing[],
+    part: number,
+    totalParts: number
+  ): string {
+    let comment = `${formatDigestPartMarker(part, totalParts)}\n`;
+    comment += this.template.jobsHeading({ part, total: totalParts });
+    comment += this.joinListings(listings);
+    comment += "\n";
+
+    return comment;
   }
 
   /**
-   * Truncate description to specified length with ellipsis
+   * Format collapsed section listing jobs dropped by lenient validation
    */
-  private truncateDescription(text: string, maxLength: number): string {
-    if (text.length <= maxLength) {
-      return text;
+  private formatSkippedListingsSection(skipped: SkippedListing[]): string {
+    if (skipped.length === 0) {
+      return "";
     }
 
-    // Find the last space before the max length to avoid cutting words
-    const truncated = text.substring(0, maxLength);
-    const lastSpaceIndex = truncated.lastIndexOf(" ");
-
-    if (lastSpaceIndex > maxLength * 0.8) {
-      return truncated.substring(0, lastSpaceIndex) + "...";
+    let section = `<details>\n`;
+    section += `<summary>⚠️ Skipped listings (${skipped.length})</summary>\n\n`;
+    section += `These listings failed validation and were left out of this digest:\n\n`;
+
+    for (const listing of skipped) {
+      const name = listing.title
+        ? `**${listing.title}**`
+        : `Job #${listing.index + 1}`;
+      const id = listing.id ? ` (\`${listing.id}\`)` : "";
+      const problems = listing.errors
+        .map((issue) => `\`${issue.path}\` ${issue.message}`)
+        .join(", ");
+      section += `- ${name}${id}: ${problems}\n`;
     }
 
-    return truncated + "...";
-  }
+    section += `\n</details>\n\n`;
 
-  /**
-   * Format date string for display
-   */
-  private formatDate(dateString: string): string {
-    try {
-      const date = new Date(dateString);
-      const now = new Date();
-      const diffInDays = Math.floor(
-        (now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24)
-      );
+    return section;
+  }
+}
 
-      if (diffInDays === 0) {
-        return "Today";
-      } else if (diffInDays === 1) {
-        return "Yesterday";
-      } else if (diffInDays < 7) {
-        return `${diffInDays} days ago`;
-      } else {
-        return date.toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-          year: "numeric",
-        });
-      }
-    } catch (error) {
-      return dateString; // Fallback to original string if parsing fails
-    }
+/**
+ * Insert `marker` after the first line unless the template placed it;
+ * single-line cards (list items) keep it inline
+ */
+function withMarker(card: string, marker: string): string {
+  if (card.includes(marker)) {
+    return card;
   }
+
+  const lineEnd = card.indexOf("\n");
+  return lineEnd === -1
+    ? `${card} ${marker}`
+    : `${card.slice(0, lineEnd + 1)}${marker}\n${card.slice(lineEnd + 1)}`;
 }
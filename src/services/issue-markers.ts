@@ -0,0 +1,160 @@
+// Hidden HTML comment markers embedded in issue bodies
+// They render invisibly on GitHub but let later runs recover structured data
+
+import { DigestResult } from "../types";
+
+const JOB_ID_MARKER_PATTERN = /<!-- job-id: (\S+) -->/g;
+const ALSO_LISTED_MARKER_PATTERN = /<!-- also-listed: (\S+) -->/g;
+const DIGEST_KEY_MARKER_PATTERN = /<!-- digest-key: (\S+) -->/;
+const DIGEST_PART_MARKER_PATTERN = /<!-- digest-part: (\d+)\/(\d+) -->/;
+const COMMAND_MARKER_PATTERN = /<!-- command: (\w+) (\S+) -->/g;
+const TASK_ITEM_PATTERN =
+  /^[ \t]*[-*+] \[([ xX])\][^\n]*?<!-- job-id: (\S+) -->/gm;
+
+/**
+ * Marker identifying the job a listing or issue refers to
+ */
+export function formatJobIdMarker(jobId: string): string {
+  return `<!-- job-id: ${encodeURIComponent(jobId)} -->`;
+}
+
+/**
+ * Recover every job id embedded in an issue body, in order of appearance
+ */
+export function extractJobIds(body: string): string[] {
+  const ids: string[] = [];
+  for (const match of body.matchAll(JOB_ID_MARKER_PATTERN)) {
+    const id = decodeMarkerValue(match[1]);
+    if (id !== undefined) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Marker recording another source's id for a merged job, so later runs
+ * recognise the role whichever listing they keep
+ */
+export function formatAlsoListedMarker(jobId: string): string {
+  return `<!-- also-listed: ${encodeURIComponent(jobId)} -->`;
+}
+
+/**
+ * Recover the ids of the listings merged into jobs of an issue body
+ */
+export function extractAlsoListedIds(body: string): string[] {
+  const ids: string[] = [];
+  for (const match of body.matchAll(ALSO_LISTED_MARKER_PATTERN)) {
+    const id = decodeMarkerValue(match[1]);
+    if (id !== undefined) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Recover the job ids whose task-list checkbox (`- [x] ... <!-- job-id -->`)
+ * is ticked, in order of appearance
+ */
+export function extractSelectedJobIds(body: string): string[] {
+  const ids: string[] = [];
+  for (const match of body.matchAll(TASK_ITEM_PATTERN)) {
+    const id = decodeMarkerValue(match[2]);
+    if (match[1] !== " " && id !== undefined) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Identity of a digest: the UTC day it was generated plus the search query
+ * Re-runs for the same day and query share a key
+ */
+export function digestKey(digest: DigestResult): string {
+  const day = new Date(digest.metadata.generated_at);
+  const date = isNaN(day.getTime())
+    ? digest.metadata.generated_at.slice(0, 10)
+    : day.toISOString().slice(0, 10);
+  const query = [
+    digest.query?.keywords,
+    digest.query?.location,
+    digest.query?.job_title,
+    digest.query?.company,
+  ]
+    .map((part) => (part || "").trim().toLowerCase())
+    .join("|");
+
+  return `${date}/${query}`;
+}
+
+/**
+ * Marker identifying the digest an issue was created for
+ */
+export function formatDigestKeyMarker(key: string): string {
+  return `<!-- digest-key: ${encodeURIComponent(key)} -->`;
+}
+
+/**
+ * Recover the digest key embedded in an issue body
+ */
+export function extractDigestKey(body: string): string | undefined {
+  const match = body.match(DIGEST_KEY_MARKER_PATTERN);
+  return match ? decodeMarkerValue(match[1]) : undefined;
+}
+
+/**
+ * Marker identifying an overflow comment as part `part` of `total`
+ */
+export function formatDigestPartMarker(part: number, total: number): string {
+  return `<!-- digest-part: ${part}/${total} -->`;
+}
+
+/**
+ * Recover the part number of an overflow comment
+ */
+export function extractDigestPart(
+  body: string
+): { part: number; total: number } | undefined {
+  const match = body.match(DIGEST_PART_MARKER_PATTERN);
+  return match
+    ? { part: Number(match[1]), total: Number(match[2]) }
+    : undefined;
+}
+
+/**
+ * Marker recording the outcome of a comment command, e.g. a hidden company
+ */
+export function formatCommandMarker(command: string, value: string): string {
+  return `<!-- command: ${command} ${encodeURIComponent(value)} -->`;
+}
+
+/**
+ * Recover the command outcomes recorded in a comment body, in order
+ */
+export function extractCommandMarkers(
+  body: string
+): { command: string; value: string }[] {
+  const markers: { command: string; value: string }[] = [];
+  for (const match of body.matchAll(COMMAND_MARKER_PATTERN)) {
+    const value = decodeMarkerValue(match[2]);
+    if (value !== undefined) {
+      markers.push({ command: match[1], value });
+    }
+  }
+  return markers;
+}
+
+/**
+ * Markers live in bodies users can edit, so a malformed escape is skipped
+ * rather than failing the whole run
+ */
+function decodeMarkerValue(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  DuplicateMergeOptions,
+  DuplicateMergeResult,
+  JobListing,
+} from "../types";
+import { formatLocation, parseLocation } from "./location-normalizer";
+import { words } from "./text-utils";
+
+const DEFAULT_TITLE_SIMILARITY = 0.9;
+
+/** Title words naming a level; titles must agree on all of them */
+const SENIORITY_WORDS = new Set([
+  "junior",
+  "senior",
+  "staff",
+  "lead",
+  "principal",
+  "i",
+  "ii",
+  "iii",
+  "iv",
+]);
+
+/** Legal suffixes dropped when comparing company names */
+const COMPANY_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "gmbh",
+  "plc",
+]);
+
+/** Title abbreviations expanded before comparing */
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: "senior",
+  jr: "junior",
+  eng: "engineer",
+  engr: "engineer",
+  dev: "developer",
+  mgr: "manager",
+  swe: "software engineer",
+};
+
+/** Optional fields a merged job takes from its duplicates when it lacks them */
+const FILLABLE_FIELDS = [
+  "location",
+  "salary",
+  "requirements",
+  "benefits",
+  "job_type",
+  "experience_level",
+  "application_deadline",
+] as const;
+
+/**
+ * Merges listings of the same role posted on several sources (with different
+ * ids and slightly different titles) into one job
+ * Listings are duplicates when they come from different sources (or share a
+ * URL), their companies match after normalization, their titles are similar
+ * at the same seniority and their locations are compatible.
+ */
+export class JobDeduplicator {
+  private readonly titleSimilarity: number;
+
+  constructor(options: DuplicateMergeOptions = {}) {
+    this.titleSimilarity = options.titleSimilarity ?? DEFAULT_TITLE_SIMILARITY;
+  }
+
+  /**
+   * Cluster duplicate listings and keep one job per cluster: the best match,
+   * with the others' sources and URLs in `also_listed_on`
+   */
+  apply(jobs: JobListing[]): DuplicateMergeResult {
+    const clusters: JobListing[][] = [];
+
+    for (const job of jobs) {
+      const cluster = clusters.find((candidates) =>
+        candidates.some((candidate) => this.isDuplicate(candidate, job))
+      );
+      if (cluster) {
+        cluster.push(job);
+      } else {
+        clusters.push([job]);
+      }
+    }
+
+    return {
+      jobs: clusters.map((cluster) => mergeCluster(cluster)),
+      removed: jobs.length - clusters.length,
+    };
+  }
+
+  /**
+   * Whether two listings describe the same role
+   */
+  isDuplicate(a: JobListing, b: JobListing): boolean {
+    // One source listing two similar roles is posting two openings
+    const crossPosted = a.source !== b.source || sameUrl(a.url, b.url);
+
+    return (
+      a.id !== b.id &&
+      crossPosted &&
+      normalizeCompany(a.company) === normalizeCompany(b.company) &&
+      locationsCompatible(a.location, b.location) &&
+      sameSeniority(a.title, b.title) &&
+      titleSimilarity(a.title, b.title) >= this.titleSimilarity
+    );
+  }
+}
+
+/**
+ * Dice coefficient of the titles' normalized word sets
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    words(title).flatMap((word) =>
+      (TITLE_ABBREVIATIONS[word] ?? word).split(" ")
+    )
+  );
+}
+
+/**
+ * "Senior Software Engineer" and "Software Engineer" are different roles,
+ * however many other words they share
+ */
+function sameSeniority(a: string, b: string): boolean {
+  return seniority(a) === seniority(b);
+}
+
+function seniority(title: string): string {
+  return [...titleWords(title)]
+    .filter((word) => SENIORITY_WORDS.has(word))
+    .sort()
+    .join(" ");
+}
+
+function sameUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, "");
+  return normalize(a) === normalize(b);
+}
+
+function normalizeCompany(company: string): string {
+  return words(company)
+    .filter((word) => !COMPANY_SUFFIXES.has(word))
+    .join(" ");
+}
+
+/**
+ * Locations match when one's words include the other's ("Remote" and
+ * "Remote, US"), compared in their normalized spelling so "CA" and
+ * "California" agree; a missing location matches anything
+ */
+function locationsCompatible(a?: string, b?: string): boolean {
+  const wordsA = words(a ? formatLocation(parseLocation(a)) : "");
+  const wordsB = words(b ? formatLocation(parseLocation(b)) : "");
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return true;
+  }
+
+  const [shorter, longer] =
+    wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  return shorter.every((word) => longer.includes(word));
+}
+
+/**
+ * Ids of every listing a job stands for: its own, then any merged into it
+ */
+export function listingIds(job: JobListing): string[] {
+  return [job.id, ...(job.also_listed_on ?? []).map((link) => link.id)];
+}
+
+/**
+ * Keep the best-matching listing (the first on ties), filling its missing
+ * details from the others and linking their sources
+ */
+function mergeCluster(cluster: JobListing[]): JobListing {
+  if (cluster.length === 1) {
+    return cluster[0];
+  }
+
+  const primary = cluster.reduce((best, job) =>
+    (job.match_score ?? 0) > (best.match_score ?? 0) ? job : best
+  );
+  const others = cluster.filter((job) => job !== primary);
+  const merged: JobListing = { ...primary };
+
+  for (const field of FILLABLE_FIELDS) {
+    if (!merged[field]) {
+      const donor = others.find((job) => job[field]);
+      if (donor) {
+        merged[field] = donor[field];
+      }
+    }
+  }
+
+  merged.also_listed_on = [
+    ...(primary.also_listed_on ?? []),
+    ...others.flatMap((job) => [
+      { id: job.id, source: job.source, url: job.url },
+      ...(job.also_listed_on ?? []),
+    ]),
+  ];
+
+  return merged;
+}
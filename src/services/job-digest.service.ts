@@ -1,95 +1,742 @@
-import { GitHubClient, IssueResult, Logger } from "../interfaces";
+import { GitHubIssuePublisher } from "../adapters/github-issue.adapter";
+import {
+  CreateIssueParams,
+  DigestPublication,
+  DigestPublisher,
+  DryRunResult,
+  GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueDraft,
+  IssueResult,
+  JobHistoryStore,
+  Logger,
+  UpsertIssueResult,
+} from "../interfaces";
+import {
+  CreateDigestIssueOptions,
+  DigestResult,
+  DigestStats,
+  DuplicateMergeOptions,
+  JobHistoryEntry,
+  JobHistoryStatus,
+  JobPreferences,
+  LenientParseResult,
+  RecordedCommands,
+  ValidationReport,
+} from "../types";
+import {
+  COMMANDS_LABEL,
+  readRecordedCommands,
+} from "./comment-command.service";
 import { DigestProcessor } from "./digest-processor";
-import { IssueFormatter } from "./issue-formatter";
+import { JobDeduplicator, listingIds } from "./job-deduplicator";
+import { JobFilter } from "./job-filter";
+import { JobScorer } from "./job-scorer";
+import { sortJobs } from "./format-utils";
+import { classifyJob, toHistoryEntry } from "./job-history";
+import { normalizeJobLocation } from "./location-normalizer";
+import {
+  digestKey,
+  extractDigestPart,
+  extractSelectedJobIds,
+} from "./issue-markers";
+import { GITHUB_MAX_BODY_LENGTH, IssueFormatter } from "./issue-formatter";
+
+const DIGEST_LABEL = "job-digest";
+const DEFAULT_DEDUPE_LOOKBACK = 30;
+/** Largest page size the GitHub issues API accepts */
+const MAX_ISSUES_PER_PAGE = 100;
+
+type PendingPublication = Omit<DigestPublication, "issue">;
 
 /**
  * Platform-agnostic service for creating job digest issues
  * No dependencies on GitHub Actions - uses dependency injection
+ * With a `JobHistoryStore`, new/updated counts and badges come from the jobs
+ * earlier digests posted rather than from the upstream summary.
+ * The GitHub issue is the primary channel (`issuePublisher`, by default a
+ * `GitHubIssuePublisher`); once it is posted, the same digest goes to each of
+ * `publishers` (Slack, Discord, email).
  */
 export class JobDigestService {
-  constructor(private githubClient: GitHubClient, private logger: Logger) {}
+  private readonly issuePublisher: DigestPublisher<
+    IssueDraft,
+    UpsertIssueResult
+  >;
+
+  constructor(
+    private githubClient: GitHubClient,
+    private logger: Logger,
+    private history?: JobHistoryStore,
+    private publishers: DigestPublisher[] = [],
+    issuePublisher?: DigestPublisher<IssueDraft, UpsertIssueResult>
+  ) {
+    this.issuePublisher =
+      issuePublisher ?? new GitHubIssuePublisher(githubClient, logger);
+  }
 
   /**
    * Create a GitHub issue from job digest JSON data
+   * With `dryRun` the issue is rendered and returned instead of created.
    */
-  async createDigestIssue(digestJson: string): Promise<IssueResult> {
+  async createDigestIssue(
+    digestJson: string,
+    options: CreateDigestIssueOptions & { dryRun: true }
+  ): Promise<DryRunResult>;
+  async createDigestIssue(
+    digestJson: string,
+    options?: CreateDigestIssueOptions & { dryRun?: false }
+  ): Promise<IssueResult>;
+  async createDigestIssue(
+    digestJson: string,
+    options?: CreateDigestIssueOptions
+  ): Promise<IssueResult | DryRunResult>;
+  async createDigestIssue(
+    digestJson: string,
+    options: CreateDigestIssueOptions = {}
+  ): Promise<IssueResult | DryRunResult> {
     try {
       this.logger.info("Starting digest issue creation...");
-      this.logger.debug(`Digest data length: ${digestJson.length} characters`);
 
-      // Parse and validate digest data using pure business logic
-      const processor = new DigestProcessor();
-      const digest = processor.parse(digestJson);
+      const parsed = this.parseDigest(digestJson, options);
+      const { params, comments, stats, historyEntries, publication } =
+        await this.buildIssue(parsed, options);
 
-      const stats = processor.getSummaryStats(digest);
-      this.logger.info(
-        `Processed digest: ${stats.totalJobs} jobs (${
-          stats.newJobs
-        } new) from ${stats.sources.join(", ")}`
+      if (options.dryRun) {
+        this.logger.info(`🧪 Dry run: issue "${params.title}" not created`);
+        this.logSummary(stats);
+        return {
+          dryRun: true,
+          params,
+          comments,
+          stats,
+          skipped: parsed.skipped,
+          digest: publication.digest,
+          jobStatuses: publication.jobStatuses,
+        };
+      }
+
+      const { number, url } = await this.publish(
+        { params, comments },
+        publication
       );
+      await this.recordHistory(historyEntries);
+      this.logSummary(stats);
 
-      // Format issue content using pure business logic
-      const formatter = new IssueFormatter();
-      const issueContent = formatter.format(digest);
+      return { number, url };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(`Failed to create digest issue: ${errorMessage}`);
+      throw error;
+    }
+  }
 
-      this.logger.debug(`Issue title: ${issueContent.title}`);
-      this.logger.debug(
-        `Issue body length: ${issueContent.body.length} characters`
-      );
+  /**
+   * Create the digest issue, or update it in place when one already exists
+   * for the same generation day and search query (idempotent re-runs)
+   */
+  async upsertDigestIssue(
+    digestJson: string,
+    options: CreateDigestIssueOptions = {}
+  ): Promise<UpsertIssueResult> {
+    try {
+      if (options.dryRun) {
+        throw new Error("Dry runs are only supported by createDigestIssue");
+      }
+      this.logger.info("Starting digest issue upsert...");
 
-      // Create issue using injected GitHub client
-      const issue = await this.githubClient.createIssue({
-        title: issueContent.title,
-        body: issueContent.body,
-        labels: [
-          "job-digest",
-          "automated",
-          `jobs-${digest.summary.total_jobs_found}`,
-          ...(digest.summary.new_jobs > 0 ? ["new-jobs"] : []),
-          ...(digest.summary.total_jobs_found === 0 ? ["no-results"] : []),
-        ],
-      });
+      const parsed = this.parseDigest(digestJson, options);
+      const existing = await this.findDigestIssue(parsed.digest, options);
+      const previousComments = existing
+        ? (await this.githubClient.listComments(existing.number))
+            .filter((comment) => extractDigestPart(comment.body) !== undefined)
+            .sort(
+              (a, b) =>
+                extractDigestPart(a.body)!.part -
+                extractDigestPart(b.body)!.part
+            )
+        : [];
 
-      this.logger.info(`✅ Created issue #${issue.number}: ${issue.url}`);
-      this.logger.info(
-        `📊 Summary: ${stats.totalJobs} jobs, avg match score: ${stats.avgMatchScore}`
+      // Keep the triage boxes the user already ticked on the issue
+      const selectedJobIds = existing
+        ? new Set(
+            [
+              existing.body,
+              ...previousComments.map(({ body }) => body),
+            ].flatMap(extractSelectedJobIds)
+          )
+        : undefined;
+      const { params, comments, stats, historyEntries, publication } =
+        await this.buildIssue(
+          parsed,
+          options,
+          existing?.number,
+          selectedJobIds
+        );
+
+      const result = await this.publish(
+        {
+          params,
+          comments,
+          existing: existing && {
+            number: existing.number,
+            commentIds: previousComments.map((comment) => comment.id),
+          },
+        },
+        publication
       );
+      await this.recordHistory(historyEntries);
+      this.logSummary(stats);
 
-      return issue;
+      return result;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
-      this.logger.error(`Failed to create digest issue: ${errorMessage}`);
+      this.logger.error(`Failed to upsert digest issue: ${errorMessage}`);
       throw error;
     }
   }
 
   /**
-   * Validate digest JSON without creating an issue (useful for testing)
+   * Expiry of the latest `/snooze` on a recent digest issue while it is still
+   * in the future; callers post nothing until then
+   * Always undefined unless `options.commands` is set.
    */
-  async validateDigest(
-    digestJson: string
-  ): Promise<{ valid: boolean; summary?: any; error?: string }> {
-    try {
-      const processor = new DigestProcessor();
-      const digest = processor.parse(digestJson);
-      const stats = processor.getSummaryStats(digest);
+  async findActiveSnooze(
+    options: CreateDigestIssueOptions = {},
+    now: Date = new Date()
+  ): Promise<string | undefined> {
+    if (!options.commands) {
+      return undefined;
+    }
+
+    const { snoozedUntil } = await this.readCommands(options);
+    if (!snoozedUntil || Date.parse(snoozedUntil) <= now.getTime()) {
+      return undefined;
+    }
+
+    this.logger.info(`😴 Digests snoozed until ${snoozedUntil}`);
+    return snoozedUntil;
+  }
+
+  /**
+   * Parse and validate digest data using pure business logic
+   * In lenient mode invalid job listings are skipped rather than fatal
+   */
+  private parseDigest(
+    digestJson: string,
+    options: CreateDigestIssueOptions
+  ): LenientParseResult {
+    this.logger.debug(`Digest data length: ${digestJson.length} characters`);
+
+    const processor = new DigestProcessor();
+    if (options.validation !== "lenient") {
+      return { digest: processor.parse(digestJson), skipped: [] };
+    }
+
+    const parsed = processor.parseLenient(digestJson);
+    for (const listing of parsed.skipped) {
+      this.logger.info(`⚠️ ${processor.describeSkipped(listing)}`);
+    }
+
+    return parsed;
+  }
 
-      return {
-        valid: true,
+  /**
+   * Fill in work modes, score jobs, merge cross-source duplicates, apply
+   * preference filters and `/hide` commands,
+   * deduplication and job history, then render the issue title, body and labels
+   * `excludeIssueNumber` is left out of the dedupe lookup (the issue being updated)
+   * and `selectedJobIds` are rendered with their triage checkbox ticked
+   */
+  private async buildIssue(
+    parsed: LenientParseResult,
+    options: CreateDigestIssueOptions,
+    excludeIssueNumber?: number,
+    selectedJobIds?: ReadonlySet<string>
+  ): Promise<{
+    params: CreateIssueParams;
+    comments: string[];
+    stats: DigestStats;
+    historyEntries: JobHistoryEntry[];
+    publication: PendingPublication;
+  }> {
+    const processor = new DigestProcessor();
+    const formatter = new IssueFormatter(options.template);
+    let digest: DigestResult = {
+      ...parsed.digest,
+      jobs: parsed.digest.jobs.map(normalizeJobLocation),
+    };
+
+    if (options.scoring) {
+      const { jobs, scored } = new JobScorer(options.scoring).apply(
+        digest.jobs,
+        digest.query
+      );
+      this.logger.info(`Scored ${scored} job(s) locally`);
+      digest = { ...digest, jobs };
+    }
+
+    if (options.mergeDuplicates) {
+      digest = this.mergeDuplicates(
+        digest,
+        options.mergeDuplicates === true ? {} : options.mergeDuplicates
+      );
+    }
+
+    let preferences = options.preferences;
+    if (options.commands) {
+      const { hidden } = await this.readCommands(options);
+      if (hidden.length > 0) {
+        preferences = {
+          ...preferences,
+          hidden: [...(preferences?.hidden ?? []), ...hidden],
+        };
+      }
+    }
+
+    if (preferences) {
+      digest = this.applyPreferences(digest, preferences);
+    }
+
+    // Look up jobs already posted in earlier digest issues
+    const dedupe = options.dedupe || "off";
+    let seenJobIds: Set<string> | undefined;
+
+    if (dedupe !== "off") {
+      seenJobIds = await this.findPostedJobIds(
+        formatter,
+        options.dedupeLookback || DEFAULT_DEDUPE_LOOKBACK,
+        excludeIssueNumber
+      );
+
+      // A merged job was posted if any of its listings was, even under
+      // another source's id
+      for (const job of digest.jobs) {
+        if (listingIds(job).some((id) => seenJobIds!.has(id))) {
+          seenJobIds.add(job.id);
+        }
+      }
+
+      if (dedupe === "skip") {
+        digest = this.skipPostedJobs(digest, seenJobIds);
+      } else {
+        const seenCount = digest.jobs.filter((job) =>
+          seenJobIds!.has(job.id)
+        ).length;
+        this.logger.info(`Marking ${seenCount} previously posted job(s)`);
+      }
+    }
+
+    let jobStatuses: Map<string, JobHistoryStatus> | undefined;
+    let historyEntries: JobHistoryEntry[] = [];
+    if (this.history) {
+      ({ digest, jobStatuses, historyEntries } = await this.classifyJobs(
+        this.history,
+        digest
+      ));
+    }
+
+    const stats = processor.getSummaryStats(digest);
+    this.logger.info(
+      `Processed digest: ${stats.totalJobs} jobs (${
+        stats.newJobs
+      } new) from ${stats.sources.join(", ")}`
+    );
+
+    // Format issue content using pure business logic
+    const issueContent = formatter.formatPaginated(digest, {
+      seenJobIds,
+      maxBodyLength: options.maxBodyLength ?? GITHUB_MAX_BODY_LENGTH,
+      skippedListings: parsed.skipped,
+      layout: options.layout,
+      fullCardCount: options.fullCardCount,
+      groupBy: options.groupBy,
+      jobStatuses,
+      sortBy: options.sortBy,
+      selectedJobIds,
+    });
+
+    this.logger.debug(`Issue title: ${issueContent.title}`);
+    this.logger.debug(
+      `Issue body length: ${issueContent.body.length} characters`
+    );
+    if (issueContent.comments.length > 0) {
+      this.logger.info(
+        `Digest too large for one issue body: splitting into ${
+          issueContent.comments.length + 1
+        } parts`
+      );
+    }
+
+    const labels = [
+      DIGEST_LABEL,
+      "automated",
+      `jobs-${digest.summary.total_jobs_found}`,
+      ...(digest.summary.new_jobs > 0 ? ["new-jobs"] : []),
+      ...(digest.summary.total_jobs_found === 0 ? ["no-results"] : []),
+      ...(options.labels ?? []),
+    ];
+    const params: CreateIssueParams = {
+      title: issueContent.title,
+      body: issueContent.body,
+      labels: [...new Set(labels)],
+    };
+
+    return {
+      params,
+      comments: issueContent.comments,
+      stats,
+      historyEntries,
+      publication: {
+        title: issueContent.title,
+        digest: { ...digest, jobs: sortJobs(digest.jobs, options.sortBy) },
+        sortBy: options.sortBy,
+        jobStatuses,
+      },
+    };
+  }
+
+  /**
+   * Compare jobs with the history store and recount new/updated jobs
+   */
+  private async classifyJobs(
+    history: JobHistoryStore,
+    digest: DigestResult
+  ): Promise<{
+    digest: DigestResult;
+    jobStatuses: Map<string, JobHistoryStatus>;
+    historyEntries: JobHistoryEntry[];
+  }> {
+    const key = digestKey(digest);
+    const now = new Date().toISOString();
+    const previous = await history.getEntries(digest.jobs.flatMap(listingIds));
+
+    // Merged jobs are matched and recorded under every listing's id, so the
+    // role keeps its history when a different source wins the next merge
+    const jobStatuses = new Map<string, JobHistoryStatus>();
+    const historyEntries = digest.jobs.flatMap((job) => {
+      const entry = listingIds(job)
+        .map((id) => previous.get(id))
+        .find(Boolean);
+      const status = classifyJob(job, entry, key);
+      jobStatuses.set(job.id, status);
+      return [
+        toHistoryEntry(job, status, key, now, entry),
+        ...(job.also_listed_on ?? []).map((link) =>
+          toHistoryEntry(
+            { ...job, ...link },
+            status,
+            key,
+            now,
+            previous.get(link.id) ?? entry
+          )
+        ),
+      ];
+    });
+
+    const count = (status: JobHistoryStatus) =>
+      [...jobStatuses.values()].filter((value) => value === status).length;
+    const newJobs = count("new");
+    const updatedJobs = count("updated");
+    this.logger.info(
+      `Job history: ${newJobs} new, ${updatedJobs} updated, ${count(
+        "repeat"
+      )} repeat`
+    );
+
+    return {
+      digest: {
+        ...digest,
         summary: {
-          totalJobs: stats.totalJobs,
-          newJobs: stats.newJobs,
-          sources: stats.sources,
-          avgMatchScore: stats.avgMatchScore,
+          ...digest.summary,
+          new_jobs: newJobs,
+          updated_jobs: updatedJobs,
         },
-      };
-    } catch (error) {
-      return {
-        valid: false,
-        error:
-          error instanceof Error ? error.message : "Unknown validation error",
-      };
+      },
+      jobStatuses,
+      historyEntries,
+    };
+  }
+
+  /**
+   * Post the issue, then send the digest to every other channel; a failing
+   * channel is logged and skipped, since the GitHub issue already exists
+   */
+  private async publish(
+    draft: IssueDraft,
+    pending: PendingPublication
+  ): Promise<UpsertIssueResult> {
+    const result = await this.issuePublisher.publish(draft);
+    const publication: DigestPublication = {
+      ...pending,
+      issue: { number: result.number, url: result.url },
+    };
+
+    for (const publisher of this.publishers) {
+      try {
+        await publisher.publish(publication);
+        this.logger.info(`📣 Sent digest to ${publisher.name}`);
+      } catch (error) {
+        this.logger.error(
+          `Failed to send digest to ${publisher.name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Remember the posted jobs once the digest is on GitHub
+   */
+  private async recordHistory(entries: JobHistoryEntry[]): Promise<void> {
+    if (!this.history || entries.length === 0) {
+      return;
     }
+
+    await this.history.saveEntries(entries);
+    this.logger.debug(`Recorded ${entries.length} job(s) in the job history`);
+  }
+
+  private logSummary(stats: DigestStats): void {
+    this.logger.info(
+      `📊 Summary: ${stats.totalJobs} jobs, avg match score: ${stats.avgMatchScore}`
+    );
+  }
+
+  /**
+   * Find the digest issue previously created for the same day and query
+   */
+  private async findDigestIssue(
+    digest: DigestResult,
+    options: CreateDigestIssueOptions
+  ): Promise<IssueDetails | undefined> {
+    const formatter = new IssueFormatter();
+    const key = formatter.digestKey(digest);
+
+    const issues = await this.listDigestIssues(
+      options.dedupeLookback || DEFAULT_DEDUPE_LOOKBACK
+    );
+
+    const existing = issues.find(
+      (issue) => formatter.extractDigestKey(issue.body) === key
+    );
+
+    this.logger.debug(
+      existing
+        ? `Found existing digest issue #${existing.number} for ${key}`
+        : `No existing digest issue for ${key}`
+    );
+
+    return existing;
+  }
+
+  /**
+   * Collect job ids embedded in recent digest issues
+   */
+  private async findPostedJobIds(
+    formatter: IssueFormatter,
+    lookback: number,
+    excludeIssueNumber?: number
+  ): Promise<Set<string>> {
+    const issues = (await this.listDigestIssues(lookback)).filter(
+      (issue) => issue.number !== excludeIssueNumber
+    );
+
+    const jobIds = new Set<string>();
+    for (const issue of issues) {
+      for (const jobId of [
+        ...formatter.extractJobIds(issue.body),
+        ...formatter.extractAlsoListedIds(issue.body),
+      ]) {
+        jobIds.add(jobId);
+      }
+    }
+
+    this.logger.debug(
+      `Found ${jobIds.size} posted job id(s) in ${issues.length} previous digest issue(s)`
+    );
+
+    return jobIds;
+  }
+
+  /**
+   * The `lookback` most recent digest issues, optionally with extra labels,
+   * fetched a page at a time since the API returns at most 100 per request
+   */
+  private async listDigestIssues(
+    lookback: number,
+    labels: string[] = []
+  ): Promise<IssueDetails[]> {
+    const perPage = Math.min(lookback, MAX_ISSUES_PER_PAGE);
+    const issues: IssueDetails[] = [];
+
+    for (let page = 1; issues.length < lookback; page++) {
+      const batch = await this.githubClient.listIssues({
+        labels: [DIGEST_LABEL, ...labels],
+        state: "all",
+        perPage,
+        page,
+      });
+      issues.push(...batch);
+
+      if (batch.length < perPage) {
+        break;
+      }
+    }
+
+    return issues.slice(0, lookback);
+  }
+
+  /**
+   * `/hide` and `/snooze` recorded in comments on recent digest issues
+   */
+  private async readCommands(
+    options: CreateDigestIssueOptions
+  ): Promise<RecordedCommands> {
+    const issues = await this.listDigestIssues(
+      options.dedupeLookback || DEFAULT_DEDUPE_LOOKBACK,
+      [COMMANDS_LABEL]
+    );
+
+    const comments: IssueComment[] = [];
+    for (const issue of issues) {
+      comments.push(...(await this.githubClient.listComments(issue.number)));
+    }
+
+    const commands = readRecordedCommands(comments);
+    this.logger.debug(
+      `Found ${commands.hidden.length} hidden job rule(s) on ${issues.length} digest issue(s)`
+    );
+    return commands;
+  }
+
+  /**
+   * Remove previously posted jobs and keep the summary count consistent
+   */
+  private skipPostedJobs(
+    digest: DigestResult,
+    postedJobIds: Set<string>
+  ): DigestResult {
+    const jobs = digest.jobs.filter((job) => !postedJobIds.has(job.id));
+    const skipped = digest.jobs.length - jobs.length;
+    const remaining = Math.max(0, digest.summary.total_jobs_found - skipped);
+
+    if (skipped === 0) {
+      return digest;
+    }
+
+    this.logger.info(`Skipping ${skipped} previously posted job(s)`);
+
+    return {
+      ...digest,
+      jobs,
+      summary: {
+        ...digest.summary,
+        total_jobs_found: remaining,
+        new_jobs: Math.min(digest.summary.new_jobs, remaining),
+      },
+    };
+  }
+
+  /**
+   * Fold listings of the same role from different sources into one job,
+   * counting the folded listings in `summary.duplicates_removed`
+   */
+  private mergeDuplicates(
+    digest: DigestResult,
+    mergeOptions: DuplicateMergeOptions
+  ): DigestResult {
+    const { jobs, removed } = new JobDeduplicator(mergeOptions).apply(
+      digest.jobs
+    );
+
+    if (removed === 0) {
+      return digest;
+    }
+
+    const remaining = Math.max(0, digest.summary.total_jobs_found - removed);
+    this.logger.info(
+      `Merged ${removed} duplicate listing(s) into ${
+        jobs.filter((job) => job.also_listed_on).length
+      } job(s)`
+    );
+
+    return {
+      ...digest,
+      jobs,
+      summary: {
+        ...digest.summary,
+        total_jobs_found: remaining,
+        new_jobs: Math.min(digest.summary.new_jobs, remaining),
+        duplicates_removed: digest.summary.duplicates_removed + removed,
+      },
+    };
+  }
+
+  /**
+   * Drop jobs that don't match the user's preferences, recording the active
+   * filters in `summary.filters_applied`
+   */
+  private applyPreferences(
+    digest: DigestResult,
+    preferences: JobPreferences
+  ): DigestResult {
+    const { jobs, rejected, applied } = new JobFilter(preferences).apply(
+      digest.jobs
+    );
+    const removed = digest.jobs.length - jobs.length;
+    const remaining = Math.max(0, digest.summary.total_jobs_found - removed);
+
+    for (const [rule, count] of Object.entries(rejected)) {
+      if (count > 0) {
+        this.logger.info(`Filter ${rule} removed ${count} job(s)`);
+      }
+    }
+
+    return {
+      ...digest,
+      jobs,
+      summary: {
+        ...digest.summary,
+        total_jobs_found: remaining,
+        new_jobs: Math.min(digest.summary.new_jobs, remaining),
+        filters_applied: { ...digest.summary.filters_applied, ...applied },
+      },
+    };
+  }
+
+  /**
+   * Validate digest JSON without creating an issue (useful for testing)
+   */
+  async validateDigest(digestJson: string): Promise<{
+    valid: boolean;
+    summary?: any;
+    report: ValidationReport;
+  }> {
+    const processor = new DigestProcessor();
+    const report = processor.validateJson(digestJson);
+
+    if (!report.valid) {
+      return { valid: false, report };
+    }
+
+    const stats = processor.getSummaryStats(JSON.parse(digestJson));
+
+    return {
+      valid: true,
+      summary: {
+        totalJobs: stats.totalJobs,
+        newJobs: stats.newJobs,
+        sources: stats.sources,
+        avgMatchScore: stats.avgMatchScore,
+      },
+      report,
+    };
   }
 }
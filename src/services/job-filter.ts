@@ -0,0 +1,184 @@
+import {
+  JobFilterResult,
+  JobFilterRule,
+  JobListing,
+  JobPreferences,
+} from "../types";
+import { annualSalary } from "./salary-parser";
+import { normalizeLabel } from "./text-utils";
+
+type RuleCheck = (job: JobListing) => boolean;
+
+/**
+ * Applies user preferences to parsed jobs
+ * Rules only reject on known values: a job without a salary, match score,
+ * experience level, job type or work mode passes the corresponding rule.
+ */
+export class JobFilter {
+  constructor(private preferences: JobPreferences) {}
+
+  /**
+   * Filter jobs, returning the kept jobs (in their original order) and how
+   * many jobs each active rule rejected
+   */
+  apply(jobs: JobListing[]): JobFilterResult {
+    const rules = this.activeRules();
+    const rejected: Partial<Record<JobFilterRule, number>> = {};
+    const applied: Partial<Record<JobFilterRule, unknown>> = {};
+
+    for (const [rule, , setting] of rules) {
+      rejected[rule] = 0;
+      applied[rule] = setting;
+    }
+
+    const kept = jobs.filter((job) => {
+      const failed = rules.find(([, check]) => !check(job));
+      if (failed) {
+        rejected[failed[0]]! += 1;
+        return false;
+      }
+      return true;
+    });
+
+    const { maxJobsPerDigest } = this.preferences;
+    if (maxJobsPerDigest === undefined) {
+      return { jobs: kept, rejected, applied };
+    }
+
+    const capped = this.topByMatchScore(kept, Math.max(0, maxJobsPerDigest));
+    rejected.max_jobs_per_digest = kept.length - capped.length;
+    applied.max_jobs_per_digest = maxJobsPerDigest;
+
+    return { jobs: capped, rejected, applied };
+  }
+
+  /**
+   * Per-job rules for the configured preferences, in evaluation order
+   */
+  private activeRules(): [JobFilterRule, RuleCheck, unknown][] {
+    const {
+      excludeCompanies,
+      minMatchScore,
+      salaryMin,
+      experienceLevels,
+      jobTypes,
+      workModes,
+      hidden,
+    } = this.preferences;
+    const rules: [JobFilterRule, RuleCheck, unknown][] = [];
+
+    if (excludeCompanies && excludeCompanies.length > 0) {
+      const excluded = new Set(excludeCompanies.map(normalizeLabel));
+      rules.push([
+        "exclude_companies",
+        (job) => !excluded.has(normalizeLabel(job.company)),
+        excludeCompanies,
+      ]);
+    }
+
+    if (minMatchScore !== undefined) {
+      rules.push([
+        "min_match_score",
+        (job) =>
+          job.match_score === undefined ||
+          job.match_score === null ||
+          job.match_score >= minMatchScore,
+        minMatchScore,
+      ]);
+    }
+
+    if (salaryMin !== undefined) {
+      rules.push([
+        "salary_min",
+        (job) => {
+          const top = annualSalary(job.salary);
+          return top === undefined || top >= salaryMin;
+        },
+        salaryMin,
+      ]);
+    }
+
+    if (experienceLevels && experienceLevels.length > 0) {
+      rules.push([
+        "experience_levels",
+        matchesOneOf((job) => job.experience_level, experienceLevels),
+        experienceLevels,
+      ]);
+    }
+
+    if (jobTypes && jobTypes.length > 0) {
+      rules.push([
+        "job_types",
+        matchesOneOf((job) => job.job_type, jobTypes),
+        jobTypes,
+      ]);
+    }
+
+    if (workModes && workModes.length > 0) {
+      rules.push([
+        "work_modes",
+        (job) =>
+          job.work_mode === undefined || workModes.includes(job.work_mode),
+        workModes,
+      ]);
+    }
+
+    if (hidden && hidden.length > 0) {
+      const keys = new Set(hidden.map(hideKey));
+      rules.push([
+        "hidden",
+        (job) => !jobHideKeys(job).some((key) => keys.has(key)),
+        hidden,
+      ]);
+    }
+
+    return rules;
+  }
+
+  /**
+   * Keep the `limit` best-matching jobs without reordering them
+   */
+  private topByMatchScore(jobs: JobListing[], limit: number): JobListing[] {
+    if (jobs.length <= limit) {
+      return jobs;
+    }
+
+    const best = new Set(
+      [...jobs]
+        .sort((a, b) => (b.match_score || 0) - (a.match_score || 0))
+        .slice(0, limit)
+    );
+
+    return jobs.filter((job) => best.has(job));
+  }
+}
+
+function matchesOneOf(
+  field: (job: JobListing) => string | undefined,
+  accepted: string[]
+): RuleCheck {
+  const allowed = new Set(accepted.map(normalizeLabel));
+  return (job) => {
+    const value = field(job);
+    return !value || allowed.has(normalizeLabel(value));
+  };
+}
+
+/**
+ * Canonical `/hide` key: job ids compare exactly, names like `normalizeLabel`
+ */
+function hideKey(key: string): string {
+  const separator = key.indexOf(":");
+  const field = key.slice(0, separator).trim().toLowerCase();
+  const value = key.slice(separator + 1);
+  return field === "job" ? `job:${value}` : `${field}:${normalizeLabel(value)}`;
+}
+
+function jobHideKeys(job: JobListing): string[] {
+  return [
+    `job:${job.id}`,
+    `company:${normalizeLabel(job.company)}`,
+    `source:${normalizeLabel(job.source)}`,
+    ...(job.location ? [`location:${normalizeLabel(job.location)}`] : []),
+  ];
+}
@@ -0,0 +1,57 @@
+// Classifying digest jobs against the jobs earlier digests posted
+
+import { createHash } from "crypto";
+import { JobHistoryEntry, JobHistoryStatus, JobListing } from "../types";
+
+/**
+ * Hash of the fields whose change makes a repeat job "updated"
+ * Whitespace differences are ignored.
+ */
+export function jobContentHash(job: JobListing): string {
+  const fields = [job.salary, job.description].map((value) =>
+    (value ?? "").trim().replace(/\s+/g, " ")
+  );
+
+  return createHash("sha256")
+    .update(JSON.stringify(fields))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Status of a job given its history entry; a re-run of the digest that last
+ * posted the job keeps the status it had then
+ */
+export function classifyJob(
+  job: JobListing,
+  entry: JobHistoryEntry | undefined,
+  digestKey: string
+): JobHistoryStatus {
+  if (!entry) {
+    return "new";
+  }
+  if (entry.contentHash !== jobContentHash(job)) {
+    return "updated";
+  }
+  return entry.digestKey === digestKey ? entry.status : "repeat";
+}
+
+/**
+ * History entry recording that `job` was posted with `status` at `now`
+ */
+export function toHistoryEntry(
+  job: JobListing,
+  status: JobHistoryStatus,
+  digestKey: string,
+  now: string,
+  previous?: JobHistoryEntry
+): JobHistoryEntry {
+  return {
+    job,
+    contentHash: jobContentHash(job),
+    status,
+    digestKey,
+    firstSeenAt: previous?.firstSeenAt ?? now,
+    lastSeenAt: now,
+  };
+}
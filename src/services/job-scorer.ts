@@ -0,0 +1,308 @@
+import {
+  JobListing,
+  JobScore,
+  ScoringCriterion,
+  ScoringOptions,
+  ScoringProfile,
+  ScoringWeights,
+  SearchQuery,
+  WorkMode,
+} from "../types";
+import { detectWorkMode } from "./location-normalizer";
+import { formatAmount, parseSalary } from "./salary-parser";
+import { normalizeLabel, words } from "./text-utils";
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  keywords: 0.35,
+  location: 0.15,
+  salary: 0.15,
+  remote: 0.1,
+  tags: 0.1,
+  experience: 0.15,
+};
+
+/** Score given to a criterion the job has no data for */
+const UNKNOWN = 0.5;
+/** Criteria scoring at least this much are listed as match reasons */
+const REASON_THRESHOLD = 0.75;
+/** Matching this many preferred tags earns the full tag score */
+const FULL_TAG_MATCHES = 3;
+
+type CriterionResult = { score: number; reason?: string } | undefined;
+
+/** Hybrid work counts as halfway to remote */
+const WORK_MODE_SCORES: Record<WorkMode, CriterionResult> = {
+  remote: { score: 1, reason: "Remote work available" },
+  hybrid: { score: 0.5 },
+  onsite: { score: 0 },
+};
+
+/**
+ * Computes `match_score` and `match_reasons` from the user's profile
+ * Each criterion the profile sets is scored 0-1 and the score is their
+ * weighted average; criteria the job has no data for count as neutral.
+ */
+export class JobScorer {
+  private readonly weights: ScoringWeights;
+
+  constructor(private options: ScoringOptions) {
+    this.weights = { ...DEFAULT_SCORING_WEIGHTS, ...options.weights };
+  }
+
+  /**
+   * Score jobs (only unscored ones in "fill" mode), returning new job objects
+   * and how many were scored. The query's keywords and location count as
+   * part of the profile.
+   */
+  apply(
+    jobs: JobListing[],
+    query?: SearchQuery
+  ): { jobs: JobListing[]; scored: number } {
+    const profile = withQuery(this.options.profile, query);
+    const override = this.options.mode === "override";
+    let scored = 0;
+
+    const result = jobs.map((job) => {
+      if (
+        !override &&
+        job.match_score !== undefined &&
+        job.match_score !== null
+      ) {
+        return job;
+      }
+
+      const score = this.score(job, profile);
+      if (!score) {
+        return job;
+      }
+
+      scored++;
+      return {
+        ...job,
+        match_score: score.score,
+        match_reasons:
+          override || !job.match_reasons?.length
+            ? score.reasons
+            : job.match_reasons,
+      };
+    });
+
+    return { jobs: result, scored };
+  }
+
+  /**
+   * Score one job; undefined when the profile sets no weighted criteria
+   */
+  score(
+    job: JobListing,
+    profile: ScoringProfile = this.options.profile
+  ): JobScore | undefined {
+    const results: [ScoringCriterion, CriterionResult][] = [
+      ["keywords", scoreKeywords(job, profile.keywords ?? [])],
+      ["location", scoreLocation(job, profile.locations ?? [])],
+      ["salary", scoreSalary(job, profile.salaryMin)],
+      ["remote", scoreRemote(job, remotePreferred(profile))],
+      ["tags", scoreTags(job, profile.tags ?? [])],
+      ["experience", scoreExperience(job, profile.experienceLevels ?? [])],
+    ];
+
+    const criteria: Partial<Record<ScoringCriterion, number>> = {};
+    const reasons: string[] = [];
+    let total = 0;
+    let weightSum = 0;
+
+    for (const [criterion, result] of results) {
+      const weight = this.weights[criterion];
+      if (!result || weight <= 0) {
+        continue;
+      }
+
+      criteria[criterion] = result.score;
+      total += result.score * weight;
+      weightSum += weight;
+      if (result.reason && result.score >= REASON_THRESHOLD) {
+        reasons.push(result.reason);
+      }
+    }
+
+    if (weightSum === 0) {
+      return undefined;
+    }
+
+    return {
+      score: Math.round((total / weightSum) * 100) / 100,
+      reasons,
+      criteria,
+    };
+  }
+}
+
+/**
+ * Each keyword scores 1 in the title, 0.5 elsewhere in the listing
+ */
+function scoreKeywords(job: JobListing, keywords: string[]): CriterionResult {
+  if (keywords.length === 0) {
+    return undefined;
+  }
+
+  const title = job.title.toLowerCase();
+  const body = [job.description, job.requirements, ...(job.tags ?? [])]
+    .join(" ")
+    .toLowerCase();
+  const matched: string[] = [];
+  let total = 0;
+
+  for (const keyword of keywords) {
+    const needle = keyword.toLowerCase();
+    if (title.includes(needle)) {
+      total += 1;
+      matched.push(keyword);
+    } else if (body.includes(needle)) {
+      total += 0.5;
+      matched.push(keyword);
+    }
+  }
+
+  return {
+    score: total / keywords.length,
+    reason: `Matches ${matched.map((keyword) => `"${keyword}"`).join(", ")}`,
+  };
+}
+
+function scoreLocation(job: JobListing, locations: string[]): CriterionResult {
+  if (locations.length === 0) {
+    return undefined;
+  }
+  if (!job.location) {
+    return { score: UNKNOWN };
+  }
+
+  const jobWords = words(job.location);
+  const match = locations.find((location) =>
+    words(location).every((word) => jobWords.includes(word))
+  );
+
+  return match
+    ? { score: 1, reason: `Located in ${job.location}` }
+    : { score: 0 };
+}
+
+/**
+ * Full score at or above the minimum, falling off linearly below it
+ */
+function scoreSalary(job: JobListing, salaryMin?: number): CriterionResult {
+  if (salaryMin === undefined || salaryMin <= 0) {
+    return undefined;
+  }
+
+  const salary = job.salary ? parseSalary(job.salary) : undefined;
+  if (!salary) {
+    return { score: UNKNOWN };
+  }
+
+  return salary.annualMax >= salaryMin
+    ? {
+        score: 1,
+        reason: `Salary meets ${formatAmount(
+          salaryMin,
+          salary.currency
+        )} minimum`,
+      }
+    : { score: Math.max(0, salary.annualMax / salaryMin) };
+}
+
+function scoreRemote(job: JobListing, preferred: boolean): CriterionResult {
+  if (!preferred) {
+    return undefined;
+  }
+
+  const workMode =
+    job.work_mode ??
+    detectWorkMode(job.location) ??
+    (job.remote_option === undefined
+      ? undefined
+      : job.remote_option
+      ? "remote"
+      : "onsite");
+  if (workMode === undefined) {
+    return { score: UNKNOWN };
+  }
+
+  return WORK_MODE_SCORES[workMode];
+}
+
+function scoreTags(job: JobListing, tags: string[]): CriterionResult {
+  if (tags.length === 0) {
+    return undefined;
+  }
+  if (!job.tags || job.tags.length === 0) {
+    return { score: UNKNOWN };
+  }
+
+  const jobTags = new Set(job.tags.map((tag) => tag.trim().toLowerCase()));
+  const matched = tags.filter((tag) => jobTags.has(tag.trim().toLowerCase()));
+
+  return {
+    score: Math.min(
+      1,
+      matched.length / Math.min(FULL_TAG_MATCHES, tags.length)
+    ),
+    reason: `Skills: ${matched.join(", ")}`,
+  };
+}
+
+function scoreExperience(job: JobListing, levels: string[]): CriterionResult {
+  if (levels.length === 0) {
+    return undefined;
+  }
+  if (!job.experience_level) {
+    return { score: UNKNOWN };
+  }
+
+  const level = normalizeLabel(job.experience_level);
+  return levels.some((accepted) => normalizeLabel(accepted) === level)
+    ? { score: 1, reason: `${job.experience_level} level` }
+    : { score: 0 };
+}
+
+function withQuery(
+  profile: ScoringProfile,
+  query?: SearchQuery
+): ScoringProfile {
+  if (!query) {
+    return profile;
+  }
+
+  const queryKeywords = query.keywords
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+  return {
+    ...profile,
+    keywords: unique([...(profile.keywords ?? []), ...queryKeywords]),
+    locations: unique([
+      ...(profile.locations ?? []),
+      ...(query.location ? [query.location] : []),
+    ]),
+  };
+}
+
+function remotePreferred(profile: ScoringProfile): boolean {
+  return (
+    profile.remotePreferred ??
+    (profile.locations ?? []).some((location) => /\bremote\b/i.test(location))
+  );
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
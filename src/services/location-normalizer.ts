@@ -0,0 +1,276 @@
+// Splitting free-form locations and detecting remote / hybrid / on-site work
+
+import { JobListing, ParsedLocation, WorkMode } from "../types";
+
+/** Loose patterns for location text such as "San Francisco (Remote OK)" */
+const LOCATION_WORK_MODES: [WorkMode, RegExp][] = [
+  ["hybrid", /\bhybrid\b/i],
+  ["onsite", /\bon[- ]?site\b|\bin[- ]office\b|\b(?:not|no|non)[- ]remote\b/i],
+  ["remote", /\bremote\b|\banywhere\b|\bwork from home\b|\bwfh\b/i],
+];
+
+/**
+ * Stricter patterns for descriptions, where "remote" or "on-site" alone often
+ * refers to something else ("remote teams", "on-site interviews")
+ */
+const DESCRIPTION_WORK_MODES: [WorkMode, RegExp][] = [
+  ["hybrid", /\bhybrid\b/i],
+  [
+    "onsite",
+    /\b(?:not|no|non)[- ]remote\b|\b(?:on[- ]?site|in[- ]office|office[- ]based)\s+(?:role|position|job)\b|\bfully\s+on[- ]?site\b/i,
+  ],
+  [
+    "remote",
+    /\bfully\s+remote\b|\bremote[- ]first\b|\bremote\s+(?:role|position|job|opportunity)\b|\bwork(?:ing)?\s+remotely\b|\bwork\s+from\s+(?:home|anywhere)\b/i,
+  ],
+];
+
+/**
+ * Work mode words and filler dropped before splitting a location, together
+ * with a negation ("Not remote") and the connectors joining them to a place
+ * ("Remote or Austin"); "OK" only goes with a work mode so Oklahoma survives
+ */
+const WORK_MODE_WORDS =
+  /(?:\s*(?:\bor\b|\band\b|&|\+)\s*)?\b(?:(?:not|no|non)[- ])?(?:fully\s+)?(?:remote|hybrid|on[- ]?site|in[- ]office|work from home|wfh)(?:[- ](?:ok|friendly|first|possible|available))?\b(?:\s*(?:\bor\b|\band\b|&|\+)(?=\s))?|\banywhere\b|\bonly\b/gi;
+
+const WORK_MODE_LABELS: Record<WorkMode, string> = {
+  remote: "Remote",
+  hybrid: "Hybrid",
+  onsite: "On-site",
+};
+
+const US = "United States";
+
+const COUNTRIES: Record<string, string> = {
+  us: US,
+  usa: US,
+  "u.s.": US,
+  "u.s.a.": US,
+  "united states": US,
+  "united states of america": US,
+  uk: "United Kingdom",
+  "u.k.": "United Kingdom",
+  "united kingdom": "United Kingdom",
+  "great britain": "United Kingdom",
+  england: "United Kingdom",
+  canada: "Canada",
+  germany: "Germany",
+  deutschland: "Germany",
+  france: "France",
+  spain: "Spain",
+  italy: "Italy",
+  netherlands: "Netherlands",
+  "the netherlands": "Netherlands",
+  ireland: "Ireland",
+  portugal: "Portugal",
+  poland: "Poland",
+  sweden: "Sweden",
+  switzerland: "Switzerland",
+  australia: "Australia",
+  "new zealand": "New Zealand",
+  india: "India",
+  japan: "Japan",
+  singapore: "Singapore",
+  brazil: "Brazil",
+  mexico: "Mexico",
+  europe: "Europe",
+  emea: "EMEA",
+  worldwide: "Worldwide",
+  global: "Worldwide",
+  // ISO 3166 codes
+  gb: "United Kingdom",
+  ca: "Canada",
+  de: "Germany",
+  fr: "France",
+  es: "Spain",
+  it: "Italy",
+  nl: "Netherlands",
+  ie: "Ireland",
+  pt: "Portugal",
+  pl: "Poland",
+  se: "Sweden",
+  ch: "Switzerland",
+  au: "Australia",
+  nz: "New Zealand",
+  in: "India",
+  jp: "Japan",
+  sg: "Singapore",
+  br: "Brazil",
+  mx: "Mexico",
+};
+
+/**
+ * Country codes that are also US state codes and, straight after a city, far
+ * more often mean the state ("San Francisco, CA", "Indianapolis, IN")
+ */
+const STATE_FIRST_CODES = new Set(["ca", "in"]);
+
+const US_STATES: Record<string, string> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  "district of columbia": "DC",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+};
+
+const US_STATE_CODES = new Set(Object.values(US_STATES));
+
+/**
+ * Split a location such as "San Francisco, CA (Hybrid)" or "Remote - UK"
+ * into city, region and country, with the work mode it mentions
+ * Countries are read first; a US state (name or two-letter code) is only read
+ * when no other country is named, and implies the United States.
+ */
+export function parseLocation(text: string): ParsedLocation {
+  const parsed: ParsedLocation = {};
+  const workMode = detectWorkMode(text);
+  if (workMode) {
+    parsed.workMode = workMode;
+  }
+
+  const parts = text
+    .replace(WORK_MODE_WORDS, ",")
+    .split(/[,;()|/]|\s[-–]\s/)
+    .map((part) => part.replace(/\s+/g, " ").replace(/^[\s-]+|[\s-]+$/g, ""))
+    .filter(Boolean);
+
+  const last = parts.length > 0 ? parts[parts.length - 1].toLowerCase() : "";
+  const country =
+    parts.length <= 2 && STATE_FIRST_CODES.has(last) ? "" : COUNTRIES[last];
+  if (country) {
+    parsed.country = country;
+    parts.pop();
+  }
+
+  const region =
+    parts.length > 0 && (!parsed.country || parsed.country === US)
+      ? stateCode(parts[parts.length - 1])
+      : "";
+  if (region) {
+    parsed.region = region;
+    parsed.country = parsed.country ?? US;
+    parts.pop();
+  }
+
+  if (parts.length > 0) {
+    parsed.city = parts[0];
+  }
+  if (parts.length > 1 && !parsed.region) {
+    parsed.region = parts[1];
+  }
+
+  return parsed;
+}
+
+/**
+ * Work mode named in a location, or failing that in a description
+ */
+export function detectWorkMode(
+  location?: string,
+  description?: string
+): WorkMode | undefined {
+  return (
+    matchWorkMode(location, LOCATION_WORK_MODES) ??
+    matchWorkMode(description, DESCRIPTION_WORK_MODES)
+  );
+}
+
+/**
+ * One consistent spelling of a location, e.g. "San Francisco, CA, United States"
+ * for both "San Francisco, California, USA" and "San Francisco, CA"
+ */
+export function formatLocation(location: ParsedLocation): string {
+  const place = [location.city, location.region, location.country]
+    .filter(Boolean)
+    .join(", ");
+  const mode = location.workMode && WORK_MODE_LABELS[location.workMode];
+
+  if (!mode) {
+    return place;
+  }
+  return place ? `${place} (${mode})` : mode;
+}
+
+/**
+ * Fill a job's unset `work_mode` and `remote_option` from its location and
+ * description; values already on the job are kept
+ */
+export function normalizeJobLocation(job: JobListing): JobListing {
+  const workMode =
+    job.work_mode ??
+    detectWorkMode(job.location, job.description) ??
+    (job.remote_option ? "remote" : undefined);
+  if (!workMode) {
+    return job;
+  }
+
+  return {
+    ...job,
+    work_mode: workMode,
+    remote_option: job.remote_option ?? workMode === "remote",
+  };
+}
+
+function matchWorkMode(
+  text: string | undefined,
+  patterns: [WorkMode, RegExp][]
+): WorkMode | undefined {
+  if (!text) {
+    return undefined;
+  }
+  return patterns.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+function stateCode(part: string): string | undefined {
+  const code = part.toUpperCase();
+  if (US_STATE_CODES.has(code)) {
+    return code;
+  }
+  return US_STATES[part.toLowerCase()];
+}
@@ -0,0 +1,78 @@
+import {
+  DigestDocument,
+  DigestResult,
+  DocumentFormatOptions,
+  JobListing,
+} from "../types";
+import { defaultTemplate } from "./default-template";
+import {
+  formatDate,
+  jobHighlights,
+  jobStatus,
+  sortJobs,
+  summaryLine,
+  truncateDescription,
+} from "./format-utils";
+
+const DESCRIPTION_PREVIEW_LENGTH = 300;
+const INDENT = "   ";
+
+/**
+ * Renders a digest as plain text, the alternative part of an HTML email and
+ * a readable archive on its own
+ */
+export class PlainTextFormatter {
+  format(
+    digest: DigestResult,
+    options: DocumentFormatOptions = {}
+  ): DigestDocument {
+    const title = options.title ?? defaultTemplate.title(digest.summary);
+    const jobs = sortJobs(digest.jobs, options.sortBy);
+    const lines = [title, "=".repeat(title.length), ""];
+
+    lines.push(summaryLine(digest.summary), "");
+
+    if (jobs.length === 0) {
+      lines.push("No jobs matched your search criteria this time.", "");
+    }
+    jobs.forEach((job, index) => {
+      lines.push(...this.jobLines(job, index + 1, options), "");
+    });
+
+    if (options.issueUrl) {
+      lines.push(`Full digest: ${options.issueUrl}`);
+    }
+    lines.push(`Generated ${digest.metadata.generated_at}`, "");
+
+    return { title, body: lines.join("\n") };
+  }
+
+  private jobLines(
+    job: JobListing,
+    index: number,
+    options: DocumentFormatOptions
+  ): string[] {
+    const lines = [`${index}. ${job.title} at ${job.company}`];
+
+    const highlights = jobHighlights(job, jobStatus(job, options));
+    if (highlights.length > 0) {
+      lines.push(`${INDENT}${highlights.join(" • ")}`);
+    }
+    lines.push(`${INDENT}Posted: ${formatDate(job.posted_date)}`);
+
+    const description = truncateDescription(
+      oneLine(job.description),
+      DESCRIPTION_PREVIEW_LENGTH
+    );
+    if (description) {
+      lines.push(`${INDENT}${description}`);
+    }
+    lines.push(`${INDENT}Apply: ${job.url}`);
+
+    return lines;
+  }
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
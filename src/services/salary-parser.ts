@@ -0,0 +1,238 @@
+// Parsing free-form salary strings into structured, annualized ranges
+
+import { ParsedSalary, SalaryPeriod } from "../types";
+
+/** Working time used to annualize hourly, daily, weekly and monthly pay */
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+const PERIOD_PATTERNS: [SalaryPeriod, RegExp][] = [
+  ["hour", /(?:\/|\bper\s+|\ban?\s+)(?:hour|hr|h)\b|\bhourly\b|\bp\.?h\b/i],
+  ["day", /(?:\/|\bper\s+|\ban?\s+)(?:day|d)\b|\bdaily\b|\bp\.?d\b/i],
+  ["week", /(?:\/|\bper\s+|\ban?\s+)(?:week|wk|w)\b|\bweekly\b|\bp\.?w\b/i],
+  ["month", /(?:\/|\bper\s+|\ban?\s+)(?:month|mo)\b|\bmonthly\b|\bpcm\b/i],
+  [
+    "year",
+    /(?:\/|\bper\s+|\ban?\s+)(?:year|yr|annum)\b|\bannual(?:ly)?\b|\byearly\b|\bp\.?a\b/i,
+  ],
+];
+
+/** Symbols checked longest first so "CA$" is not read as "$" */
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["AU$", "AUD"],
+  ["A$", "AUD"],
+  ["$", "USD"],
+  ["£", "GBP"],
+  ["€", "EUR"],
+  ["₹", "INR"],
+  ["¥", "JPY"],
+];
+
+const CURRENCY_CODES = [
+  "USD",
+  "GBP",
+  "EUR",
+  "CAD",
+  "AUD",
+  "INR",
+  "JPY",
+  "CHF",
+  "SEK",
+  "NZD",
+];
+
+const DISPLAY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  GBP: "£",
+  EUR: "€",
+  INR: "₹",
+  JPY: "¥",
+};
+
+/** Digits with "," "." or space separators, read by `readNumber` */
+const AMOUNT_PATTERN =
+  /(\d+(?:[.,]\d+|[ \u00a0\u202f]\d{3}(?!\d))*)\s*([kKmM])?(?![\d.,%])/g;
+const MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+/**
+ * Extras after the first "+" such as "+ equity" or "+ 401(k)", kept when
+ * displaying; a bare amount ("+ 10k") is part of the pay
+ */
+const EXTRAS_PATTERN = /^([^+]*?)\s*\+\s*(?!\d[\d.,]*\s*[kKmM]?$)(\S.*)$/;
+
+/** A segment naming a one-off payment, which is an extra wherever it appears */
+const BONUS_PATTERN =
+  /\b(?:bonus|signing|sign[- ]on|joining|relocation|stipend)\b/i;
+
+/** Without an explicit period, amounts below this are taken as hourly */
+const HOURLY_THRESHOLD = 1000;
+
+/**
+ * Parse a salary string such as "$90,000 - $120,000", "£50k–60k",
+ * "80-100K USD", "€45.000 - €55.000" or "$45/hr"; undefined when it holds
+ * no amount or an amount that could be read more than one way
+ */
+export function parseSalary(text: string): ParsedSalary | undefined {
+  const amounts = readAmounts(splitExtras(text).pay);
+  if (!amounts || amounts.length === 0) {
+    return undefined;
+  }
+
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  const period =
+    PERIOD_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ??
+    (max < HOURLY_THRESHOLD ? "hour" : "year");
+  const perYear = PERIODS_PER_YEAR[period];
+
+  return {
+    min,
+    max,
+    currency: readCurrency(text),
+    period,
+    annualMin: Math.round(min * perYear),
+    annualMax: Math.round(max * perYear),
+  };
+}
+
+/**
+ * Top of the annualized range of a job's salary, for filtering and sorting
+ */
+export function annualSalary(salary: string | undefined): number | undefined {
+  return salary ? parseSalary(salary)?.annualMax : undefined;
+}
+
+/**
+ * Display a salary consistently: "$90,000 - $120,000" for annual pay and
+ * "$45/hour (≈ $93,600/year)" otherwise, keeping extras like "+ equity";
+ * unreadable strings are kept as-is
+ */
+export function formatSalary(salary: string): string {
+  const parsed = parseSalary(salary);
+  if (!parsed) {
+    return salary;
+  }
+
+  const { min, max, currency, period, annualMin, annualMax } = parsed;
+  const range = (low: number, high: number) =>
+    low === high
+      ? formatAmount(low, currency)
+      : `${formatAmount(low, currency)} - ${formatAmount(high, currency)}`;
+
+  const { extras } = splitExtras(salary);
+  const suffix = extras ? ` + ${extras}` : "";
+
+  if (period === "year") {
+    return `${range(min, max)}${suffix}`;
+  }
+  return `${range(min, max)}/${period} (≈ ${range(
+    annualMin,
+    annualMax
+  )}/year)${suffix}`;
+}
+
+/**
+ * Split the pay from extras after a "+"; a bonus before the "+", as in
+ * "$1,000 signing + $120k", is an extra and the pay follows it
+ */
+function splitExtras(text: string): { pay: string; extras?: string } {
+  const match = EXTRAS_PATTERN.exec(text.trim());
+  if (!match) {
+    return { pay: text };
+  }
+
+  const [, pay, extras] = match;
+  if (!BONUS_PATTERN.test(pay)) {
+    return { pay, extras: extras.trim() };
+  }
+
+  const rest = splitExtras(extras);
+  return {
+    pay: rest.pay,
+    extras: [pay.trim(), rest.extras].filter(Boolean).join(" + "),
+  };
+}
+
+/**
+ * Amounts with "k"/"m" applied; a suffix on the last amount also applies to
+ * bare ones before it ("80-100K" is 80,000 to 100,000)
+ */
+function readAmounts(text: string): number[] | undefined {
+  const matches = [...text.matchAll(AMOUNT_PATTERN)].map(
+    ([, digits, suffix]) => ({
+      value: readNumber(digits),
+      suffix: suffix?.toLowerCase(),
+    })
+  );
+  if (matches.some(({ value }) => value === undefined)) {
+    return undefined;
+  }
+  const shared =
+    matches.length > 0 ? matches[matches.length - 1].suffix : undefined;
+
+  return matches.map(({ value = 0, suffix }) => {
+    const applied = suffix ?? (shared && value < 1000 ? shared : undefined);
+    return value * (applied ? MULTIPLIERS[applied] : 1);
+  });
+}
+
+/**
+ * "120,000", "45.000" and "45 000" group thousands while "12.50", "12,5"
+ * and "1.234,56" end in decimals; undefined when a separator could be either
+ */
+function readNumber(digits: string): number | undefined {
+  const separators = digits.replace(/\d/g, "").split("");
+  const groups = digits.split(/\D/);
+  if (separators.length === 0) {
+    return Number(digits);
+  }
+
+  const grouped = (seps: string[], parts: string[]) =>
+    new Set(seps).size <= 1 &&
+    parts[0].length <= 3 &&
+    parts[0] !== "0" &&
+    parts.slice(1).every((part) => part.length === 3);
+
+  if (grouped(separators, groups)) {
+    return Number(groups.join(""));
+  }
+
+  const decimal = separators[separators.length - 1];
+  const thousands = separators.slice(0, -1);
+  if (
+    (decimal === "." || decimal === ",") &&
+    !thousands.includes(decimal) &&
+    (thousands.length === 0 || grouped(thousands, groups.slice(0, -1)))
+  ) {
+    return Number(
+      `${groups.slice(0, -1).join("")}.${groups[groups.length - 1]}`
+    );
+  }
+  return undefined;
+}
+
+function readCurrency(text: string): string | undefined {
+  const code = CURRENCY_CODES.find((candidate) =>
+    new RegExp(`\\b${candidate}\\b`, "i").test(text)
+  );
+  if (code) {
+    return code;
+  }
+  return CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))?.[1];
+}
+
+export function formatAmount(amount: number, currency?: string): string {
+  const digits = amount.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  if (!currency) {
+    return digits;
+  }
+  const symbol = DISPLAY_SYMBOLS[currency];
+  return symbol ? `${symbol}${digits}` : `${currency} ${digits}`;
+}
@@ -0,0 +1,129 @@
+import { DigestPublication } from "../interfaces";
+import {
+  ChatFormatOptions,
+  JobHistoryStatus,
+  JobListing,
+  SlackBlock,
+  SlackMessage,
+} from "../types";
+import {
+  jobHighlights,
+  summaryLine,
+  truncateDescription,
+} from "./format-utils";
+
+const DEFAULT_MAX_JOBS = 20;
+/** Slack allows 50 blocks per message; four go to the header and links */
+const MAX_JOBS = 46;
+const MAX_HEADER_LENGTH = 150;
+const MAX_SECTION_LENGTH = 3000;
+
+/**
+ * Renders a posted digest as a Slack Block Kit message: a header, the
+ * summary, one section per job with an Apply button and a link to the issue
+ */
+export class SlackFormatter {
+  private readonly maxJobs: number;
+
+  constructor(options: ChatFormatOptions = {}) {
+    this.maxJobs = Math.min(options.maxJobs ?? DEFAULT_MAX_JOBS, MAX_JOBS);
+  }
+
+  format(publication: DigestPublication): SlackMessage {
+    const { title, digest, issue, jobStatuses } = publication;
+    const shown = digest.jobs.slice(0, this.maxJobs);
+    const hidden = digest.jobs.length - shown.length;
+
+    const blocks: SlackBlock[] = [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: truncateDescription(title, MAX_HEADER_LENGTH - 3),
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          { type: "mrkdwn", text: escape(summaryLine(digest.summary)) },
+        ],
+      },
+      ...shown.map(
+        (job, index): SlackBlock => ({
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: truncateDescription(
+              jobText(job, index + 1, jobStatuses?.get(job.id)),
+              MAX_SECTION_LENGTH - 3
+            ),
+          },
+          accessory: {
+            type: "button",
+            text: { type: "plain_text", text: "Apply" },
+            url: job.url,
+          },
+        })
+      ),
+    ];
+
+    if (hidden > 0) {
+      blocks.push({
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `…and ${hidden} more job${hidden === 1 ? "" : "s"} in <${
+              issue.url
+            }|the digest issue>`,
+          },
+        ],
+      });
+    }
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: `Open issue #${issue.number}` },
+          url: issue.url,
+        },
+      ],
+    });
+
+    return { text: `${title}: ${summaryLine(digest.summary)}`, blocks };
+  }
+}
+
+function jobText(
+  job: JobListing,
+  index: number,
+  status?: JobHistoryStatus
+): string {
+  const heading = `*${index}. <${linkUrl(job.url)}|${escape(job.title).replace(
+    /\|/g,
+    "-"
+  )}>* at ${escape(job.company)}`;
+  const highlights = jobHighlights(job, status);
+
+  return highlights.length > 0
+    ? `${heading}\n${escape(highlights.join(" • "))}`
+    : heading;
+}
+
+/**
+ * Percent-encode the characters that would end a `<url|text>` link early
+ */
+function linkUrl(url: string): string {
+  return url.replace(/\|/g, "%7C").replace(/>/g, "%3E").replace(/</g, "%3C");
+}
+
+/**
+ * Escape the characters Slack mrkdwn treats as control characters
+ */
+function escape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,21 @@
+// Normalizing free text for comparisons shared by the filter, scorer and deduplicator
+
+/**
+ * Lower-cased words, keeping "+" and "#" so "C++" and "C#" survive
+ */
+export function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Compare labels ignoring case, spacing and hyphenation ("Mid Level" = "mid-level")
+ */
+export function normalizeLabel(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "-");
+}
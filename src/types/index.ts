@@ -36,9 +36,19 @@ export interface JobListing {
   job_type?: string;
   experience_level?: string;
   remote_option?: boolean;
+  /** Remote, hybrid or on-site; filled from the location and description */
+  work_mode?: WorkMode;
   tags?: string[];
   match_score?: number;
   match_reasons?: string[];
+  /** Other sources posting the same role, set when duplicates are merged */
+  also_listed_on?: JobSourceLink[];
+}
+
+export interface JobSourceLink {
+  id: string;
+  source: string;
+  url: string;
 }
 
 export interface ProcessingMetadata {
@@ -61,13 +71,575 @@ export interface IssueContent {
   body: string;
 }
 
+/**
+ * Issue content split to respect GitHub's body size limit
+ * `comments` holds overflow parts 2..n, to be posted in order
+ */
+export interface PaginatedIssueContent extends IssueContent {
+  comments: string[];
+}
+
+// Salary types
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+export interface ParsedSalary {
+  /** Bounds as written, in `period` units */
+  min: number;
+  max: number;
+  /** ISO 4217 code, when a symbol or code is present */
+  currency?: string;
+  period: SalaryPeriod;
+  annualMin: number;
+  annualMax: number;
+}
+
+// Location types
+export type WorkMode = "remote" | "hybrid" | "onsite";
+
+export interface ParsedLocation {
+  city?: string;
+  /** US state code ("CA") or the region as written */
+  region?: string;
+  country?: string;
+  workMode?: WorkMode;
+}
+
+// Validation types
+export interface ValidationIssue {
+  /** JSON path of the offending value, e.g. `$.jobs[3].description` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+}
+
+/**
+ * How invalid job listings are handled when parsing a digest
+ * - strict: reject the whole digest (default)
+ * - lenient: drop the invalid listings and post the rest
+ */
+export type ValidationMode = "strict" | "lenient";
+
+/** A job listing quarantined by lenient parsing */
+export interface SkippedListing {
+  /** Position of the listing in the original `jobs` array */
+  index: number;
+  id?: string;
+  title?: string;
+  errors: ValidationIssue[];
+}
+
+export interface LenientParseResult {
+  digest: DigestResult;
+  skipped: SkippedListing[];
+}
+
+// Application tracking types
+export type ApplicationStatus =
+  | "interested"
+  | "applied"
+  | "interviewing"
+  | "offer"
+  | "rejected";
+
+export interface ApplicationIssue {
+  number: number;
+  url: string;
+  jobId: string;
+  status: ApplicationStatus;
+}
+
+// Job history types
+/** How a job compares with what earlier digests posted */
+export type JobHistoryStatus = "new" | "updated" | "repeat";
+
+/**
+ * A posted job as remembered by a `JobHistoryStore`
+ */
+export interface JobHistoryEntry {
+  job: JobListing;
+  /** Hash of the fields whose change makes a job "updated" (salary, description) */
+  contentHash: string;
+  /** Status the job had in the digest that last posted it */
+  status: JobHistoryStatus;
+  /** Key of the digest that last posted it, so same-day re-runs keep their status */
+  digestKey: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Comment command types
+/**
+ * The parts of a GitHub `issue_comment` webhook payload commands rely on
+ */
+export interface IssueCommentEvent {
+  action: "created" | "edited" | "deleted";
+  issue: {
+    number: number;
+    labels?: { name: string }[];
+  };
+  comment: {
+    id: number;
+    body: string;
+    user?: { login: string; type?: string };
+    /** The author's relationship to the repository, e.g. "OWNER" or "NONE" */
+    author_association?: string;
+  };
+}
+
+export type CommentCommandName = "apply" | "hide" | "snooze" | "more";
+
+export interface CommentCommand {
+  name: string;
+  args: string[];
+  /** The command line as written, e.g. `/apply 3` */
+  text: string;
+}
+
+export interface CommentCommandResult {
+  command: CommentCommand;
+  ok: boolean;
+  /** Markdown summary posted in the reply comment */
+  message: string;
+  /** Jobs the command resolved to */
+  jobIds: string[];
+}
+
+/** `/hide` and `/snooze` outcomes recorded in command replies */
+export interface RecordedCommands {
+  /** Hide keys, e.g. `job:<id>` or `company:<name>` */
+  hidden: string[];
+  /** Latest snooze expiry (ISO 8601), expired or not */
+  snoozedUntil?: string;
+}
+
+// Filtering types
+/**
+ * User preferences applied to parsed jobs before formatting
+ * Mirrors the `search_criteria` / `filters` settings in TECHNICAL_DESIGN.md
+ */
+export interface JobPreferences {
+  /** Company names to drop (case-insensitive) */
+  excludeCompanies?: string[];
+  /** Lowest acceptable `match_score` (0-1) */
+  minMatchScore?: number;
+  /** Lowest acceptable annual salary; compared with the top of the listed range, annualized */
+  salaryMin?: number;
+  /** Accepted `experience_level` values, e.g. "mid-level", "senior" */
+  experienceLevels?: string[];
+  /** Accepted `job_type` values, e.g. "full-time", "contract" */
+  jobTypes?: string[];
+  /** Accepted `work_mode` values */
+  workModes?: WorkMode[];
+  /** Keep only this many jobs, highest match score first */
+  maxJobsPerDigest?: number;
+  /** `/hide` keys to drop: `job:<id>`, `company:<name>`, `source:<name>` or `location:<name>` */
+  hidden?: string[];
+}
+
+/** Filter rules, named as they appear in `JobSummary.filters_applied` */
+export type JobFilterRule =
+  | "exclude_companies"
+  | "min_match_score"
+  | "salary_min"
+  | "experience_levels"
+  | "job_types"
+  | "work_modes"
+  | "hidden"
+  | "max_jobs_per_digest";
+
+export interface JobFilterResult {
+  jobs: JobListing[];
+  /** Jobs removed per active rule; a job counts against the first rule it fails */
+  rejected: Partial<Record<JobFilterRule, number>>;
+  /** Active rules and their settings, for `JobSummary.filters_applied` */
+  applied: Partial<Record<JobFilterRule, unknown>>;
+}
+
+// Scoring types
+export type ScoringCriterion =
+  | "keywords"
+  | "location"
+  | "salary"
+  | "remote"
+  | "tags"
+  | "experience";
+
+export type ScoringWeights = Record<ScoringCriterion, number>;
+
+/**
+ * What the user is looking for; criteria left empty are not scored
+ */
+export interface ScoringProfile {
+  keywords?: string[];
+  locations?: string[];
+  salaryMin?: number;
+  /** Defaults to whether `locations` includes "Remote" */
+  remotePreferred?: boolean;
+  tags?: string[];
+  experienceLevels?: string[];
+}
+
+/** "fill" scores only jobs without a `match_score`; "override" rescores every job */
+export type ScoringMode = "fill" | "override";
+
+export interface ScoringOptions {
+  profile: ScoringProfile;
+  weights?: Partial<ScoringWeights>;
+  mode?: ScoringMode;
+}
+
+export interface JobScore {
+  /** Weighted average of the scored criteria, 0-1 */
+  score: number;
+  reasons: string[];
+  /** Score of each criterion that applied */
+  criteria: Partial<Record<ScoringCriterion, number>>;
+}
+
+// Duplicate detection types
+export interface DuplicateMergeOptions {
+  /** Token overlap (Dice coefficient, 0-1) above which titles match (default 0.9) */
+  titleSimilarity?: number;
+}
+
+export interface DuplicateMergeResult {
+  /** One job per cluster, in order of each cluster's first listing */
+  jobs: JobListing[];
+  /** Listings folded into another job */
+  removed: number;
+}
+
+// Template types
+export interface JobCardContext {
+  /** 1-based position in the sorted digest */
+  index: number;
+  /** Job was posted in an earlier digest (dedupe "mark" mode) */
+  seenBefore: boolean;
+  /** Triage checkbox was ticked on the issue being updated; rendered ticked */
+  selected: boolean;
+  /** New, updated or repeat according to the job history, when one is kept */
+  status?: JobHistoryStatus;
+  /**
+   * Hidden job-id marker; inserted after the card's first line unless the
+   * template places it itself. Empty for table rows, whose marker goes on
+   * their task-list item.
+   */
+  marker: string;
+}
+
+/** Job field listings can be grouped by */
+export type JobGroupField =
+  | "company"
+  | "source"
+  | "location"
+  | "experience_level";
+
+export interface JobGroupContext {
+  field: JobGroupField;
+  /** Display value shared by the group, e.g. the company name */
+  label: string;
+  /** Jobs in the whole group, across overflow comments */
+  count: number;
+  /** The group started in an earlier part of a paginated digest */
+  continued: boolean;
+}
+
+export interface PageContext {
+  part: number;
+  total: number;
+}
+
+/**
+ * Section renderers used by IssueFormatter
+ * Hidden markers (job ids, digest key, overflow parts) are added by the
+ * formatter, so templates only deal with visible content
+ */
+export interface DigestTemplate {
+  title(summary: JobSummary): string;
+  /** First line of the issue body */
+  heading(metadata: ProcessingMetadata): string;
+  summary(summary: JobSummary): string;
+  /** Heading above the job cards; `page` is set when cards span several comments */
+  jobsHeading(page?: PageContext): string;
+  jobCard(job: JobListing, context: JobCardContext): string;
+  /** Placed between job cards */
+  jobSeparator: string;
+  /** Heading and header rows of the compact-layout table */
+  tableHeading(): string;
+  /** One line of the compact-layout table */
+  tableRow(job: JobListing, context: JobCardContext): string;
+  /**
+   * Task-list item listed under the table for a row's job, since checkboxes
+   * do not render inside tables; carries the job-id marker
+   */
+  tableTaskItem(job: JobListing, context: JobCardContext): string;
+  /** `<summary>` text of a collapsible group of listings */
+  groupSummary(group: JobGroupContext): string;
+  /** Return "" to leave the section out */
+  nextSteps(jobCount: number): string;
+  emptyState(): string;
+  footer(metadata: ProcessingMetadata): string;
+}
+
+// Chat message types
+// Slack Block Kit and Discord webhook payloads, limited to the parts we send
+export interface SlackText {
+  type: "mrkdwn" | "plain_text";
+  text: string;
+}
+
+export interface SlackButton {
+  type: "button";
+  text: SlackText;
+  url: string;
+}
+
+export type SlackBlock =
+  | { type: "header"; text: SlackText }
+  | { type: "section"; text: SlackText; accessory?: SlackButton }
+  | { type: "context"; elements: SlackText[] }
+  | { type: "actions"; elements: SlackButton[] }
+  | { type: "divider" };
+
+export interface SlackMessage {
+  /** Fallback shown in notifications */
+  text: string;
+  blocks: SlackBlock[];
+}
+
+export interface DiscordEmbed {
+  title: string;
+  url?: string;
+  description?: string;
+  color?: number;
+  footer?: { text: string };
+}
+
+export interface DiscordMessage {
+  content: string;
+  embeds: DiscordEmbed[];
+}
+
+export interface ChatFormatOptions {
+  /** Most jobs listed in one message; the rest are linked via the issue */
+  maxJobs?: number;
+}
+
+// Formatting options
+/**
+ * How job listings are laid out
+ * - cards: every job as a full card
+ * - compact: the best `fullCardCount` jobs as cards, the rest as a table
+ */
+export type DigestLayout = "cards" | "compact";
+
+/** Listing order: best match, highest annualized salary or newest first */
+export type JobSortOrder = "match" | "salary" | "date";
+
+export interface FormatOptions {
+  /** Job ids already posted in earlier digests; rendered with a "seen before" badge */
+  seenJobIds?: ReadonlySet<string>;
+  /** Longest issue/comment body before listings overflow into comments */
+  maxBodyLength?: number;
+  /** Listings dropped by lenient parsing; summarized in a collapsed section */
+  skippedListings?: SkippedListing[];
+  /** Defaults to compact when `summary.total_jobs_found` exceeds `fullCardCount` */
+  layout?: DigestLayout;
+  /** Jobs rendered as full cards in the compact layout (default 10) */
+  fullCardCount?: number;
+  /** Render listings in collapsible sections, one per distinct value */
+  groupBy?: JobGroupField;
+  /** History status per job id, rendered as badges */
+  jobStatuses?: Map<string, JobHistoryStatus>;
+  /** Listing order (default "match") */
+  sortBy?: JobSortOrder;
+  /** Job ids whose triage checkbox is ticked on the issue being updated */
+  selectedJobIds?: ReadonlySet<string>;
+}
+
+/** Options for the standalone HTML and plain-text formatters */
+export interface DocumentFormatOptions {
+  /** Heading and subject line (default: the digest issue title) */
+  title?: string;
+  /** Listing order (default "match") */
+  sortBy?: JobSortOrder;
+  /** Job ids already posted in earlier digests */
+  seenJobIds?: ReadonlySet<string>;
+  /** History status per job id, rendered as badges */
+  jobStatuses?: Map<string, JobHistoryStatus>;
+  /** Link back to the digest issue, when there is one */
+  issueUrl?: string;
+}
+
+/** A digest rendered outside GitHub, e.g. as an email */
+export interface DigestDocument {
+  title: string;
+  body: string;
+}
+
+// Export types
+export type ExportFormat = "csv" | "jsonl" | "ics";
+
+// Service options
+/**
+ * How jobs already posted in earlier digest issues are handled
+ * - off: post every job (default)
+ * - skip: leave previously posted jobs out of the new digest
+ * - mark: keep them, flagged as "seen before"
+ */
+export type DedupeMode = "off" | "skip" | "mark";
+
+export interface CreateDigestIssueOptions {
+  dedupe?: DedupeMode;
+  /** Number of most recent digest issues searched for posted job ids */
+  dedupeLookback?: number;
+  /** Body size at which listings overflow into comments (default: GitHub's limit) */
+  maxBodyLength?: number;
+  /** Reject the digest on any invalid job (strict, default) or skip those jobs */
+  validation?: ValidationMode;
+  /** Preference filters applied to the jobs before formatting */
+  preferences?: JobPreferences;
+  /** Section renderers replacing parts of the default issue layout */
+  template?: Partial<DigestTemplate>;
+  layout?: DigestLayout;
+  /** Jobs rendered as full cards in the compact layout (default 10) */
+  fullCardCount?: number;
+  /** Render listings in collapsible sections per company, source, ... */
+  groupBy?: JobGroupField;
+  /** Merge the same role posted on several sources into one job */
+  mergeDuplicates?: boolean | DuplicateMergeOptions;
+  /** Compute match scores and reasons locally before filtering */
+  scoring?: ScoringOptions;
+  /** Listing order (default "match") */
+  sortBy?: JobSortOrder;
+  /** Extra labels for the digest issue, after the generated ones */
+  labels?: string[];
+  /**
+   * Drop jobs hidden with `/hide` on the `dedupeLookback` most recent digest
+   * issues, and let `findActiveSnooze` report `/snooze`
+   */
+  commands?: boolean;
+  /**
+   * Render the issue without creating it (`createDigestIssue` only); earlier
+   * digests are still read for dedupe, but nothing is written or published
+   */
+  dryRun?: boolean;
+}
+
+/** Counts for a processed digest, as logged after each run */
+export interface DigestStats {
+  totalJobs: number;
+  newJobs: number;
+  sources: string[];
+  avgMatchScore: number;
+}
+
+// Settings types
+// Mirror `config/settings.example.yaml`; keys stay snake_case like the file
+
+export interface UserProfileSettings {
+  name?: string;
+  email?: string;
+  timezone?: string;
+}
+
+export interface SearchCriteriaSettings {
+  keywords: string[];
+  locations: string[];
+  salary_min?: number;
+  experience_levels: string[];
+  job_types: string[];
+}
+
+export interface FilterSettings {
+  exclude_companies: string[];
+  required_benefits: string[];
+  max_jobs_per_digest?: number;
+  min_match_score?: number;
+  work_modes?: WorkMode[];
+}
+
+export interface SourceSettings {
+  enabled: boolean;
+  /** Name of the secret holding the source's API key */
+  api_key_secret?: string;
+  /** Requests per minute */
+  rate_limit?: number;
+}
+
+export interface NotificationSettings {
+  github_issues: boolean;
+  email_digest: boolean;
+  timing: {
+    schedule?: string;
+    timezone?: string;
+  };
+}
+
+export interface DigestSettings {
+  mode: "create" | "upsert";
+  dedupe: DedupeMode;
+  dedupe_lookback: number;
+  validation: ValidationMode;
+  max_body_length?: number;
+  /** Unset: compact when a digest has more jobs than `full_card_count` */
+  layout?: DigestLayout;
+  full_card_count?: number;
+  group_by?: JobGroupField;
+  merge_duplicates?: boolean;
+  sort_by?: JobSortOrder;
+  /** Honour `/hide` and `/snooze` comment commands */
+  commands?: boolean;
+  /** Logins allowed to run comment commands besides owners, members and collaborators */
+  command_users?: string[];
+}
+
+export interface ScoringSettings {
+  enabled: boolean;
+  mode: ScoringMode;
+  weights: Partial<ScoringWeights>;
+  preferred_tags: string[];
+}
+
+export interface GitHubSettings {
+  owner?: string;
+  repo?: string;
+  api_url?: string;
+  max_retries?: number;
+  base_delay_ms?: number;
+  max_delay_ms?: number;
+}
+
+export interface UserSettings {
+  user_profile: UserProfileSettings;
+  search_criteria: SearchCriteriaSettings;
+  filters: FilterSettings;
+  sources: Record<string, SourceSettings>;
+  notifications: NotificationSettings;
+  digest: DigestSettings;
+  scoring: ScoringSettings;
+  github: GitHubSettings;
+}
+
 // GitHub Action specific types
 export interface ActionInputs {
   digestData: string;
   githubToken: string;
+  dedupe?: DedupeMode;
+  mode?: "create" | "upsert";
+  /** YAML or JSON settings file; explicit inputs take precedence */
+  settingsFile?: string;
+  slackWebhookUrl?: string;
+  discordWebhookUrl?: string;
 }
 
 export interface ActionOutputs {
   issueNumber: string;
   issueUrl: string;
+  /** "skipped" while digests are snoozed; number and URL are then empty */
+  issueAction: "created" | "updated" | "skipped";
 }
@@ -0,0 +1,40 @@
+// Sample GitHub `issue_comment` webhook payloads for CommentCommandService tests
+
+import { IssueCommentEvent } from "../../src/types";
+
+// Trimmed copy of a real `issue_comment.created` delivery; fields the
+// service does not read are kept to show it tolerates the full payload
+export const issueCommentCreatedJson = `{
+  "action": "created",
+  "issue": {
+    "url": "https://api.github.com/repos/test-org/job-search-repo/issues/1",
+    "number": 1,
+    "title": "🎯 3 Job Opportunities (2 new)",
+    "state": "open",
+    "labels": [
+      { "id": 208045946, "name": "job-digest", "color": "0e8a16" }
+    ]
+  },
+  "comment": {
+    "id": 1146825293,
+    "html_url": "https://github.com/test-org/job-search-repo/issues/1#issuecomment-1146825293",
+    "body": "Thanks!\\n/apply 1\\n/hide company:StartupCorp",
+    "user": { "login": "octocat", "id": 583231, "type": "User" },
+    "author_association": "OWNER",
+    "created_at": "2025-08-01T12:00:00Z"
+  },
+  "repository": { "full_name": "test-org/job-search-repo" },
+  "sender": { "login": "octocat", "type": "User" }
+}`;
+
+export function commentEvent(
+  body: string,
+  overrides: Partial<IssueCommentEvent> = {}
+): IssueCommentEvent {
+  const event: IssueCommentEvent = JSON.parse(issueCommentCreatedJson);
+  return {
+    ...event,
+    ...overrides,
+    comment: { ...event.comment, body, ...overrides.comment },
+  };
+}
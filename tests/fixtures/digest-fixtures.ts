@@ -56,6 +56,10 @@ export const validJobListing: JobListing = {
   match_reasons: ["Remote work available", "Senior level", "Tech stack match"],
 };
 
+export function jobListing(overrides: Partial<JobListing> = {}): JobListing {
+  return { ...validJobListing, ...overrides };
+}
+
 export const validProcessingMetadata: ProcessingMetadata = {
   generated_at: "2025-07-31T09:00:00Z",
   version: "1.0.0",
@@ -185,3 +189,15 @@ export const invalidDigestSamples = {
     metadata: validProcessingMetadata,
   },
 };
+
+// One good job between two broken ones, for lenient validation
+export const partiallyInvalidDigest = {
+  query: validSearchQuery,
+  summary: { ...validJobSummary, total_jobs_found: 3 },
+  jobs: [
+    { ...validJobListing, id: "job-no-description", description: undefined },
+    validJobListing,
+    { ...validJobListing, id: "job-bad-score", match_score: 2, url: 42 },
+  ],
+  metadata: { ...validProcessingMetadata, warnings: ["Adzuna rate limited"] },
+};
@@ -0,0 +1,409 @@
+// Integration tests for the create-digest-issue GitHub Action entry point
+// Runs the action in-process against fakes of the Actions runtime and the GitHub API
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ActionRuntime,
+  run,
+} from "../../.github/actions/create-digest-issue/src/index";
+import { OctokitIssuesClient } from "../../src/adapters/github-actions.adapter";
+import {
+  emptyDigestResult,
+  multipleJobsDigestResult,
+  validDigestResult,
+} from "../fixtures/digest-fixtures";
+
+// In-process fake of the GitHub REST API (issues endpoints only)
+class FakeOctokit implements OctokitIssuesClient {
+  public createdIssues: any[] = [];
+  public listCalls: any[] = [];
+  public comments: any[] = [];
+  public failWith?: Error;
+
+  rest = {
+    issues: {
+      create: async (params: any) => {
+        if (this.failWith) {
+          throw this.failWith;
+        }
+        this.createdIssues.push(params);
+        const number = 40 + this.createdIssues.length;
+        return {
+          data: {
+            number,
+            html_url: `https://github.com/${params.owner}/${params.repo}/issues/${number}`,
+          },
+        };
+      },
+      listForRepo: async (params: any) => {
+        this.listCalls.push(params);
+        return {
+          data: this.createdIssues.map((issue, index) => ({
+            number: 41 + index,
+            html_url: `https://github.com/${issue.owner}/${issue.repo}/issues/${
+              41 + index
+            }`,
+            title: issue.title,
+            body: issue.body,
+            labels: issue.labels.map((name: string) => ({ name })),
+            state: "open",
+          })),
+        };
+      },
+      update: async (params: any) => {
+        const index = params.issue_number - 41;
+        this.createdIssues[index] = { ...this.createdIssues[index], ...params };
+        return {
+          data: {
+            number: params.issue_number,
+            html_url: `https://github.com/${params.owner}/${params.repo}/issues/${params.issue_number}`,
+          },
+        };
+      },
+      get: async () => ({ data: {} }),
+      addLabels: async () => ({}),
+      removeLabel: async () => ({}),
+      createComment: async () => ({ data: { id: 1, html_url: "" } }),
+      listComments: async () => ({ data: this.comments }),
+      updateComment: async () => ({ data: { id: 1, html_url: "" } }),
+      deleteComment: async () => ({}),
+    },
+  };
+}
+
+// In-process fake of the Actions runtime (@actions/core + workflow context)
+class FakeActionsRuntime implements ActionRuntime {
+  public outputs: Record<string, string> = {};
+  public failedMessage?: string;
+  public logs: { level: string; message: string }[] = [];
+  public tokensUsed: string[] = [];
+
+  constructor(
+    private inputs: Record<string, string>,
+    public octokit: FakeOctokit = new FakeOctokit()
+  ) {}
+
+  core = {
+    getInput: (name: string, options?: { required?: boolean }) => {
+      const value = this.inputs[name] || "";
+      if (options?.required && !value) {
+        throw new Error(`Input required and not supplied: ${name}`);
+      }
+      return value;
+    },
+    setOutput: (name: string, value: any) => {
+      this.outputs[name] = String(value);
+    },
+    setFailed: (message: string | Error) => {
+      this.failedMessage = String(message);
+    },
+    info: (message: string) => {
+      this.logs.push({ level: "info", message });
+    },
+    debug: (message: string) => {
+      this.logs.push({ level: "debug", message });
+    },
+    error: (message: string | Error) => {
+      this.logs.push({ level: "error", message: String(message) });
+    },
+  };
+
+  getOctokit(token: string): OctokitIssuesClient {
+    this.tokensUsed.push(token);
+    return this.octokit;
+  }
+
+  repo() {
+    return { owner: "test-org", repo: "job-search-repo" };
+  }
+}
+
+describe("create-digest-issue action", () => {
+  it("should create an issue and set outputs", async () => {
+    const runtime = new FakeActionsRuntime({
+      "digest-data": JSON.stringify(validDigestResult),
+      "github-token": "ghs_fake",
+    });
+
+    const outputs = await run(runtime);
+
+    expect(outputs).toEqual({
+      issueNumber: "41",
+      issueUrl: "https://github.com/test-org/job-search-repo/issues/41",
+      issueAction: "created",
+    });
+    expect(runtime.outputs).toEqual({
+      "issue-number": "41",
+      "issue-url": "https://github.com/test-org/job-search-repo/issues/41",
+      "issue-action": "created",
+    });
+    expect(runtime.failedMessage).toBeUndefined();
+    expect(runtime.tokensUsed).toEqual(["ghs_fake"]);
+
+    const created = runtime.octokit.createdIssues[0];
+    expect(created.owner).toBe("test-org");
+    expect(created.repo).toBe("job-search-repo");
+    expect(created.title).toBe("🎯 3 Job Opportunities (2 new)");
+    expect(created.labels).toContain("job-digest");
+  });
+
+  it("should route service logs through the Actions logger", async () => {
+    const runtime = new FakeActionsRuntime({
+      "digest-data": JSON.stringify(emptyDigestResult),
+      "github-token": "ghs_fake",
+    });
+
+    await run(runtime);
+
+    const infoMessages = runtime.logs
+      .filter((log) => log.level === "info")
+      .map((log) => log.message);
+    expect(infoMessages).toContain("Starting digest issue creation...");
+    expect(runtime.logs.some((log) => log.level === "debug")).toBe(true);
+  });
+
+  it("should fail the action when a required input is missing", async () => {
+    const runtime = new FakeActionsRuntime({ "github-token": "ghs_fake" });
+
+    const outputs = await run(runtime);
+
+    expect(outputs).toBeUndefined();
+    expect(runtime.failedMessage).toContain("digest-data");
+    expect(runtime.octokit.createdIssues).toHaveLength(0);
+    expect(runtime.outputs).toEqual({});
+  });
+
+  it("should fail the action for invalid digest data", async () => {
+    const runtime = new FakeActionsRuntime({
+      "digest-data": "{not json",
+      "github-token": "ghs_fake",
+    });
+
+    await run(runtime);
+
+    expect(runtime.failedMessage).toContain("Invalid digest data");
+    expect(runtime.octokit.createdIssues).toHaveLength(0);
+  });
+
+  it("should fail the action when the GitHub API rejects the request", async () => {
+    const octokit = new FakeOctokit();
+    octokit.failWith = new Error("Resource not accessible by integration");
+    const runtime = new FakeActionsRuntime(
+      {
+        "digest-data": JSON.stringify(validDigestResult),
+        "github-token": "ghs_fake",
+      },
+      octokit
+    );
+
+    await run(runtime);
+
+    expect(runtime.failedMessage).toBe(
+      "Failed to create GitHub issue: Resource not accessible by integration"
+    );
+    expect(runtime.outputs).toEqual({});
+  });
+
+  it("should skip previously posted jobs when dedupe is enabled", async () => {
+    const inputs = {
+      "digest-data": JSON.stringify(multipleJobsDigestResult),
+      "github-token": "ghs_fake",
+      dedupe: "skip",
+    };
+    const octokit = new FakeOctokit();
+
+    await run(new FakeActionsRuntime(inputs, octokit));
+    const secondRun = new FakeActionsRuntime(inputs, octokit);
+    await run(secondRun);
+
+    expect(octokit.listCalls[1]).toMatchObject({
+      owner: "test-org",
+      repo: "job-search-repo",
+      labels: "job-digest",
+      state: "all",
+    });
+    expect(octokit.createdIssues[1].title).toBe(
+      "📭 No New Job Opportunities Today"
+    );
+    expect(secondRun.failedMessage).toBeUndefined();
+  });
+
+  it("should reject an unknown dedupe mode", async () => {
+    const runtime = new FakeActionsRuntime({
+      "digest-data": JSON.stringify(validDigestResult),
+      "github-token": "ghs_fake",
+      dedupe: "sometimes",
+    });
+
+    await run(runtime);
+
+    expect(runtime.failedMessage).toContain('Invalid dedupe input "sometimes"');
+    expect(runtime.octokit.createdIssues).toHaveLength(0);
+  });
+
+  it("should update the existing digest issue on re-runs in upsert mode", async () => {
+    const inputs = {
+      "digest-data": JSON.stringify(validDigestResult),
+      "github-token": "ghs_fake",
+      mode: "upsert",
+    };
+    const octokit = new FakeOctokit();
+
+    const first = await run(new FakeActionsRuntime(inputs, octokit));
+    const second = await run(new FakeActionsRuntime(inputs, octokit));
+
+    expect(first!.issueAction).toBe("created");
+    expect(second).toEqual({ ...first, issueAction: "updated" });
+    expect(octokit.createdIssues).toHaveLength(1);
+  });
+
+  it("should reject an unknown mode", async () => {
+    const runtime = new FakeActionsRuntime({
+      "digest-data": JSON.stringify(validDigestResult),
+      "github-token": "ghs_fake",
+      mode: "replace",
+    });
+
+    await run(runtime);
+
+    expect(runtime.failedMessage).toContain('Invalid mode input "replace"');
+  });
+
+  describe("settings file", () => {
+    let dir: string;
+    let settingsFile: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "action-settings-"));
+      settingsFile = join(dir, "settings.yaml");
+      writeFileSync(
+        settingsFile,
+        [
+          "digest:",
+          "  mode: upsert",
+          "filters:",
+          "  exclude_companies: [StartupCorp]",
+          "",
+        ].join("\n")
+      );
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should apply filters and mode from the settings file", async () => {
+      const inputs = {
+        "digest-data": JSON.stringify(multipleJobsDigestResult),
+        "github-token": "ghs_fake",
+        "settings-file": settingsFile,
+      };
+      const octokit = new FakeOctokit();
+
+      await run(new FakeActionsRuntime(inputs, octokit));
+      const second = await run(new FakeActionsRuntime(inputs, octokit));
+
+      expect(second!.issueAction).toBe("updated");
+      expect(octokit.createdIssues).toHaveLength(1);
+      expect(octokit.createdIssues[0].body).not.toContain(
+        "Full Stack Developer"
+      );
+      expect(octokit.createdIssues[0].body).toContain("TechCorp Inc");
+    });
+
+    it("should let explicit inputs override the settings file", async () => {
+      const runtime = new FakeActionsRuntime({
+        "digest-data": JSON.stringify(validDigestResult),
+        "github-token": "ghs_fake",
+        "settings-file": settingsFile,
+        mode: "create",
+      });
+
+      const outputs = await run(runtime);
+
+      expect(outputs!.issueAction).toBe("created");
+      expect(runtime.octokit.listCalls).toHaveLength(0);
+    });
+
+    it("should skip the run while digests are snoozed", async () => {
+      writeFileSync(settingsFile, "digest:\n  commands: true\n");
+      const inputs = {
+        "digest-data": JSON.stringify(validDigestResult),
+        "github-token": "ghs_fake",
+        "settings-file": settingsFile,
+      };
+      const octokit = new FakeOctokit();
+      await run(new FakeActionsRuntime(inputs, octokit));
+      octokit.comments = [
+        {
+          id: 7,
+          html_url: "",
+          body: "- ✅ `/snooze 2w` — Snoozed <!-- command: snooze 2999-01-01T00:00:00.000Z -->",
+          user: { login: "github-actions[bot]", type: "Bot" },
+        },
+      ];
+
+      const runtime = new FakeActionsRuntime(inputs, octokit);
+      const outputs = await run(runtime);
+
+      expect(outputs).toEqual({
+        issueNumber: "",
+        issueUrl: "",
+        issueAction: "skipped",
+      });
+      expect(runtime.outputs["issue-action"]).toBe("skipped");
+      expect(octokit.createdIssues).toHaveLength(1);
+    });
+
+    it("should fail the action for an unreadable settings file", async () => {
+      const runtime = new FakeActionsRuntime({
+        "digest-data": JSON.stringify(validDigestResult),
+        "github-token": "ghs_fake",
+        "settings-file": join(dir, "missing.yaml"),
+      });
+
+      await run(runtime);
+
+      expect(runtime.failedMessage).toContain("Could not read settings file");
+      expect(runtime.octokit.createdIssues).toHaveLength(0);
+    });
+  });
+
+  it("should also post the digest to a configured Slack webhook", async () => {
+    const received: any[] = [];
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push(JSON.parse(body));
+        res.end("ok");
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const runtime = new FakeActionsRuntime({
+        "digest-data": JSON.stringify(validDigestResult),
+        "github-token": "ghs_fake",
+        "slack-webhook-url": `http://127.0.0.1:${port}/hook`,
+      });
+
+      await run(runtime);
+
+      expect(runtime.failedMessage).toBeUndefined();
+      expect(received).toHaveLength(1);
+      expect(JSON.stringify(received[0].blocks)).toContain(
+        "https://github.com/test-org/job-search-repo/issues/41"
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -1,12 +1,85 @@
 import { config } from "dotenv";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
 import { ConsoleLogger } from "../../src/adapters/console-logger.adapter";
 import { LocalGitHubAdapter } from "../../src/adapters/local-github.adapter";
+import { Clock } from "../../src/interfaces";
 import { JobDigestService } from "../../src/services/job-digest.service";
 import { realWorldSampleDigestJson } from "../fixtures/real-world-fixtures";
 
 // Load environment variables from .env file for testing
 config();
 
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// Local HTTP stub of the GitHub REST API that replays queued responses
+class GitHubApiStub {
+  public requests: { method: string; url: string; body: string }[] = [];
+  private queue: StubResponse[] = [];
+  private server?: Server;
+
+  enqueue(...responses: StubResponse[]): void {
+    this.queue.push(...responses);
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server!.close(resolve));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      this.requests.push({ method: req.method!, url: req.url!, body });
+      const next = this.queue.shift() || { status: 500, body: {} };
+      if (next.status === 0) {
+        // Simulate a dropped connection
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(next.status, {
+        "Content-Type": "application/json",
+        ...next.headers,
+      });
+      res.end(next.body === undefined ? "" : JSON.stringify(next.body));
+    });
+  }
+}
+
+// Deterministic clock: sleeping advances time instantly
+class FakeClock implements Clock {
+  public sleeps: number[] = [];
+
+  constructor(public current: number = 1_700_000_000_000) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.sleeps.push(ms);
+    this.current += ms;
+  }
+}
+
+const createdIssue = {
+  status: 201,
+  body: { number: 7, html_url: "https://github.com/owner/repo/issues/7" },
+};
+
 describe("LocalGitHubAdapter Integration", () => {
   // Only run if we have a token for real API testing
   const skipReal = !process.env.GITHUB_TOKEN || !process.env.TEST_REPO;
@@ -39,7 +112,7 @@ describe("LocalGitHubAdapter Integration", () => {
         const logger = new ConsoleLogger(false);
         const service = new JobDigestService(adapter, logger);
 
-        // Use the same real-world digest that works with npm run test-local
+        // Use the same real-world digest that works with npm run cli -- publish
         const result = await service.createDigestIssue(
           realWorldSampleDigestJson
         );
@@ -53,6 +126,214 @@ describe("LocalGitHubAdapter Integration", () => {
     ); // 10 second timeout for API call
   });
 
+  describe("retries against a local API stub", () => {
+    let stub: GitHubApiStub;
+    let clock: FakeClock;
+    let adapter: LocalGitHubAdapter;
+
+    beforeEach(async () => {
+      stub = new GitHubApiStub();
+      clock = new FakeClock();
+      const apiUrl = await stub.start();
+      adapter = new LocalGitHubAdapter("fake-token", "owner", "repo", {
+        apiUrl,
+        clock,
+        retry: { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 5000 },
+      });
+    });
+
+    afterEach(async () => {
+      await stub.stop();
+    });
+
+    it("should succeed without retrying when the first call works", async () => {
+      stub.enqueue(createdIssue);
+
+      const result = await adapter.createIssue({ title: "T", body: "B" });
+
+      expect(result).toEqual({
+        number: 7,
+        url: "https://github.com/owner/repo/issues/7",
+      });
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].method).toBe("POST");
+      expect(stub.requests[0].url).toBe("/repos/owner/repo/issues");
+      expect(clock.sleeps).toEqual([]);
+    });
+
+    it("should retry server errors with exponential backoff", async () => {
+      stub.enqueue(
+        { status: 502, body: { message: "Bad Gateway" } },
+        { status: 503, body: { message: "Unavailable" } },
+        { ...createdIssue, status: 200 }
+      );
+
+      const result = await adapter.updateIssue(7, { body: "B" });
+
+      expect(result.number).toBe(7);
+      expect(stub.requests).toHaveLength(3);
+      expect(clock.sleeps).toEqual([100, 200]);
+    });
+
+    it("should retry dropped connections", async () => {
+      stub.enqueue({ status: 0 }, { status: 200, body: [] });
+
+      await expect(adapter.listIssues({})).resolves.toEqual([]);
+      expect(clock.sleeps).toEqual([100]);
+    });
+
+    it("should not repeat POSTs after server errors", async () => {
+      stub.enqueue({ status: 502, body: { message: "Bad Gateway" } });
+
+      await expect(
+        adapter.createIssue({ title: "T", body: "B" })
+      ).rejects.toThrow("GitHub API error (502): Bad Gateway");
+      expect(stub.requests).toHaveLength(1);
+      expect(clock.sleeps).toEqual([]);
+    });
+
+    it("should not repeat POSTs after dropped connections", async () => {
+      stub.enqueue({ status: 0 });
+
+      await expect(adapter.createComment(1, "Hello")).rejects.toThrow(
+        "Failed to comment on GitHub issue #1: Network error"
+      );
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it("should give up after the configured number of retries", async () => {
+      stub.enqueue(
+        { status: 500, body: { message: "Oops" } },
+        { status: 500, body: { message: "Oops" } },
+        { status: 500, body: { message: "Oops" } },
+        { status: 500, body: { message: "Still broken" } }
+      );
+
+      await expect(adapter.getIssue(1)).rejects.toThrow(
+        "Failed to get GitHub issue #1: GitHub API error (500): Still broken"
+      );
+      expect(stub.requests).toHaveLength(4);
+      expect(clock.sleeps).toEqual([100, 200, 400]);
+    });
+
+    it("should not retry client errors", async () => {
+      stub.enqueue({ status: 422, body: { message: "Validation Failed" } });
+
+      await expect(
+        adapter.createIssue({ title: "T", body: "B" })
+      ).rejects.toThrow("GitHub API error (422): Validation Failed");
+      expect(stub.requests).toHaveLength(1);
+    });
+
+    it("should not retry permission 403s", async () => {
+      stub.enqueue({
+        status: 403,
+        headers: { "x-ratelimit-remaining": "4999" },
+        body: { message: "Resource not accessible by integration" },
+      });
+
+      await expect(adapter.getIssue(1)).rejects.toThrow(
+        "Failed to get GitHub issue #1: GitHub API error (403)"
+      );
+      expect(clock.sleeps).toEqual([]);
+    });
+
+    it("should honor Retry-After on secondary rate limits", async () => {
+      stub.enqueue(
+        {
+          status: 403,
+          headers: { "retry-after": "3" },
+          body: { message: "You have exceeded a secondary rate limit" },
+        },
+        createdIssue
+      );
+
+      await adapter.createIssue({ title: "T", body: "B" });
+
+      expect(clock.sleeps).toEqual([3000]);
+    });
+
+    it("should back off on secondary rate limits without Retry-After", async () => {
+      stub.enqueue(
+        {
+          status: 403,
+          body: { message: "You have exceeded a secondary rate limit" },
+        },
+        createdIssue
+      );
+
+      await adapter.createIssue({ title: "T", body: "B" });
+
+      expect(stub.requests).toHaveLength(2);
+      expect(clock.sleeps).toEqual([100]);
+    });
+
+    it("should fall back to backoff when rate-limit headers are not numbers", async () => {
+      stub.enqueue(
+        {
+          status: 429,
+          headers: {
+            "retry-after": "Wed, 21 Oct 2026 07:28:00 GMT",
+            "x-ratelimit-reset": "soon",
+          },
+          body: { message: "API rate limit exceeded" },
+        },
+        createdIssue
+      );
+
+      await adapter.createIssue({ title: "T", body: "B" });
+
+      expect(clock.sleeps).toEqual([100]);
+    });
+
+    it("should wait until X-RateLimit-Reset when the quota is exhausted", async () => {
+      const resetAt = Math.floor(clock.now() / 1000) + 2;
+      stub.enqueue(
+        {
+          status: 429,
+          headers: {
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": String(resetAt),
+          },
+          body: { message: "API rate limit exceeded" },
+        },
+        { status: 200, body: [] }
+      );
+
+      await adapter.listIssues({ labels: ["job-digest"] });
+
+      expect(clock.sleeps).toEqual([resetAt * 1000 - 1_700_000_000_000]);
+      expect(stub.requests[1].url).toBe(
+        "/repos/owner/repo/issues?state=open&per_page=30&labels=job-digest"
+      );
+    });
+
+    it("should fail fast when the rate limit resets too far away", async () => {
+      stub.enqueue({
+        status: 403,
+        headers: { "retry-after": "3600" },
+        body: { message: "You have exceeded a secondary rate limit" },
+      });
+
+      await expect(adapter.listIssues({})).rejects.toThrow(
+        "Failed to list GitHub issues: GitHub API error (403)"
+      );
+      expect(clock.sleeps).toEqual([]);
+    });
+
+    it("should handle empty 204 responses", async () => {
+      stub.enqueue({ status: 204 });
+
+      await expect(adapter.removeLabel(1, "status:applied")).resolves.toBe(
+        undefined
+      );
+      expect(stub.requests[0]).toMatchObject({
+        method: "DELETE",
+        url: "/repos/owner/repo/issues/1/labels/status%3Aapplied",
+      });
+    });
+  });
+
   describe("ConsoleLogger", () => {
     it("should implement Logger interface", () => {
       const logger = new ConsoleLogger();
@@ -0,0 +1,91 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DryRunGitHubClient } from "../../../src/adapters/dry-run-github.adapter";
+import { Logger } from "../../../src/interfaces";
+import { JobDigestService } from "../../../src/services/job-digest.service";
+import { validDigestResult } from "../../fixtures/digest-fixtures";
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  debug: () => undefined,
+  error: () => undefined,
+};
+
+describe("DryRunGitHubClient", () => {
+  let dir: string;
+  let client: DryRunGitHubClient;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "dry-run-"));
+    client = new DryRunGitHubClient(join(dir, "out"), "owner", "repo");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should record calls and write issue bodies to disk", async () => {
+    const issue = await client.createIssue({
+      title: "Digest",
+      body: "# Jobs",
+      labels: ["job-digest"],
+    });
+    await client.updateIssue(issue.number, { body: "# Jobs (updated)" });
+    await client.addLabels(issue.number, ["weekly"]);
+
+    expect(issue).toEqual({
+      number: 1,
+      url: "https://github.com/owner/repo/issues/1",
+    });
+    expect(client.calls.map((call) => call.method)).toEqual([
+      "createIssue",
+      "updateIssue",
+      "addLabels",
+    ]);
+    expect(client.callsTo("addLabels")).toEqual([[1, ["weekly"]]]);
+    expect(readFileSync(join(dir, "out", "issue-1.md"), "utf8")).toBe(
+      "# Jobs (updated)"
+    );
+    expect((await client.getIssue(1)).labels).toEqual(["job-digest", "weekly"]);
+  });
+
+  it("should write, update and remove comment files", async () => {
+    await client.createIssue({ title: "Digest", body: "Part 1" });
+    const first = await client.createComment(1, "Part 2");
+    const second = await client.createComment(1, "Part 3");
+    await client.updateComment(first.id, "Part 2 (updated)");
+    await client.deleteComment(second.id);
+
+    const out = join(dir, "out");
+    expect(readFileSync(join(out, "issue-1-comment-1.md"), "utf8")).toBe(
+      "Part 2 (updated)"
+    );
+    expect(existsSync(join(out, "issue-1-comment-2.md"))).toBe(false);
+    expect(await client.listComments(1)).toEqual([
+      {
+        id: 1,
+        url: first.url,
+        body: "Part 2 (updated)",
+        author: { login: "github-actions[bot]", type: "Bot" },
+      },
+    ]);
+  });
+
+  it("should let the service upsert without touching GitHub", async () => {
+    const service = new JobDigestService(client, silentLogger);
+    const digestJson = JSON.stringify(validDigestResult);
+
+    const created = await service.upsertDigestIssue(digestJson);
+    const updated = await service.upsertDigestIssue(digestJson);
+
+    expect(created.action).toBe("created");
+    expect(updated).toEqual({ ...created, action: "updated" });
+    expect(readdirSync(join(dir, "out"))).toEqual(["issue-1.md"]);
+    expect(readFileSync(join(dir, "out", "issue-1.md"), "utf8")).toContain(
+      "# Job Search Results"
+    );
+    expect(client.callsTo("createIssue")).toHaveLength(1);
+    expect(client.callsTo("updateIssue")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { GitHubIssuePublisher } from "../../../src/adapters/github-issue.adapter";
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+import { Logger } from "../../../src/interfaces";
+
+class MockLogger implements Logger {
+  public infoCalls: string[] = [];
+
+  info(message: string): void {
+    this.infoCalls.push(message);
+  }
+
+  debug(): void {}
+
+  error(): void {}
+}
+
+describe("GitHubIssuePublisher", () => {
+  let github: InMemoryGitHubAdapter;
+  let logger: MockLogger;
+  let publisher: GitHubIssuePublisher;
+
+  beforeEach(() => {
+    github = new InMemoryGitHubAdapter("test-org", "job-search-repo");
+    logger = new MockLogger();
+    publisher = new GitHubIssuePublisher(github, logger);
+  });
+
+  it("should create the issue with its overflow comments", async () => {
+    const result = await publisher.publish({
+      params: { title: "Digest", body: "Part 1", labels: ["job-digest"] },
+      comments: ["Part 2", "Part 3"],
+    });
+
+    expect(result).toEqual({
+      number: 1,
+      url: "https://github.com/test-org/job-search-repo/issues/1",
+      action: "created",
+    });
+    expect(github.issues[0].labels).toEqual(["job-digest"]);
+    expect(github.commentsFor(1)).toEqual(["Part 2", "Part 3"]);
+    expect(logger.infoCalls).toEqual([
+      `✅ Created issue #1: ${result.url}`,
+      "Posted 2 overflow comment(s) on issue #1",
+    ]);
+  });
+
+  it("should update an existing issue and reuse its comments", async () => {
+    await github.createIssue({ title: "Old", body: "Old part 1" });
+    const kept = await github.createComment(1, "Old part 2");
+    const dropped = await github.createComment(1, "Old part 3");
+
+    const result = await publisher.publish({
+      params: { title: "Digest", body: "Part 1" },
+      comments: ["Part 2"],
+      existing: { number: 1, commentIds: [kept.id, dropped.id] },
+    });
+
+    expect(result.action).toBe("updated");
+    expect(github.issues[0].body).toBe("Part 1");
+    expect(github.comments.map(({ id, body }) => ({ id, body }))).toEqual([
+      { id: kept.id, body: "Part 2" },
+    ]);
+  });
+});
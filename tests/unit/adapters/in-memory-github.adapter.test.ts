@@ -0,0 +1,153 @@
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+
+describe("InMemoryGitHubAdapter", () => {
+  let adapter: InMemoryGitHubAdapter;
+
+  beforeEach(() => {
+    adapter = new InMemoryGitHubAdapter("test-org", "job-search-repo");
+  });
+
+  describe("createIssue", () => {
+    it("should assign sequential issue numbers and URLs", async () => {
+      const first = await adapter.createIssue({ title: "A", body: "a" });
+      const second = await adapter.createIssue({ title: "B", body: "b" });
+
+      expect(first).toEqual({
+        number: 1,
+        url: "https://github.com/test-org/job-search-repo/issues/1",
+      });
+      expect(second.number).toBe(2);
+      expect(adapter.issues).toHaveLength(2);
+      expect(adapter.issues[0].state).toBe("open");
+    });
+  });
+
+  describe("listIssues", () => {
+    beforeEach(async () => {
+      await adapter.createIssue({
+        title: "Digest 1",
+        body: "",
+        labels: ["job-digest"],
+      });
+      await adapter.createIssue({ title: "Other", body: "", labels: ["bug"] });
+      await adapter.createIssue({
+        title: "Digest 2",
+        body: "",
+        labels: ["job-digest", "automated"],
+      });
+    });
+
+    it("should filter by labels and list newest first", async () => {
+      const issues = await adapter.listIssues({ labels: ["job-digest"] });
+
+      expect(issues.map((issue) => issue.title)).toEqual([
+        "Digest 2",
+        "Digest 1",
+      ]);
+    });
+
+    it("should respect the page size", async () => {
+      const issues = await adapter.listIssues({ perPage: 1 });
+
+      expect(issues.map((issue) => issue.title)).toEqual(["Digest 2"]);
+    });
+
+    it("should only list open issues unless asked otherwise", async () => {
+      adapter.issues[0].state = "closed";
+
+      expect(await adapter.listIssues({ labels: ["job-digest"] })).toHaveLength(
+        1
+      );
+      expect(
+        await adapter.listIssues({ labels: ["job-digest"], state: "all" })
+      ).toHaveLength(2);
+    });
+
+    it("should return copies that do not alias stored issues", async () => {
+      const [issue] = await adapter.listIssues({ perPage: 1 });
+      issue.labels.push("mutated");
+
+      expect(adapter.issues[2].labels).not.toContain("mutated");
+    });
+  });
+
+  describe("updateIssue", () => {
+    it("should update only the provided fields", async () => {
+      await adapter.createIssue({ title: "A", body: "a", labels: ["one"] });
+
+      const result = await adapter.updateIssue(1, {
+        body: "b",
+        state: "closed",
+      });
+
+      expect(result.number).toBe(1);
+      expect(await adapter.getIssue(1)).toMatchObject({
+        title: "A",
+        body: "b",
+        labels: ["one"],
+        state: "closed",
+      });
+    });
+  });
+
+  describe("labels and comments", () => {
+    beforeEach(async () => {
+      await adapter.createIssue({ title: "A", body: "", labels: ["one"] });
+    });
+
+    it("should add labels without duplicating existing ones", async () => {
+      await adapter.addLabels(1, ["one", "two"]);
+
+      expect((await adapter.getIssue(1)).labels).toEqual(["one", "two"]);
+    });
+
+    it("should remove labels and reject unknown ones", async () => {
+      await adapter.removeLabel(1, "one");
+
+      expect((await adapter.getIssue(1)).labels).toEqual([]);
+      await expect(adapter.removeLabel(1, "one")).rejects.toThrow(
+        "Label does not exist: one"
+      );
+    });
+
+    it("should record comments per issue", async () => {
+      const comment = await adapter.createComment(1, "Hello");
+
+      expect(comment).toEqual({
+        id: 1,
+        url: "https://github.com/test-org/job-search-repo/issues/1#issuecomment-1",
+      });
+      expect(adapter.commentsFor(1)).toEqual(["Hello"]);
+    });
+
+    it("should fail for unknown issues", async () => {
+      await expect(adapter.getIssue(99)).rejects.toThrow("Issue #99 not found");
+      await expect(adapter.createComment(99, "x")).rejects.toThrow(
+        "Issue #99 not found"
+      );
+    });
+
+    it("should list, update and delete comments", async () => {
+      const first = await adapter.createComment(1, "one");
+      const second = await adapter.createComment(1, "two");
+
+      await adapter.updateComment(first.id, "uno");
+      await adapter.deleteComment(second.id);
+      const third = await adapter.createComment(1, "three");
+
+      adapter.commenter = { login: "octocat", type: "User" };
+      const fourth = await adapter.createComment(1, "four");
+
+      const bot = { login: "github-actions[bot]", type: "Bot" };
+      expect(third.id).toBe(3);
+      expect(await adapter.listComments(1)).toEqual([
+        { id: 1, url: first.url, body: "uno", author: bot },
+        { id: 3, url: third.url, body: "three", author: bot },
+        { id: 4, url: fourth.url, body: "four", author: adapter.commenter },
+      ]);
+      await expect(adapter.deleteComment(2)).rejects.toThrow(
+        "Comment 2 not found"
+      );
+    });
+  });
+});
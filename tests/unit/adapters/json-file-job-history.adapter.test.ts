@@ -0,0 +1,75 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonFileJobHistoryStore } from "../../../src/adapters/json-file-job-history.adapter";
+import { toHistoryEntry } from "../../../src/services/job-history";
+import { JobHistoryEntry } from "../../../src/types";
+import { multipleJobsDigestResult } from "../../fixtures/digest-fixtures";
+
+const entries: JobHistoryEntry[] = multipleJobsDigestResult.jobs.map((job) =>
+  toHistoryEntry(job, "new", "2025-08-01/query", "2025-08-01T09:00:00.000Z")
+);
+
+describe("JsonFileJobHistoryStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "job-history-"));
+    filePath = join(dir, "data", "job-history.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should start empty when the file does not exist", async () => {
+    const store = new JsonFileJobHistoryStore(filePath);
+
+    expect((await store.getEntries(["job-123"])).size).toBe(0);
+    expect(await store.findJob("job-123")).toBeUndefined();
+  });
+
+  it("should persist entries for the next run", async () => {
+    await new JsonFileJobHistoryStore(filePath).saveEntries(entries);
+
+    const store = new JsonFileJobHistoryStore(filePath);
+    const found = await store.getEntries(["job-456", "job-unknown"]);
+
+    expect([...found.keys()]).toEqual(["job-456"]);
+    expect(found.get("job-456")).toEqual(entries[1]);
+    expect((await store.findJob("job-789"))?.title).toBe("Frontend Engineer");
+  });
+
+  it("should list entries most recently seen first", async () => {
+    const store = new JsonFileJobHistoryStore(filePath);
+    await store.saveEntries([
+      entries[0],
+      { ...entries[1], lastSeenAt: "2025-08-03T09:00:00.000Z" },
+    ]);
+
+    const listed = await new JsonFileJobHistoryStore(filePath).listEntries();
+
+    expect(listed.map((entry) => entry.job.id)).toEqual(["job-456", "job-123"]);
+  });
+
+  it("should replace entries by job id and keep the others", async () => {
+    const store = new JsonFileJobHistoryStore(filePath);
+    await store.saveEntries(entries);
+    await store.saveEntries([{ ...entries[0], status: "repeat" }]);
+
+    const file = JSON.parse(readFileSync(filePath, "utf8"));
+    expect(file.version).toBe(1);
+    expect(Object.keys(file.jobs)).toEqual(["job-123", "job-456", "job-789"]);
+    expect(file.jobs["job-123"].status).toBe("repeat");
+  });
+
+  it("should name the file when it cannot be parsed", async () => {
+    await new JsonFileJobHistoryStore(filePath).saveEntries([]);
+    writeFileSync(filePath, "{ not json");
+
+    await expect(
+      new JsonFileJobHistoryStore(filePath).getEntries(["job-123"])
+    ).rejects.toThrow(`Invalid job history file ${filePath}:`);
+  });
+});
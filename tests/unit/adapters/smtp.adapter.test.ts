@@ -0,0 +1,278 @@
+import { AddressInfo, createServer, Server, Socket } from "net";
+import { SmtpPublisher } from "../../../src/adapters/smtp.adapter";
+import { DigestPublication } from "../../../src/interfaces";
+import { validDigestResult } from "../../fixtures/digest-fixtures";
+
+// Local SMTP stub that accepts one message per session and records commands
+class SmtpStub {
+  public commands: string[] = [];
+  public messages: string[] = [];
+  public extensions = ["SIZE 10240000", "AUTH PLAIN"];
+  public rejectRecipient?: string;
+  /** Accept connections but never answer, like a stalled server */
+  public silent = false;
+  private server?: Server;
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.handle(socket));
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve)
+    );
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server!.close(resolve));
+  }
+
+  private handle(socket: Socket): void {
+    let buffer = "";
+    let inData = false;
+    let stalled = this.silent;
+    const reply = (text: string) => socket.write(`${text}\r\n`);
+
+    socket.on("error", () => undefined);
+    if (stalled) {
+      socket.resume();
+      return;
+    }
+    reply("220 stub.local ESMTP");
+    socket.on("data", (chunk) => {
+      if (stalled) {
+        return;
+      }
+      buffer += chunk.toString("utf8");
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          this.messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          reply("250 2.0.0 Queued");
+          continue;
+        }
+
+        const end = buffer.indexOf("\r\n");
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.commands.push(line);
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === "EHLO") {
+          const lines = ["stub.local", ...this.extensions];
+          lines.forEach((text, index) =>
+            reply(`250${index === lines.length - 1 ? " " : "-"}${text}`)
+          );
+        } else if (verb === "STARTTLS") {
+          // Agree, then never complete the TLS handshake
+          reply("220 2.0.0 Ready to start TLS");
+          stalled = true;
+          return;
+        } else if (verb === "AUTH") {
+          reply("235 2.7.0 Authenticated");
+        } else if (verb === "MAIL") {
+          reply("250 2.1.0 OK");
+        } else if (verb === "RCPT") {
+          reply(
+            this.rejectRecipient && line.includes(this.rejectRecipient)
+              ? "550 5.1.1 No such user"
+              : "250 2.1.5 OK"
+          );
+        } else if (verb === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (verb === "QUIT") {
+          reply("221 2.0.0 Bye");
+          socket.end();
+        } else {
+          reply("502 5.5.2 Command not recognized");
+        }
+      }
+    });
+  }
+}
+
+const publication: DigestPublication = {
+  title: "🎯 1 New Job Opportunity",
+  digest: validDigestResult,
+  issue: { number: 7, url: "https://github.com/owner/repo/issues/7" },
+};
+
+function decodePart(message: string, type: string): string {
+  const boundary = /boundary="([^"]+)"/.exec(message)![1];
+  const part = message
+    .split(`--${boundary}`)
+    .find((section) => section.includes(`Content-Type: ${type};`))!;
+  const body = part.split("\r\n\r\n")[1];
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+describe("SmtpPublisher", () => {
+  let stub: SmtpStub;
+  let port: number;
+
+  beforeEach(async () => {
+    stub = new SmtpStub();
+    port = await stub.start();
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  it("should email the digest to every recipient", async () => {
+    await new SmtpPublisher({
+      host: "127.0.0.1",
+      port,
+      from: "Job Digest <jobs@example.com>",
+      to: ["me@example.com", "Team <team@example.com>"],
+    }).publish(publication);
+
+    expect(stub.commands).toEqual([
+      "EHLO localhost",
+      "MAIL FROM:<jobs@example.com>",
+      "RCPT TO:<me@example.com>",
+      "RCPT TO:<team@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    const [message] = stub.messages;
+    expect(message).toContain("From: Job Digest <jobs@example.com>\r\n");
+    expect(message).toContain(
+      "To: me@example.com, Team <team@example.com>\r\n"
+    );
+    expect(message).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from("🎯 1 New Job Opportunity").toString(
+        "base64"
+      )}?=\r\n`
+    );
+
+    expect(message).toMatch(
+      /Content-Type: multipart\/alternative; boundary="[^"]+"\r\n\r\n--/
+    );
+
+    const text = decodePart(message, "text/plain");
+    expect(text).toContain("1. Senior Software Engineer at TechCorp Inc");
+    expect(text).toContain("   Apply: https://example.com/jobs/123");
+    expect(text).toContain(
+      "Full digest: https://github.com/owner/repo/issues/7"
+    );
+
+    const html = decodePart(message, "text/html");
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain('href="https://github.com/owner/repo/issues/7"');
+  });
+
+  it("should log in with AUTH PLAIN when insecure auth is allowed", async () => {
+    await new SmtpPublisher({
+      host: "127.0.0.1",
+      port,
+      username: "bot",
+      password: "hunter2",
+      requireTls: false,
+      from: "jobs@example.com",
+      to: ["me@example.com"],
+    }).publish(publication);
+
+    expect(stub.commands[1]).toBe(
+      `AUTH PLAIN ${Buffer.from("\0bot\0hunter2").toString("base64")}`
+    );
+  });
+
+  it("should refuse to send credentials without TLS", async () => {
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        username: "bot",
+        password: "hunter2",
+        from: "jobs@example.com",
+        to: ["me@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow(
+      "Failed to email digest: SMTP server 127.0.0.1 does not offer STARTTLS"
+    );
+    expect(stub.commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("should report rejected recipients", async () => {
+    stub.rejectRecipient = "nobody@example.com";
+
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        from: "jobs@example.com",
+        to: ["nobody@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow(
+      "Failed to email digest: SMTP RCPT rejected (550): 5.1.1 No such user"
+    );
+  });
+
+  it("should refuse addresses that would inject SMTP commands", async () => {
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        from: "jobs@example.com",
+        to: ["me@example.com>\r\nRCPT TO:<evil@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow(
+      'Failed to email digest: Invalid email address "me@example.com>\\r\\nRCPT TO:<evil@example.com": control characters are not allowed'
+    );
+    expect(stub.commands).toEqual([]);
+  });
+
+  it("should report connection failures", async () => {
+    await stub.stop();
+    stub = new SmtpStub();
+
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        from: "jobs@example.com",
+        to: ["me@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow("Failed to email digest: connect ECONNREFUSED");
+
+    port = await stub.start();
+  });
+
+  it("should give up on a TLS handshake that never completes", async () => {
+    stub.silent = true;
+
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        secure: true,
+        timeoutMs: 200,
+        from: "jobs@example.com",
+        to: ["me@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow(
+      "Failed to email digest: SMTP server did not reply within 200ms"
+    );
+  });
+
+  it("should give up on a STARTTLS upgrade that never completes", async () => {
+    stub.extensions = ["STARTTLS"];
+
+    await expect(
+      new SmtpPublisher({
+        host: "127.0.0.1",
+        port,
+        timeoutMs: 200,
+        from: "jobs@example.com",
+        to: ["me@example.com"],
+      }).publish(publication)
+    ).rejects.toThrow(
+      "Failed to email digest: SMTP server did not reply within 200ms"
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { DiscordWebhookPublisher } from "../../../src/adapters/discord-webhook.adapter";
+import { SlackWebhookPublisher } from "../../../src/adapters/slack-webhook.adapter";
+import { DigestPublication } from "../../../src/interfaces";
+import { validDigestResult } from "../../fixtures/digest-fixtures";
+
+// Local HTTP stub of a chat webhook that records requests
+class WebhookStub {
+  public requests: { url: string; headers: any; body: any }[] = [];
+  public status = 200;
+  public reply = "ok";
+  /** Read requests but never answer them */
+  public stalled = false;
+  private server?: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server!.close(resolve));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      this.requests.push({
+        url: req.url!,
+        headers: req.headers,
+        body: JSON.parse(body),
+      });
+      if (this.stalled) {
+        return;
+      }
+      res.writeHead(this.status, { "Content-Type": "text/plain" });
+      res.end(this.reply);
+    });
+  }
+}
+
+const publication: DigestPublication = {
+  title: "🎯 1 New Job Opportunity",
+  digest: validDigestResult,
+  issue: { number: 7, url: "https://github.com/owner/repo/issues/7" },
+};
+
+describe("chat webhook publishers", () => {
+  let stub: WebhookStub;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    stub = new WebhookStub();
+    baseUrl = await stub.start();
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  it("should post Block Kit JSON to the Slack webhook", async () => {
+    await new SlackWebhookPublisher(`${baseUrl}/services/T0/B0/secret`).publish(
+      publication
+    );
+
+    expect(stub.requests).toHaveLength(1);
+    const [request] = stub.requests;
+    expect(request.url).toBe("/services/T0/B0/secret");
+    expect(request.headers["content-type"]).toBe("application/json");
+    expect(request.body.text).toContain("🎯 1 New Job Opportunity");
+    expect(request.body.blocks[0].type).toBe("header");
+  });
+
+  it("should post embeds to the Discord webhook", async () => {
+    stub.status = 204;
+    stub.reply = "";
+
+    await new DiscordWebhookPublisher(
+      `${baseUrl}/api/webhooks/1/secret`
+    ).publish(publication);
+
+    const [request] = stub.requests;
+    expect(request.body.content).toContain("**🎯 1 New Job Opportunity**");
+    expect(request.body.embeds).toHaveLength(1);
+  });
+
+  it("should report the webhook's error without its URL", async () => {
+    stub.status = 400;
+    stub.reply = "invalid_blocks";
+
+    const error: Error = await new SlackWebhookPublisher(
+      `${baseUrl}/services/T0/B0/secret`
+    )
+      .publish(publication)
+      .catch((caught) => caught);
+
+    expect(error.message).toBe(
+      "Failed to post digest to Slack: Webhook error (400): invalid_blocks"
+    );
+    expect(error.message).not.toContain("secret");
+  });
+
+  it("should give up on a webhook that does not respond", async () => {
+    stub.stalled = true;
+
+    await expect(
+      new SlackWebhookPublisher(
+        `${baseUrl}/services/T0/B0/secret`,
+        undefined,
+        200
+      ).publish(publication)
+    ).rejects.toThrow(
+      "Failed to post digest to Slack: Webhook did not respond within 200ms"
+    );
+  });
+
+  it("should report network failures", async () => {
+    await stub.stop();
+    stub = new WebhookStub();
+
+    await expect(
+      new DiscordWebhookPublisher(`${baseUrl}/api/webhooks/1/secret`).publish(
+        publication
+      )
+    ).rejects.toThrow("Failed to post digest to Discord: Network error:");
+
+    baseUrl = await stub.start();
+  });
+});
@@ -0,0 +1,480 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+import { JsonFileJobHistoryStore } from "../../../src/adapters/json-file-job-history.adapter";
+import {
+  Cli,
+  CliIO,
+  EXIT_FAILURE,
+  EXIT_INVALID_DIGEST,
+  EXIT_OK,
+  EXIT_USAGE,
+} from "../../../src/cli";
+import { toHistoryEntry } from "../../../src/services/job-history";
+import { commentEvent } from "../../fixtures/comment-command-fixtures";
+import {
+  invalidDigestSamples,
+  validDigestResult,
+} from "../../fixtures/digest-fixtures";
+
+const digestJson = JSON.stringify(validDigestResult);
+
+class BufferIO implements CliIO {
+  out = "";
+  err = "";
+
+  constructor(
+    private stdin = "",
+    public env: Record<string, string | undefined> = {}
+  ) {}
+
+  stdout(text: string): void {
+    this.out += text;
+  }
+
+  stderr(text: string): void {
+    this.err += text;
+  }
+
+  async readStdin(): Promise<string> {
+    return this.stdin;
+  }
+}
+
+describe("Cli", () => {
+  let dir: string;
+  let digestFile: string;
+  let github: InMemoryGitHubAdapter;
+  let createGitHubClient: jest.Mock;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "cli-"));
+    digestFile = join(dir, "digest.json");
+    writeFileSync(digestFile, digestJson);
+    github = new InMemoryGitHubAdapter("owner", "repo");
+    createGitHubClient = jest.fn(() => github);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function run(args: string[], io = new BufferIO()) {
+    const exitCode = await new Cli(io, { createGitHubClient }).run(args);
+    return { exitCode, out: io.out, err: io.err };
+  }
+
+  describe("arguments", () => {
+    it("should print usage for --help or no command", async () => {
+      for (const args of [["--help"], [], ["help"]]) {
+        const { exitCode, out } = await run(args);
+
+        expect(exitCode).toBe(EXIT_OK);
+        expect(out).toContain("Usage: npm run cli -- <command>");
+      }
+    });
+
+    it("should reject unknown commands, flags and formats", async () => {
+      expect((await run(["deploy"])).exitCode).toBe(EXIT_USAGE);
+      expect((await run(["validate", "--verbose"])).exitCode).toBe(EXIT_USAGE);
+
+      const { exitCode, err } = await run(["export", "-f", "xlsx"]);
+      expect(exitCode).toBe(EXIT_USAGE);
+      expect(err).toContain(
+        "Unsupported format for export: xlsx (use csv, jsonl, ics)"
+      );
+      expect(err).toContain("Run with --help for usage");
+    });
+
+    it("should not take inherited object keys for commands", async () => {
+      for (const command of ["constructor", "toString", "__proto__"]) {
+        const { exitCode, err } = await run([command]);
+
+        expect(exitCode).toBe(EXIT_USAGE);
+        expect(err).toContain(`Unknown command: ${command}`);
+      }
+    });
+
+    it("should only accept --dry-run with publish", async () => {
+      const { exitCode, err } = await run(["preview", digestFile, "--dry-run"]);
+
+      expect(exitCode).toBe(EXIT_USAGE);
+      expect(err).toContain("--dry-run only applies to publish");
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept a valid digest file", async () => {
+      const { exitCode, out } = await run(["validate", digestFile]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toBe(
+        "✅ Digest is valid: 3 jobs (2 new) from Adzuna, Stack Overflow\n"
+      );
+    });
+
+    it("should report problems in a digest from stdin", async () => {
+      const io = new BufferIO(
+        JSON.stringify(invalidDigestSamples.jobMissingRequiredFields)
+      );
+      const { exitCode, out } = await run(["validate", "-"], io);
+
+      expect(exitCode).toBe(EXIT_INVALID_DIGEST);
+      expect(out).toContain("❌ Digest is invalid:");
+      expect(out).toContain("   $.jobs[0].title is required");
+    });
+
+    it("should print the report as JSON", async () => {
+      const { exitCode, out } = await run([
+        "validate",
+        digestFile,
+        "-f",
+        "json",
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(JSON.parse(out)).toEqual({
+        valid: true,
+        errors: [],
+        summary: "3 jobs (2 new) from Adzuna, Stack Overflow",
+      });
+    });
+
+    it("should fail when the file cannot be read", async () => {
+      const { exitCode, err } = await run(["validate", join(dir, "nope.json")]);
+
+      expect(exitCode).toBe(EXIT_FAILURE);
+      expect(err).toContain("Could not read digest file");
+    });
+  });
+
+  describe("preview", () => {
+    it("should render the issue markdown from stdin", async () => {
+      const { exitCode, out, err } = await run(
+        ["preview"],
+        new BufferIO(digestJson)
+      );
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toContain("# Job Search Results");
+      expect(out).toContain("Senior Software Engineer at **TechCorp Inc**");
+      expect(err).not.toContain("❌");
+      expect(createGitHubClient).not.toHaveBeenCalled();
+    });
+
+    it("should render HTML and plain text", async () => {
+      const html = await run(["preview", digestFile, "--format", "html"]);
+      expect(html.out).toMatch(/^<!DOCTYPE html>/);
+
+      const text = await run(["preview", digestFile, "--format", "text"]);
+      expect(text.out).toContain("1. Senior Software Engineer at TechCorp Inc");
+    });
+
+    it("should read job history without recording to it", async () => {
+      const historyFile = join(dir, "history.json");
+      await new JsonFileJobHistoryStore(historyFile).saveEntries([
+        toHistoryEntry(
+          validDigestResult.jobs[0],
+          "new",
+          "2025-07-30/query",
+          "2025-07-30T09:00:00.000Z"
+        ),
+      ]);
+
+      const { out } = await run([
+        "preview",
+        digestFile,
+        "--history",
+        historyFile,
+        "-f",
+        "text",
+      ]);
+
+      expect(out).toContain("👀 Seen before");
+      const entries = await new JsonFileJobHistoryStore(
+        historyFile
+      ).listEntries();
+      expect(entries).toHaveLength(1);
+    });
+
+    it("should exit with EXIT_INVALID_DIGEST for an invalid digest", async () => {
+      const { exitCode, out, err } = await run(["preview"], new BufferIO("{}"));
+
+      expect(exitCode).toBe(EXIT_INVALID_DIGEST);
+      expect(out).toBe("");
+      expect(err).toContain("$.query is required");
+    });
+  });
+
+  describe("publish", () => {
+    it("should create the issue with extra labels", async () => {
+      const { exitCode, out } = await run([
+        "publish",
+        digestFile,
+        "--owner",
+        "owner",
+        "--repo",
+        "repo",
+        "--labels",
+        "weekly, remote",
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toBe("https://github.com/owner/repo/issues/1\n");
+      expect(createGitHubClient).toHaveBeenCalledWith(
+        "owner",
+        "repo",
+        undefined
+      );
+      expect(github.issues[0].labels).toEqual(
+        expect.arrayContaining(["job-digest", "weekly", "remote"])
+      );
+    });
+
+    it("should take the repository from the environment", async () => {
+      const io = new BufferIO("", {
+        GITHUB_OWNER: "env-owner",
+        GITHUB_REPO: "env-repo",
+      });
+      await run(["publish", digestFile], io);
+
+      expect(createGitHubClient).toHaveBeenCalledWith(
+        "env-owner",
+        "env-repo",
+        undefined
+      );
+    });
+
+    it("should print the issue instead of posting it with --dry-run", async () => {
+      const { exitCode, out } = await run([
+        "publish",
+        digestFile,
+        "--dry-run",
+        "--labels",
+        "weekly",
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toMatch(
+        /^Title: 🎯 3 Job Opportunities \(2 new\)\nLabels: job-digest, automated, jobs-3, new-jobs, weekly\n\n# Job Search Results/
+      );
+      expect(createGitHubClient).not.toHaveBeenCalled();
+    });
+
+    it("should update the existing issue in upsert mode", async () => {
+      const settingsFile = join(dir, "settings.yaml");
+      writeFileSync(settingsFile, "digest:\n  mode: upsert\n");
+      const args = [
+        "publish",
+        digestFile,
+        "--owner",
+        "owner",
+        "--repo",
+        "repo",
+        "--settings",
+        settingsFile,
+        "-f",
+        "json",
+      ];
+
+      await run(args);
+      const { exitCode, out } = await run(args);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(JSON.parse(out)).toEqual({
+        number: 1,
+        url: "https://github.com/owner/repo/issues/1",
+        action: "updated",
+      });
+      expect(github.issues).toHaveLength(1);
+    });
+
+    it("should require a repository and a token", async () => {
+      const missingRepo = await run([
+        "publish",
+        digestFile,
+        "--owner",
+        "owner",
+      ]);
+      expect(missingRepo.exitCode).toBe(EXIT_USAGE);
+      expect(missingRepo.err).toContain("Repository required");
+
+      const io = new BufferIO("", {});
+      const exitCode = await new Cli(io).run([
+        "publish",
+        digestFile,
+        "--owner",
+        "owner",
+        "--repo",
+        "repo",
+      ]);
+      expect(exitCode).toBe(EXIT_USAGE);
+      expect(io.err).toContain("GITHUB_TOKEN environment variable required");
+    });
+
+    it("should report invalid settings as a usage error", async () => {
+      const settingsFile = join(dir, "settings.yaml");
+      writeFileSync(settingsFile, "digest:\n  mode: sometimes\n");
+
+      const { exitCode, err } = await run([
+        "publish",
+        digestFile,
+        "--dry-run",
+        "--settings",
+        settingsFile,
+      ]);
+
+      expect(exitCode).toBe(EXIT_USAGE);
+      expect(err).toContain("$.digest.mode");
+    });
+
+    it("should exit with EXIT_FAILURE when GitHub fails", async () => {
+      github.createIssue = jest
+        .fn()
+        .mockRejectedValue(new Error("Bad credentials"));
+
+      const { exitCode, out, err } = await run([
+        "publish",
+        digestFile,
+        "--owner",
+        "owner",
+        "--repo",
+        "repo",
+      ]);
+
+      expect(exitCode).toBe(EXIT_FAILURE);
+      expect(out).toBe("");
+      expect(err).toContain("Bad credentials");
+    });
+  });
+
+  describe("export", () => {
+    it("should write the jobs as CSV by default", async () => {
+      const { exitCode, out } = await run(["export", digestFile]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out.split("\r\n")[0]).toMatch(/^id,title,company,/);
+      expect(out.trimEnd().split("\r\n")).toHaveLength(2);
+    });
+
+    it("should write JSON Lines and calendars from stdin", async () => {
+      const jsonl = await run(
+        ["export", "--format", "jsonl"],
+        new BufferIO(digestJson)
+      );
+      expect(JSON.parse(jsonl.out).id).toBe("job-123");
+
+      const ics = await run(["export", "-f", "ics"], new BufferIO(digestJson));
+      expect(ics.out).toContain("BEGIN:VCALENDAR");
+    });
+  });
+
+  describe("history", () => {
+    it("should list remembered jobs", async () => {
+      const historyFile = join(dir, "history.json");
+      await new JsonFileJobHistoryStore(historyFile).saveEntries([
+        toHistoryEntry(
+          validDigestResult.jobs[0],
+          "new",
+          "2025-07-30/query",
+          "2025-07-30T09:00:00.000Z"
+        ),
+      ]);
+
+      const { exitCode, out } = await run(["history", historyFile]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toBe(
+        "2025-07-30  new      job-123  Senior Software Engineer at TechCorp Inc\n"
+      );
+      const json = await run(["history", historyFile, "-f", "json"]);
+      expect(JSON.parse(json.out)[0].job.id).toBe("job-123");
+    });
+
+    it("should handle a missing history file", async () => {
+      const { exitCode, out } = await run([
+        "history",
+        join(dir, "missing.json"),
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toBe("No jobs in history\n");
+    });
+
+    it("should require a history file", async () => {
+      expect((await run(["history"])).exitCode).toBe(EXIT_USAGE);
+    });
+  });
+
+  describe("comment", () => {
+    const repoArgs = ["--owner", "owner", "--repo", "repo"];
+    let historyFile: string;
+    let eventFile: string;
+
+    const writeEvent = (body: string) =>
+      writeFileSync(eventFile, JSON.stringify(commentEvent(body)));
+
+    beforeEach(async () => {
+      historyFile = join(dir, "history.json");
+      eventFile = join(dir, "event.json");
+      await run(["publish", digestFile, ...repoArgs, "--history", historyFile]);
+    });
+
+    it("should open application issues from the job history", async () => {
+      writeEvent("/apply 1");
+
+      const { exitCode, out } = await run([
+        "comment",
+        eventFile,
+        ...repoArgs,
+        "--history",
+        historyFile,
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toBe(
+        "✅ /apply 1 — Tracking **Senior Software Engineer** at **TechCorp Inc** in #2\n"
+      );
+      expect(github.issues[1].labels).toContain("job-application");
+      expect(github.comments[0].body).toContain("### 🤖 Commands");
+    });
+
+    it("should explain that /apply needs job details", async () => {
+      writeEvent("/apply 1");
+
+      const { exitCode, out } = await run(["comment", eventFile, ...repoArgs]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toContain("⚠️ /apply 1 — No job details available");
+    });
+
+    it("should skip publishing while digests are snoozed", async () => {
+      const settingsFile = join(dir, "settings.yaml");
+      writeFileSync(settingsFile, "digest:\n  commands: true\n");
+      writeEvent("/snooze 7d");
+      await run(["comment", eventFile, ...repoArgs]);
+
+      const { exitCode, out } = await run([
+        "publish",
+        digestFile,
+        ...repoArgs,
+        "--settings",
+        settingsFile,
+      ]);
+
+      expect(exitCode).toBe(EXIT_OK);
+      expect(out).toMatch(/^Digests snoozed until \S+; nothing posted\n$/);
+      expect(github.issues).toHaveLength(1);
+    });
+
+    it("should require a readable event file", async () => {
+      expect((await run(["comment", ...repoArgs])).exitCode).toBe(EXIT_USAGE);
+
+      writeFileSync(eventFile, "{not json");
+      const invalid = await run(["comment", eventFile, ...repoArgs]);
+      expect(invalid.exitCode).toBe(EXIT_USAGE);
+      expect(invalid.err).toContain(`Invalid event file ${eventFile}`);
+    });
+  });
+});
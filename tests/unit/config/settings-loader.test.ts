@@ -0,0 +1,272 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  SettingsLoader,
+  toDigestIssueOptions,
+  toFormatOptions,
+  toLocalAdapterOptions,
+} from "../../../src/config";
+
+const EXAMPLE_SETTINGS = join(
+  __dirname,
+  "../../../config/settings.example.yaml"
+);
+
+describe("SettingsLoader", () => {
+  let loader: SettingsLoader;
+
+  beforeEach(() => {
+    loader = new SettingsLoader({});
+  });
+
+  describe("load", () => {
+    it("should load the example settings file", () => {
+      const settings = loader.load(EXAMPLE_SETTINGS);
+
+      expect(settings.user_profile.timezone).toBe("America/New_York");
+      expect(settings.search_criteria.salary_min).toBe(80000);
+      expect(settings.filters.exclude_companies).toEqual([
+        "Company A",
+        "Company B",
+      ]);
+      expect(settings.sources.adzuna).toEqual({
+        enabled: true,
+        api_key_secret: "ADZUNA_API_KEY",
+      });
+      expect(settings.digest).toEqual({
+        mode: "create",
+        dedupe: "off",
+        dedupe_lookback: 30,
+        validation: "strict",
+        full_card_count: 10,
+        merge_duplicates: true,
+        commands: true,
+      });
+    });
+
+    it("should read JSON files", () => {
+      const dir = mkdtempSync(join(tmpdir(), "settings-"));
+      try {
+        const file = join(dir, "settings.json");
+        writeFileSync(file, JSON.stringify({ digest: { mode: "upsert" } }));
+
+        expect(loader.load(file).digest.mode).toBe("upsert");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should name the file it could not read", () => {
+      expect(() => loader.load("/nonexistent/settings.yaml")).toThrow(
+        "Could not read settings file /nonexistent/settings.yaml"
+      );
+    });
+  });
+
+  describe("parse", () => {
+    it("should fill in defaults for an empty file", () => {
+      const settings = loader.parse("");
+
+      expect(settings.filters).toEqual({
+        exclude_companies: [],
+        required_benefits: [],
+      });
+      expect(settings.notifications).toEqual({
+        github_issues: true,
+        email_digest: false,
+        timing: {},
+      });
+      expect(settings.digest.dedupe_lookback).toBe(30);
+    });
+
+    it("should keep defaults for sections left empty", () => {
+      const settings = loader.parse("filters:\ndigest:\n  dedupe: mark\n");
+
+      expect(settings.filters.exclude_companies).toEqual([]);
+      expect(settings.digest).toEqual({
+        mode: "create",
+        dedupe: "mark",
+        dedupe_lookback: 30,
+        validation: "strict",
+      });
+    });
+
+    it("should point at every offending key", () => {
+      const yaml = [
+        "filters:",
+        "  min_match_score: 1.5",
+        "  exclude_companies: BadCorp",
+        "digest:",
+        "  dedupe: sometimes",
+        "  max_jobs: 5",
+        "sources:",
+        "  adzuna:",
+        "    enabled: yes please",
+      ].join("\n");
+
+      expect(() => loader.parse(yaml, "config/settings.yaml")).toThrow(
+        "Invalid settings in config/settings.yaml: " +
+          "$.filters.exclude_companies must be an array; " +
+          "$.filters.min_match_score must be between 0 and 1; " +
+          "$.sources.adzuna.enabled must be a boolean; " +
+          "$.digest.dedupe must be one of: off, skip, mark; " +
+          "$.digest.max_jobs is not a known key"
+      );
+    });
+
+    it("should report YAML syntax errors with the file name", () => {
+      expect(() => loader.parse("filters: [", "settings.yaml")).toThrow(
+        "Invalid settings in settings.yaml:"
+      );
+    });
+
+    it("should reject a file that is not a mapping", () => {
+      expect(() => loader.parse("- a\n- b\n")).toThrow(
+        "Invalid settings in settings: $ must be an object"
+      );
+    });
+  });
+
+  describe("environment overrides", () => {
+    it("should override file values with typed env values", () => {
+      loader = new SettingsLoader({
+        JOB_SEARCH__FILTERS__MIN_MATCH_SCORE: "0.75",
+        JOB_SEARCH__FILTERS__EXCLUDE_COMPANIES: "[Initech, Hooli]",
+        JOB_SEARCH__NOTIFICATIONS__EMAIL_DIGEST: "true",
+        JOB_SEARCH__GITHUB__OWNER: "octocat",
+        UNRELATED: "ignored",
+      });
+
+      const settings = loader.parse("filters:\n  min_match_score: 0.5\n");
+
+      expect(settings.filters.min_match_score).toBe(0.75);
+      expect(settings.filters.exclude_companies).toEqual(["Initech", "Hooli"]);
+      expect(settings.notifications.email_digest).toBe(true);
+      expect(settings.github.owner).toBe("octocat");
+    });
+
+    it("should keep text settings as strings whatever they look like", () => {
+      loader = new SettingsLoader({
+        JOB_SEARCH__GITHUB__OWNER: "no",
+        JOB_SEARCH__GITHUB__REPO: "2025",
+        JOB_SEARCH__USER_PROFILE__TIMEZONE: "null",
+        JOB_SEARCH__SEARCH_CRITERIA__KEYWORDS: "[typescript, 3d, 2025]",
+      });
+
+      const settings = loader.parse("");
+
+      expect(settings.github.owner).toBe("no");
+      expect(settings.github.repo).toBe("2025");
+      expect(settings.user_profile.timezone).toBe("null");
+      expect(settings.search_criteria.keywords).toEqual([
+        "typescript",
+        "3d",
+        "2025",
+      ]);
+    });
+
+    it("should ignore empty overrides", () => {
+      loader = new SettingsLoader({ JOB_SEARCH__DIGEST__DEDUPE: "" });
+
+      expect(loader.parse("digest:\n  dedupe: skip\n").digest.dedupe).toBe(
+        "skip"
+      );
+    });
+
+    it("should name the variable behind an invalid override", () => {
+      loader = new SettingsLoader({ JOB_SEARCH__DIGEST__MODE: "replace" });
+
+      expect(() => loader.parse("")).toThrow(
+        "$.digest.mode (from JOB_SEARCH__DIGEST__MODE) must be one of: create, upsert"
+      );
+    });
+
+    it("should reject overrides for unknown keys", () => {
+      loader = new SettingsLoader({ JOB_SEARCH__FILTERS__MIN_SCORE: "0.5" });
+
+      expect(() => loader.parse("")).toThrow(
+        "$.filters.min_score (from JOB_SEARCH__FILTERS__MIN_SCORE) is not a known key"
+      );
+    });
+  });
+
+  describe("option builders", () => {
+    it("should build JobDigestService options", () => {
+      const settings = loader.load(EXAMPLE_SETTINGS);
+
+      expect(toDigestIssueOptions(settings)).toEqual({
+        dedupe: "off",
+        dedupeLookback: 30,
+        maxBodyLength: undefined,
+        validation: "strict",
+        layout: undefined,
+        fullCardCount: 10,
+        groupBy: undefined,
+        mergeDuplicates: true,
+        commands: true,
+        preferences: {
+          excludeCompanies: ["Company A", "Company B"],
+          minMatchScore: 0.6,
+          maxJobsPerDigest: 10,
+          salaryMin: 80000,
+          experienceLevels: ["mid-level", "senior"],
+          jobTypes: ["full-time", "contract"],
+        },
+        scoring: {
+          mode: "fill",
+          weights: {
+            keywords: 0.35,
+            location: 0.15,
+            salary: 0.15,
+            remote: 0.1,
+            tags: 0.1,
+            experience: 0.15,
+          },
+          profile: {
+            keywords: [
+              "software engineer",
+              "python developer",
+              "full stack developer",
+            ],
+            locations: ["Remote", "New York, NY", "San Francisco, CA"],
+            salaryMin: 80000,
+            tags: ["python", "typescript", "react"],
+            experienceLevels: ["mid-level", "senior"],
+          },
+        },
+      });
+    });
+
+    it("should leave scoring off unless enabled", () => {
+      const settings = loader.parse("scoring:\n  weights:\n    salary: 0.5\n");
+
+      expect(toDigestIssueOptions(settings).scoring).toBeUndefined();
+      expect(() =>
+        loader.parse("scoring:\n  weights:\n    vibes: 1\n")
+      ).toThrow("$.scoring.weights.vibes is not a known key");
+    });
+
+    it("should build IssueFormatter options", () => {
+      const settings = loader.parse(
+        "digest:\n  max_body_length: 30000\n  layout: compact\n  group_by: location\n"
+      );
+
+      expect(toFormatOptions(settings)).toEqual({
+        maxBodyLength: 30000,
+        layout: "compact",
+        fullCardCount: undefined,
+        groupBy: "location",
+      });
+    });
+
+    it("should build LocalGitHubAdapter options", () => {
+      const settings = loader.load(EXAMPLE_SETTINGS);
+
+      expect(toLocalAdapterOptions(settings)).toEqual({
+        apiUrl: undefined,
+        retry: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 60000 },
+      });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+import { Logger } from "../../../src/interfaces";
+import { ApplicationTrackerService } from "../../../src/services/application-tracker.service";
+import {
+  multipleJobsDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+class MockLogger implements Logger {
+  public infoCalls: string[] = [];
+  public debugCalls: string[] = [];
+  public errorCalls: string[] = [];
+
+  info(message: string): void {
+    this.infoCalls.push(message);
+  }
+
+  debug(message: string): void {
+    this.debugCalls.push(message);
+  }
+
+  error(message: string): void {
+    this.errorCalls.push(message);
+  }
+}
+
+describe("ApplicationTrackerService", () => {
+  let github: InMemoryGitHubAdapter;
+  let logger: MockLogger;
+  let tracker: ApplicationTrackerService;
+
+  beforeEach(() => {
+    github = new InMemoryGitHubAdapter("test-org", "job-search-repo");
+    logger = new MockLogger();
+    tracker = new ApplicationTrackerService(github, logger);
+  });
+
+  describe("openApplication", () => {
+    it("should open a tracking issue in the interested state", async () => {
+      const application = await tracker.openApplication(validJobListing, 42);
+
+      expect(application).toEqual({
+        number: 1,
+        url: "https://github.com/test-org/job-search-repo/issues/1",
+        jobId: "job-123",
+        status: "interested",
+      });
+
+      const issue = github.issues[0];
+      expect(issue.title).toBe("📝 Senior Software Engineer at TechCorp Inc");
+      expect(issue.labels).toEqual(["job-application", "status:interested"]);
+    });
+
+    it("should render a structured body", async () => {
+      await tracker.openApplication(validJobListing, 42);
+
+      const body = github.issues[0].body;
+      expect(body).toContain("<!-- job-id: job-123 -->");
+      expect(body).toContain("## 📋 Job Details");
+      expect(body).toContain("| Company | TechCorp Inc |");
+      expect(body).toContain("| Salary | $100,000 - $120,000 |");
+      expect(body).toContain("| Match | 95% |");
+      expect(body).toContain(
+        "[**View Job Posting**](https://example.com/jobs/123)"
+      );
+      expect(body).toContain("Found in digest #42");
+      expect(body).toContain("## ✅ Application Checklist");
+      expect(body).toContain("- [ ] Submit application");
+    });
+
+    it("should omit details the job does not have", async () => {
+      const minimalJob = multipleJobsDigestResult.jobs[2];
+
+      await tracker.openApplication({
+        ...minimalJob,
+        salary: undefined,
+        match_score: undefined,
+      });
+
+      const body = github.issues[0].body;
+      expect(body).not.toContain("| Salary |");
+      expect(body).not.toContain("| Match |");
+      expect(body).not.toContain("Found in digest");
+    });
+
+    it("should reuse the existing issue for the same job", async () => {
+      const first = await tracker.openApplication(validJobListing);
+      const second = await tracker.openApplication(validJobListing);
+
+      expect(second).toEqual(first);
+      expect(github.issues).toHaveLength(1);
+      expect(logger.infoCalls).toContain(
+        "Application for job-123 already tracked in #1"
+      );
+    });
+
+    it("should open separate issues for different jobs", async () => {
+      for (const job of multipleJobsDigestResult.jobs) {
+        await tracker.openApplication(job);
+      }
+
+      expect(github.issues).toHaveLength(3);
+      expect((await tracker.findApplication("job-456"))!.number).toBe(2);
+    });
+
+    it("should find applications beyond the first page of issues", async () => {
+      await tracker.openApplication(validJobListing);
+      for (let index = 0; index < 120; index++) {
+        await tracker.openApplication({
+          ...validJobListing,
+          id: `job-filler-${index}`,
+        });
+      }
+
+      expect((await tracker.findApplication("job-123"))!.number).toBe(1);
+      expect(await tracker.findApplication("job-missing")).toBeUndefined();
+    });
+  });
+
+  describe("transition", () => {
+    it("should move through the full lifecycle", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+
+      await tracker.transition(number, "applied");
+      await tracker.transition(number, "interviewing");
+      const result = await tracker.transition(number, "offer");
+
+      expect(result.status).toBe("offer");
+      expect(github.issues[0].labels).toEqual([
+        "job-application",
+        "status:offer",
+      ]);
+      expect(github.commentsFor(number)).toHaveLength(3);
+    });
+
+    it("should swap the status label and comment on the issue", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+
+      await tracker.transition(number, "applied", "Submitted via careers page");
+
+      expect(github.issues[0].labels).toEqual([
+        "job-application",
+        "status:applied",
+      ]);
+      const [comment] = github.commentsFor(number);
+      expect(comment).toContain("### 🔄 Status Update");
+      expect(comment).toContain("⭐ Interested → **📨 Applied**");
+      expect(comment).toContain("> Submitted via careers page");
+    });
+
+    it("should allow rejection from any open state", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+
+      const result = await tracker.transition(number, "rejected");
+
+      expect(result.status).toBe("rejected");
+    });
+
+    it("should reject transitions that skip a stage", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+
+      await expect(tracker.transition(number, "offer")).rejects.toThrow(
+        "Invalid status transition for #1: interested → offer"
+      );
+      expect(github.issues[0].labels).toContain("status:interested");
+      expect(github.comments).toHaveLength(0);
+    });
+
+    it("should treat offer and rejected as terminal", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+      await tracker.transition(number, "rejected");
+
+      await expect(tracker.transition(number, "applied")).rejects.toThrow(
+        "rejected → applied"
+      );
+      expect(tracker.nextStatuses("offer")).toEqual([]);
+    });
+
+    it("should refuse issues that are not applications", async () => {
+      await github.createIssue({
+        title: "Digest",
+        body: "",
+        labels: ["job-digest"],
+      });
+
+      await expect(tracker.transition(1, "applied")).rejects.toThrow(
+        "Issue #1 is not a job application"
+      );
+    });
+
+    it("should refuse status labels that are not lifecycle states", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+      await github.removeLabel(number, "status:interested");
+      await github.addLabels(number, ["status:constructor"]);
+
+      await expect(tracker.getApplication(number)).rejects.toThrow(
+        "Issue #1 has unknown status: constructor"
+      );
+    });
+
+    it("should refuse applications with ambiguous status labels", async () => {
+      const { number } = await tracker.openApplication(validJobListing);
+      await github.addLabels(number, ["status:applied"]);
+
+      await expect(tracker.getApplication(number)).rejects.toThrow(
+        "must have exactly one status label, found status:interested, status:applied"
+      );
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+import { Clock, JobLookup, Logger } from "../../../src/interfaces";
+import { CommentCommandService } from "../../../src/services/comment-command.service";
+import { extractCommandMarkers } from "../../../src/services/issue-markers";
+import { JobDigestService } from "../../../src/services/job-digest.service";
+import { JobListing } from "../../../src/types";
+import {
+  commentEvent,
+  issueCommentCreatedJson,
+} from "../../fixtures/comment-command-fixtures";
+import { multipleJobsDigestResult } from "../../fixtures/digest-fixtures";
+
+class MockLogger implements Logger {
+  public infoCalls: string[] = [];
+  public debugCalls: string[] = [];
+  public errorCalls: string[] = [];
+
+  info(message: string): void {
+    this.infoCalls.push(message);
+  }
+
+  debug(message: string): void {
+    this.debugCalls.push(message);
+  }
+
+  error(message: string): void {
+    this.errorCalls.push(message);
+  }
+}
+
+class FixedClock implements Clock {
+  now(): number {
+    return Date.parse("2025-08-01T12:00:00Z");
+  }
+
+  async sleep(): Promise<void> {}
+}
+
+class FakeJobLookup implements JobLookup {
+  constructor(private jobs: JobListing[]) {}
+
+  async findJob(jobId: string): Promise<JobListing | undefined> {
+    return this.jobs.find((job) => job.id === jobId);
+  }
+}
+
+describe("CommentCommandService", () => {
+  let github: InMemoryGitHubAdapter;
+  let logger: MockLogger;
+  let service: CommentCommandService;
+
+  const lastReply = () => github.comments[github.comments.length - 1].body;
+
+  beforeEach(async () => {
+    github = new InMemoryGitHubAdapter("test-org", "job-search-repo");
+    logger = new MockLogger();
+    service = new CommentCommandService(github, logger, {
+      jobs: new FakeJobLookup(multipleJobsDigestResult.jobs),
+      clock: new FixedClock(),
+    });
+
+    // Digest #1 lists job-123, job-456, job-789 in that order
+    await new JobDigestService(github, logger).createDigestIssue(
+      JSON.stringify(multipleJobsDigestResult)
+    );
+  });
+
+  describe("parseCommands", () => {
+    it("should read one command per line and skip code blocks", () => {
+      const commands = service.parseCommands(
+        "Looks good\n  /APPLY 3  \n```\n/hide 1\n```\n> /more 2\n/snooze 7d"
+      );
+
+      expect(commands).toEqual([
+        { name: "apply", args: ["3"], text: "/APPLY 3" },
+        { name: "snooze", args: ["7d"], text: "/snooze 7d" },
+      ]);
+    });
+  });
+
+  describe("handle", () => {
+    it("should run every command in a sample webhook payload", async () => {
+      const results = await service.handle(JSON.parse(issueCommentCreatedJson));
+
+      expect(results.map(({ ok, jobIds }) => ({ ok, jobIds }))).toEqual([
+        { ok: true, jobIds: ["job-123"] },
+        { ok: true, jobIds: [] },
+      ]);
+      expect(github.comments).toHaveLength(1);
+      expect(lastReply()).toContain("### 🤖 Commands");
+      expect(lastReply()).toContain(
+        "- ✅ `/apply 1` — Tracking **Senior Software Engineer** at **TechCorp Inc** in #2"
+      );
+      expect(extractCommandMarkers(lastReply())).toEqual([
+        { command: "hide", value: "company:StartupCorp" },
+      ]);
+    });
+
+    it("should open an application issue linked to the digest for /apply", async () => {
+      await service.handle(commentEvent("/apply job-789"));
+
+      const application = github.issues[1];
+      expect(application.title).toBe("📝 Frontend Engineer at DesignCorp");
+      expect(application.labels).toContain("job-application");
+      expect(application.body).toContain("Found in digest #1");
+    });
+
+    it("should report jobs it has no details for", async () => {
+      service = new CommentCommandService(github, logger);
+
+      const [result] = await service.handle(commentEvent("/apply 2"));
+
+      expect(result.ok).toBe(false);
+      expect(result.message).toBe("No job details available for `job-456`");
+      expect(github.issues).toHaveLength(1);
+    });
+
+    it("should record hidden jobs and more-like-this requests", async () => {
+      await service.handle(commentEvent("/hide 2\n/more 3"));
+
+      expect(extractCommandMarkers(lastReply())).toEqual([
+        { command: "hide", value: "job:job-456" },
+        { command: "more", value: "job-789" },
+      ]);
+    });
+
+    it("should snooze the digest with a label and the wake-up time", async () => {
+      const [result] = await service.handle(commentEvent("/snooze 7d"));
+
+      expect(result.ok).toBe(true);
+      expect(github.issues[0].labels).toContain("snoozed");
+      expect(extractCommandMarkers(lastReply())).toEqual([
+        { command: "snooze", value: "2025-08-08T12:00:00.000Z" },
+      ]);
+    });
+
+    it("should label the digest when hides or snoozes are recorded", async () => {
+      await service.handle(commentEvent("/more 3"));
+      expect(github.issues[0].labels).not.toContain("digest-commands");
+
+      await service.handle(commentEvent("/hide 2"));
+      expect(github.issues[0].labels).toContain("digest-commands");
+    });
+
+    it("should explain invalid commands in the reply", async () => {
+      const results = await service.handle(
+        commentEvent("/more 9\n/snooze soon\n/apply\n/archive 1")
+      );
+
+      expect(results.every((result) => !result.ok)).toBe(true);
+      expect(results.map((result) => result.message)).toEqual([
+        "Job 9 is not in this digest (1-3)",
+        "Expected a duration. `/snooze <duration>` (e.g. `7d`, `12h`, `2w`) pauses new digests",
+        "Expected one job. `/apply <job>` opens an application issue",
+        expect.stringContaining("Unknown command. Available:"),
+      ]);
+      expect(lastReply()).toContain(
+        "- ⚠️ `/more 9` — Job 9 is not in this digest"
+      );
+    });
+
+    it("should ignore edits, bots, other issues and plain comments", async () => {
+      const ignored = [
+        commentEvent("/apply 1", { action: "edited" }),
+        commentEvent("/apply 1", {
+          comment: {
+            id: 2,
+            body: "/apply 1",
+            user: { login: "job-bot[bot]", type: "Bot" },
+          },
+        }),
+        commentEvent("/apply 1", {
+          issue: { number: 1, labels: [{ name: "bug" }] },
+        }),
+        commentEvent("Nice list, thanks!"),
+      ];
+
+      for (const event of ignored) {
+        expect(await service.handle(event)).toEqual([]);
+      }
+      expect(github.comments).toHaveLength(0);
+      expect(github.issues).toHaveLength(1);
+    });
+
+    it("should only take commands from collaborators or allowed users", async () => {
+      const outsider = (login: string) =>
+        commentEvent("/snooze 7d", {
+          comment: {
+            id: 3,
+            body: "/snooze 7d",
+            user: { login, type: "User" },
+            author_association: "CONTRIBUTOR",
+          },
+        });
+
+      expect(await service.handle(outsider("stranger"))).toEqual([]);
+      expect(github.comments).toHaveLength(0);
+
+      const allowing = new CommentCommandService(github, logger, {
+        clock: new FixedClock(),
+        allowedUsers: ["friend"],
+      });
+      expect(await allowing.handle(outsider("stranger"))).toEqual([]);
+      expect(await allowing.handle(outsider("friend"))).toHaveLength(1);
+      expect(lastReply()).toContain("Snoozed until");
+    });
+  });
+
+  describe("effect on later digests", () => {
+    const nextDigest = JSON.stringify({
+      ...multipleJobsDigestResult,
+      metadata: {
+        ...multipleJobsDigestResult.metadata,
+        generated_at: "2025-08-02T09:00:00Z",
+      },
+    });
+
+    it("should leave hidden jobs and companies out of the next digest", async () => {
+      await service.handle(commentEvent("/hide 1\n/hide company:StartupCorp"));
+
+      await new JobDigestService(github, logger).createDigestIssue(nextDigest, {
+        commands: true,
+      });
+
+      const next = github.issues[github.issues.length - 1].body;
+      expect(next).not.toContain("<!-- job-id: job-123 -->");
+      expect(next).not.toContain("<!-- job-id: job-456 -->");
+      expect(next).toContain("<!-- job-id: job-789 -->");
+      expect(logger.infoCalls).toContain("Filter hidden removed 2 job(s)");
+    });
+
+    it("should ignore markers typed into comments by hand", async () => {
+      github.commenter = { login: "mallory", type: "User" };
+      await github.createComment(
+        1,
+        "<!-- command: snooze 2099-01-01T00:00:00Z --> <!-- command: hide job%3Ajob-123 -->"
+      );
+      github.commenter = { login: "github-actions[bot]", type: "Bot" };
+      await github.createComment(1, "<!-- command: hide %E0 -->");
+      await github.addLabels(1, ["digest-commands"]);
+      const digests = new JobDigestService(github, logger);
+
+      expect(
+        await digests.findActiveSnooze(
+          { commands: true },
+          new Date("2025-08-02T11:00:00Z")
+        )
+      ).toBeUndefined();
+      await digests.createDigestIssue(nextDigest, { commands: true });
+      expect(github.issues[github.issues.length - 1].body).toContain(
+        "<!-- job-id: job-123 -->"
+      );
+    });
+
+    it("should ignore recorded hides unless commands are enabled", async () => {
+      await service.handle(commentEvent("/hide 1"));
+
+      await new JobDigestService(github, logger).createDigestIssue(nextDigest);
+
+      expect(github.issues[github.issues.length - 1].body).toContain(
+        "<!-- job-id: job-123 -->"
+      );
+    });
+
+    it("should report an active snooze until it expires", async () => {
+      await service.handle(commentEvent("/snooze 1d"));
+      const digests = new JobDigestService(github, logger);
+
+      expect(
+        await digests.findActiveSnooze(
+          { commands: true },
+          new Date("2025-08-02T11:00:00Z")
+        )
+      ).toBe("2025-08-02T12:00:00.000Z");
+      expect(
+        await digests.findActiveSnooze(
+          { commands: true },
+          new Date("2025-08-02T13:00:00Z")
+        )
+      ).toBeUndefined();
+      expect(
+        await digests.findActiveSnooze({}, new Date("2025-08-02T11:00:00Z"))
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  exportCsv,
+  exportDeadlines,
+  exportDigest,
+  exportJsonLines,
+} from "../../../src/services/digest-exporter";
+import {
+  emptyDigestResult,
+  multipleJobsDigestResult,
+  validDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+describe("digest exporter", () => {
+  describe("exportCsv", () => {
+    it("should write a header and one row per job with every field", () => {
+      const lines = exportCsv(validDigestResult).split("\r\n");
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0].split(",")).toHaveLength(20);
+      expect(lines[0]).toMatch(/^id,title,company,location,salary,/);
+      expect(lines[1]).toBe(
+        [
+          "job-123",
+          "Senior Software Engineer",
+          "TechCorp Inc",
+          "Remote",
+          `"$100,000 - $120,000"`,
+          "We are looking for a senior software engineer to join our team...",
+          `"Bachelor's degree in Computer Science, 5+ years experience"`,
+          `"Health insurance, 401k, flexible hours"`,
+          "https://example.com/jobs/123",
+          "Adzuna",
+          "2025-07-30T10:00:00Z",
+          "2025-08-15T23:59:59Z",
+          "full-time",
+          "senior",
+          "true",
+          "",
+          "typescript; react; node.js",
+          "0.95",
+          "Remote work available; Senior level; Tech stack match",
+          "",
+        ].join(",")
+      );
+      expect(lines[2]).toBe("");
+    });
+
+    it("should quote quotes and line breaks and defuse formulas", () => {
+      const csv = exportCsv({
+        ...emptyDigestResult,
+        jobs: [
+          {
+            ...validJobListing,
+            title: `Engineer "II"`,
+            description: "Line one\nLine two",
+            company: '=HYPERLINK("http://evil")',
+            salary: "-5",
+          },
+        ],
+      });
+
+      expect(csv).toContain(`,"Engineer ""II""",`);
+      expect(csv).toContain(`"Line one\nLine two"`);
+      expect(csv).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+      expect(csv).toContain(",-5,");
+    });
+
+    it("should list other sources of merged jobs", () => {
+      const csv = exportCsv({
+        ...emptyDigestResult,
+        jobs: [
+          {
+            ...validJobListing,
+            also_listed_on: [
+              { id: "x-1", source: "Indeed", url: "https://indeed.example/1" },
+            ],
+          },
+        ],
+      });
+
+      expect(csv).toContain(",Indeed <https://indeed.example/1>\r\n");
+    });
+  });
+
+  describe("exportJsonLines", () => {
+    it("should write one parsable job per line", () => {
+      const lines = exportJsonLines(multipleJobsDigestResult)
+        .trimEnd()
+        .split("\n");
+
+      expect(lines.map((line) => JSON.parse(line))).toEqual(
+        multipleJobsDigestResult.jobs
+      );
+    });
+
+    it("should write nothing for an empty digest", () => {
+      expect(exportJsonLines(emptyDigestResult)).toBe("");
+    });
+  });
+
+  describe("exportDeadlines", () => {
+    it("should add an all-day event for each application deadline", () => {
+      const ics = exportDeadlines({
+        ...multipleJobsDigestResult,
+        jobs: [
+          validJobListing,
+          { ...validJobListing, id: "job-2", application_deadline: undefined },
+          { ...validJobListing, id: "job-3", application_deadline: "soon" },
+        ],
+      });
+      const lines = ics.split("\r\n");
+
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toContain("VERSION:2.0");
+      expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(1);
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "UID:job-123-deadline@job-search-automation",
+          "DTSTAMP:20250731T090000Z",
+          "DTSTART;VALUE=DATE:20250815",
+          "DTEND;VALUE=DATE:20250816",
+          "SUMMARY:Apply: Senior Software Engineer at TechCorp Inc",
+          "URL:https://example.com/jobs/123",
+        ])
+      );
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+
+    it("should escape text and fold long lines", () => {
+      const ics = exportDeadlines({
+        ...emptyDigestResult,
+        jobs: [
+          {
+            ...validJobListing,
+            title: "Engineer; Platform, Infra",
+            company: "Ünicode GmbH ".repeat(10).trim(),
+          },
+        ],
+      });
+
+      expect(ics).toContain("SUMMARY:Apply: Engineer\\; Platform\\, Infra at");
+      for (const line of ics.split("\r\n")) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      const unfolded = ics.replace(/\r\n /g, "");
+      expect(unfolded).toContain(`at ${"Ünicode GmbH ".repeat(10).trim()}\r\n`);
+    });
+
+    it("should write an empty calendar when no job has a deadline", () => {
+      expect(exportDeadlines(emptyDigestResult)).not.toContain("VEVENT");
+    });
+  });
+
+  it("should export by format name", () => {
+    expect(exportDigest(validDigestResult, "csv")).toBe(
+      exportCsv(validDigestResult)
+    );
+    expect(exportDigest(validDigestResult, "jsonl")).toBe(
+      exportJsonLines(validDigestResult)
+    );
+    expect(exportDigest(validDigestResult, "ics")).toBe(
+      exportDeadlines(validDigestResult)
+    );
+  });
+});
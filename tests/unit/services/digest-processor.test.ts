@@ -3,6 +3,7 @@ import {
   emptyDigestResult,
   invalidDigestSamples,
   multipleJobsDigestResult,
+  partiallyInvalidDigest,
   validDigestResult,
 } from "../../fixtures/digest-fixtures";
 
@@ -91,7 +92,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("Missing or invalid summary object");
+        }).toThrow("$.summary is required");
       });
 
       it("should throw error for invalid summary type", () => {
@@ -101,7 +102,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("Missing or invalid summary object");
+        }).toThrow("$.summary must be an object");
       });
 
       it("should throw error for missing total_jobs_found", () => {
@@ -111,7 +112,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("Missing or invalid total_jobs_found in summary");
+        }).toThrow("$.summary.total_jobs_found is required");
       });
 
       it("should throw error for invalid jobs array", () => {
@@ -119,7 +120,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("Jobs data must be an array");
+        }).toThrow("$.jobs must be an array");
       });
 
       it("should throw error for job missing required fields", () => {
@@ -129,7 +130,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("Job at index 0: missing or invalid");
+        }).toThrow("$.jobs[0].title is required");
       });
 
       it("should throw error for invalid match score", () => {
@@ -137,7 +138,7 @@ describe("DigestProcessor", () => {
 
         expect(() => {
           processor.parse(jsonData);
-        }).toThrow("match_score must be a number between 0 and 1");
+        }).toThrow("$.jobs[0].match_score must be between 0 and 1");
       });
 
       it("should throw error for empty string input", () => {
@@ -210,6 +211,165 @@ describe("DigestProcessor", () => {
     });
   });
 
+  describe("validate", () => {
+    it("should report a valid digest with no errors", () => {
+      const report = processor.validate(validDigestResult);
+
+      expect(report).toEqual({ valid: true, errors: [] });
+    });
+
+    it("should collect every violation with its JSON path", () => {
+      const report = processor.validate({
+        ...validDigestResult,
+        jobs: [
+          { ...validJobWithout("title"), match_score: 3 },
+          validDigestResult.jobs[0],
+          { ...validDigestResult.jobs[0], company: "", url: 42 },
+        ],
+        metadata: {},
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual([
+        { path: "$.jobs[0].title", message: "is required" },
+        { path: "$.jobs[0].match_score", message: "must be between 0 and 1" },
+        { path: "$.jobs[2].company", message: "must not be empty" },
+        { path: "$.jobs[2].url", message: "must be a string" },
+        { path: "$.metadata.generated_at", message: "is required" },
+      ]);
+    });
+
+    it("should check optional fields only when present", () => {
+      const report = processor.validate({
+        ...validDigestResult,
+        query: { ...validDigestResult.query, location: 10 },
+        jobs: [
+          {
+            ...validDigestResult.jobs[0],
+            salary: null,
+            remote_option: "yes",
+            match_reasons: ["ok", 7],
+          },
+        ],
+      });
+
+      expect(report.errors).toEqual([
+        { path: "$.query.location", message: "must be a string" },
+        { path: "$.jobs[0].remote_option", message: "must be a boolean" },
+        { path: "$.jobs[0].match_reasons[1]", message: "must be a string" },
+      ]);
+    });
+
+    it("should reject a non-object root", () => {
+      expect(processor.validate([]).errors).toEqual([
+        { path: "$", message: "must be an object" },
+      ]);
+    });
+  });
+
+  describe("validateJson", () => {
+    it("should report invalid JSON at the root path", () => {
+      const report = processor.validateJson("{ invalid json }");
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toHaveLength(1);
+      expect(report.errors[0].path).toBe("$");
+      expect(report.errors[0].message).toContain("is not valid JSON");
+    });
+
+    it("should include every error in the parse failure message", () => {
+      const jsonData = JSON.stringify({
+        ...validDigestResult,
+        jobs: "none",
+        metadata: null,
+      });
+
+      expect(() => processor.parse(jsonData)).toThrow(
+        "Invalid digest data: 2 validation errors: $.jobs must be an array; $.metadata is required"
+      );
+    });
+  });
+
+  describe("parseLenient", () => {
+    it("should keep valid jobs and quarantine invalid ones", () => {
+      const { digest, skipped } = processor.parseLenient(
+        JSON.stringify(partiallyInvalidDigest)
+      );
+
+      expect(digest.jobs.map((job) => job.id)).toEqual([
+        validDigestResult.jobs[0].id,
+      ]);
+      expect(skipped).toEqual([
+        {
+          index: 0,
+          id: "job-no-description",
+          title: "Senior Software Engineer",
+          errors: [{ path: "$.jobs[0].description", message: "is required" }],
+        },
+        {
+          index: 2,
+          id: "job-bad-score",
+          title: "Senior Software Engineer",
+          errors: [
+            { path: "$.jobs[2].url", message: "must be a string" },
+            {
+              path: "$.jobs[2].match_score",
+              message: "must be between 0 and 1",
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should append skipped listings to metadata warnings", () => {
+      const { digest } = processor.parseLenient(
+        JSON.stringify(partiallyInvalidDigest)
+      );
+
+      expect(digest.metadata.warnings).toEqual([
+        "Adzuna rate limited",
+        "Skipped job job-no-description at $.jobs[0]: $.jobs[0].description is required",
+        "Skipped job job-bad-score at $.jobs[2]: $.jobs[2].url must be a string; $.jobs[2].match_score must be between 0 and 1",
+      ]);
+    });
+
+    it("should skip listings that are not objects", () => {
+      const { digest, skipped } = processor.parseLenient(
+        JSON.stringify({ ...validDigestResult, jobs: ["oops"] })
+      );
+
+      expect(digest.jobs).toEqual([]);
+      expect(skipped).toEqual([
+        {
+          index: 0,
+          id: undefined,
+          title: undefined,
+          errors: [{ path: "$.jobs[0]", message: "must be an object" }],
+        },
+      ]);
+    });
+
+    it("should return valid digests untouched", () => {
+      const { digest, skipped } = processor.parseLenient(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(digest).toEqual(validDigestResult);
+      expect(skipped).toEqual([]);
+    });
+
+    it("should still reject problems outside the jobs array", () => {
+      const jsonData = JSON.stringify({
+        ...partiallyInvalidDigest,
+        summary: undefined,
+      });
+
+      expect(() => processor.parseLenient(jsonData)).toThrow(
+        "Invalid digest data: $.summary is required"
+      );
+    });
+  });
+
   describe("getSummaryStats", () => {
     it("should calculate summary stats for digest with jobs", () => {
       const stats = processor.getSummaryStats(multipleJobsDigestResult);
@@ -279,7 +439,7 @@ describe("DigestProcessor", () => {
 
       expect(() => {
         processor.parse(JSON.stringify(invalidData));
-      }).toThrow("Missing or invalid total_jobs_found in summary");
+      }).toThrow("$.summary.total_jobs_found must be a number");
     });
 
     it("should handle JSON parse errors gracefully", () => {
@@ -291,3 +451,9 @@ describe("DigestProcessor", () => {
     });
   });
 });
+
+function validJobWithout(field: string): Record<string, unknown> {
+  const job: Record<string, unknown> = { ...validDigestResult.jobs[0] };
+  delete job[field];
+  return job;
+}
@@ -0,0 +1,123 @@
+import { InMemoryGitHubAdapter } from "../../../src/adapters/in-memory-github.adapter";
+import { Logger } from "../../../src/interfaces";
+import { DigestTriageService } from "../../../src/services/digest-triage.service";
+import { extractSelectedJobIds } from "../../../src/services/issue-markers";
+import { JobDigestService } from "../../../src/services/job-digest.service";
+import {
+  multipleJobsDigestResult,
+  validDigestResult,
+} from "../../fixtures/digest-fixtures";
+
+class MockLogger implements Logger {
+  public infoCalls: string[] = [];
+
+  info(message: string): void {
+    this.infoCalls.push(message);
+  }
+
+  debug(): void {}
+
+  error(): void {}
+}
+
+const tick = (body: string, jobId: string) =>
+  body.replace(new RegExp(`- \\[ \\](.*<!-- job-id: ${jobId} -->)`), "- [x]$1");
+
+describe("extractSelectedJobIds", () => {
+  it("should return ticked task items in order", () => {
+    const body = [
+      "- [x] Interested <!-- job-id: b -->",
+      "- [ ] Interested <!-- job-id: a -->",
+      "  * [X] Interested in 3. Dev <!-- job-id: c%2F1 -->",
+    ].join("\n");
+
+    expect(extractSelectedJobIds(body)).toEqual(["b", "c/1"]);
+  });
+
+  it("should skip markers that do not decode", () => {
+    const body = [
+      "- [x] Interested <!-- job-id: %E0 -->",
+      "- [x] Interested <!-- job-id: a -->",
+    ].join("\n");
+
+    expect(extractSelectedJobIds(body)).toEqual(["a"]);
+  });
+
+  it("should ignore markers outside task items", () => {
+    const body = [
+      "<!-- job-id: a -->",
+      "[x] Interested <!-- job-id: b -->",
+      "- [x] Done",
+      "<!-- job-id: c -->",
+    ].join("\n");
+
+    expect(extractSelectedJobIds(body)).toEqual([]);
+  });
+});
+
+describe("DigestTriageService", () => {
+  let github: InMemoryGitHubAdapter;
+  let logger: MockLogger;
+  let triage: DigestTriageService;
+
+  beforeEach(() => {
+    github = new InMemoryGitHubAdapter("test-org", "job-search-repo");
+    logger = new MockLogger();
+    triage = new DigestTriageService(github, logger);
+  });
+
+  it("should return the jobs ticked in the digest issue", async () => {
+    await new JobDigestService(github, logger).createDigestIssue(
+      JSON.stringify(multipleJobsDigestResult)
+    );
+    github.issues[0].body = tick(github.issues[0].body, "job-789");
+
+    const selected = await triage.getSelectedJobIds(1);
+
+    expect(selected).toEqual(["job-789"]);
+    expect(logger.infoCalls).toContain(
+      "Digest #1: 1 of 3 job(s) marked interested"
+    );
+  });
+
+  it("should return nothing when no box is ticked", async () => {
+    await new JobDigestService(github, logger).createDigestIssue(
+      JSON.stringify(multipleJobsDigestResult)
+    );
+
+    expect(await triage.getSelectedJobIds(1)).toEqual([]);
+  });
+
+  it("should read ticks in table rows and overflow comments", async () => {
+    const digest = {
+      ...validDigestResult,
+      summary: { ...validDigestResult.summary, total_jobs_found: 40 },
+      jobs: Array.from({ length: 40 }, (_, i) => ({
+        ...validDigestResult.jobs[0],
+        id: `job-${i}`,
+        match_score: 0.99 - i / 100,
+      })),
+    };
+    await new JobDigestService(github, logger).createDigestIssue(
+      JSON.stringify(digest),
+      { maxBodyLength: 8000 }
+    );
+    expect(github.comments.length).toBeGreaterThan(0);
+
+    const lastComment = github.comments[github.comments.length - 1];
+    lastComment.body = tick(lastComment.body, "job-39");
+    github.issues[0].body = tick(github.issues[0].body, "job-0");
+    // An unrelated comment quoting the digest does not count
+    await github.createComment(1, "- [x] Interested <!-- job-id: job-5 -->");
+
+    expect(await triage.getSelectedJobIds(1)).toEqual(["job-0", "job-39"]);
+  });
+
+  it("should reject issues that are not digests", async () => {
+    await github.createIssue({ title: "Other", body: "", labels: ["bug"] });
+
+    await expect(triage.getSelectedJobIds(1)).rejects.toThrow(
+      "Issue #1 is not a job digest"
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { DigestPublication } from "../../../src/interfaces";
+import { DiscordFormatter } from "../../../src/services/discord-formatter";
+import {
+  multipleJobsDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+// Fixed zone so "Posted" dates are stable
+process.env.TZ = "UTC";
+
+const publication: DigestPublication = {
+  title: "🎯 3 Job Opportunities (2 new)",
+  digest: multipleJobsDigestResult,
+  issue: { number: 7, url: "https://github.com/owner/repo/issues/7" },
+};
+
+describe("DiscordFormatter", () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date("2025-08-01T12:00:00Z") });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it("should put the summary in the content and one embed per job", () => {
+    const message = new DiscordFormatter().format(publication);
+
+    expect(message.content).toBe(
+      "**🎯 3 Job Opportunities (2 new)**\n" +
+        "3 jobs (2 new) from Adzuna, Stack Overflow\n" +
+        "<https://github.com/owner/repo/issues/7>"
+    );
+    expect(message.embeds).toHaveLength(3);
+    expect(message.embeds[0]).toEqual({
+      title: "1. Senior Software Engineer at TechCorp Inc",
+      url: "https://example.com/jobs/123",
+      description: expect.stringMatching(
+        /^📍 Remote • 💰 \$100,000 - \$120,000 • 🎯 95% match\n\nWe are looking/
+      ),
+      color: 0x2ecc71,
+      footer: { text: "Adzuna • Posted 2 days ago" },
+    });
+  });
+
+  it("should colour embeds by match score", () => {
+    const colors = new DiscordFormatter()
+      .format(publication)
+      .embeds.map((embed) => embed.color);
+
+    expect(colors).toEqual([0x2ecc71, 0x2ecc71, 0xf1c40f]);
+  });
+
+  it("should send at most ten embeds and mention the rest", () => {
+    const jobs = Array.from({ length: 12 }, (_, i) => ({
+      ...validJobListing,
+      id: `job-${i}`,
+    }));
+
+    const message = new DiscordFormatter({ maxJobs: 50 }).format({
+      ...publication,
+      digest: { ...multipleJobsDigestResult, jobs },
+    });
+
+    expect(message.embeds).toHaveLength(10);
+    expect(message.content).toContain("…and 2 more jobs in the digest issue");
+  });
+});
@@ -0,0 +1,109 @@
+import { HtmlFormatter } from "../../../src/services/html-formatter";
+import {
+  emptyDigestResult,
+  multipleJobsDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+describe("HtmlFormatter", () => {
+  const formatter = new HtmlFormatter();
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-08-01T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should render a standalone document with inline styles", () => {
+    const { title, body } = formatter.format(multipleJobsDigestResult);
+
+    expect(title).toBe("🎯 3 Job Opportunities (2 new)");
+    expect(body).toMatch(/^<!DOCTYPE html>\n<html lang="en">/);
+    expect(body).toContain('<meta charset="utf-8">');
+    expect(body).toContain("<title>🎯 3 Job Opportunities (2 new)</title>");
+    expect(body).toContain("3 jobs (2 new) from Adzuna, Stack Overflow");
+    expect(body).not.toContain("<style");
+    expect(body).not.toContain("<link");
+  });
+
+  it("should list jobs in an accessible table", () => {
+    const { body } = formatter.format(multipleJobsDigestResult);
+
+    expect(body).toContain("<caption");
+    expect(body).toContain("Job opportunities, best match first</caption>");
+    expect(body.match(/<th scope="col"/g)).toHaveLength(3);
+    expect(body.match(/<th scope="row"/g)).toHaveLength(3);
+    expect(body).toContain(
+      'aria-label="Apply for Senior Software Engineer at TechCorp Inc">Apply</a>'
+    );
+    expect(body).toContain("📍 Remote • 💰 $100,000 - $120,000 • 🎯 95% match");
+    expect(body).toContain("2 days ago");
+  });
+
+  it("should order jobs and caption the order", () => {
+    const { body } = formatter.format(multipleJobsDigestResult, {
+      sortBy: "salary",
+    });
+
+    expect(body).toContain("highest salary first");
+    const titles = [...body.matchAll(/\d+\. ([^<]+)<\/a>/g)].map(
+      ([, title]) => title
+    );
+    expect(titles).toEqual([
+      "Senior Software Engineer",
+      "Frontend Engineer",
+      "Full Stack Developer",
+    ]);
+  });
+
+  it("should escape job text and drop unsafe links", () => {
+    const { body } = formatter.format({
+      ...emptyDigestResult,
+      jobs: [
+        {
+          ...validJobListing,
+          title: `<script>alert("x")</script>`,
+          company: "Tom & Jerry",
+          url: "javascript:alert(1)",
+        },
+      ],
+    });
+
+    expect(body).not.toContain("<script>");
+    expect(body).toContain("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;");
+    expect(body).toContain("at Tom &amp; Jerry");
+    expect(body).not.toContain("javascript:");
+  });
+
+  it("should badge new and previously seen jobs", () => {
+    const { body } = formatter.format(multipleJobsDigestResult, {
+      jobStatuses: new Map([["job-456", "new"]]),
+      seenJobIds: new Set(["job-789"]),
+    });
+
+    expect(body).toContain("🆕 New");
+    expect(body).toContain("👀 Seen before");
+  });
+
+  it("should link the digest issue and use a custom title", () => {
+    const { title, body } = formatter.format(multipleJobsDigestResult, {
+      title: "Weekly jobs",
+      issueUrl: "https://github.com/owner/repo/issues/7",
+    });
+
+    expect(title).toBe("Weekly jobs");
+    expect(body).toContain(
+      'href="https://github.com/owner/repo/issues/7" style="color:#0969da;">View the full digest on GitHub</a>'
+    );
+  });
+
+  it("should explain an empty digest", () => {
+    const { title, body } = formatter.format(emptyDigestResult);
+
+    expect(title).toBe("📭 No New Job Opportunities Today");
+    expect(body).not.toContain("<table");
+    expect(body).toContain("No jobs matched your search criteria");
+  });
+});
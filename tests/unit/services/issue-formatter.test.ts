@@ -1,9 +1,13 @@
-import { IssueFormatter } from "../../../src/services/issue-formatter";
+import {
+  GITHUB_MAX_BODY_LENGTH,
+  IssueFormatter,
+} from "../../../src/services/issue-formatter";
 import { DigestResult } from "../../../src/types";
 import {
   emptyDigestResult,
   multipleJobsDigestResult,
   validDigestResult,
+  validJobListing,
 } from "../../fixtures/digest-fixtures";
 
 // Additional fixture for single job testing
@@ -135,6 +139,23 @@ describe("IssueFormatter", () => {
         expect(result.body).toContain("**Duplicates Removed:** 5");
       });
 
+      it("should list the filters applied to the digest", () => {
+        const result = formatter.format(validDigestResult);
+
+        expect(result.body).toContain(
+          "**Filters Applied:** min match score: 0.6; excluded companies: BadCorp"
+        );
+      });
+
+      it("should omit filters when none were applied", () => {
+        const result = formatter.format({
+          ...validDigestResult,
+          summary: { ...validDigestResult.summary, filters_applied: {} },
+        });
+
+        expect(result.body).not.toContain("Filters Applied");
+      });
+
       it("should not show duplicates section when zero", () => {
         const result = formatter.format(validDigestResult);
         expect(result.body).not.toContain("Duplicates Removed");
@@ -180,6 +201,22 @@ describe("IssueFormatter", () => {
         expect(fullStackPos).toBeLessThan(frontendPos);
       });
 
+      it("should sort by annualized salary when asked", () => {
+        const digest: DigestResult = {
+          ...multipleJobsDigestResult,
+          jobs: [
+            { ...validJobListing, id: "a", title: "Annual", salary: "$95k" },
+            { ...validJobListing, id: "b", title: "Hourly", salary: "$60/hr" },
+            { ...validJobListing, id: "c", title: "Unknown", salary: "DOE" },
+          ],
+        };
+
+        const { body } = formatter.format(digest, { sortBy: "salary" });
+
+        expect(body.indexOf("Hourly")).toBeLessThan(body.indexOf("Annual"));
+        expect(body.indexOf("Annual")).toBeLessThan(body.indexOf("Unknown"));
+      });
+
       it("should handle jobs without optional fields", () => {
         const minimalJobDigest: DigestResult = {
           ...validDigestResult,
@@ -439,7 +476,7 @@ describe("IssueFormatter", () => {
 
       expect(result.body).toContain("Senior Full Stack Engineer");
       expect(result.body).toContain("📍 San Francisco, CA (Remote OK)");
-      expect(result.body).toContain("💰 $150k-200k + equity");
+      expect(result.body).toContain("💰 $150,000 - $200,000 + equity");
       expect(result.body).toContain("⏰ Full-time");
       expect(result.body).toContain("👨‍💼 Senior");
       expect(result.body).toContain("🏠 Remote Available");
@@ -470,7 +507,7 @@ describe("IssueFormatter", () => {
         })),
       };
 
-      const result = formatter.format(manyJobsDigest);
+      const result = formatter.format(manyJobsDigest, { layout: "cards" });
 
       expect(result.title).toBe("🎯 50 Job Opportunities (25 new)");
       expect(result.body).toContain("**Total Jobs:** 50");
@@ -511,6 +548,517 @@ describe("IssueFormatter", () => {
     });
   });
 
+  describe("job id markers", () => {
+    it("should embed a hidden job id marker for each listing", () => {
+      const result = formatter.format(multipleJobsDigestResult);
+
+      expect(result.body).toContain("<!-- job-id: job-123 -->");
+      expect(result.body).toContain("<!-- job-id: job-456 -->");
+      expect(result.body).toContain("<!-- job-id: job-789 -->");
+    });
+
+    it("should recover job ids from a formatted body", () => {
+      const result = formatter.format(multipleJobsDigestResult);
+
+      expect(formatter.extractJobIds(result.body).sort()).toEqual([
+        "job-123",
+        "job-456",
+        "job-789",
+      ]);
+    });
+
+    it("should round-trip job ids containing special characters", () => {
+      const digest: DigestResult = {
+        ...validDigestResult,
+        jobs: [{ ...validDigestResult.jobs[0], id: "adzuna:42 --> x" }],
+      };
+
+      const result = formatter.format(digest);
+
+      expect(formatter.extractJobIds(result.body)).toEqual(["adzuna:42 --> x"]);
+    });
+
+    it("should return no ids for bodies without markers", () => {
+      expect(formatter.extractJobIds("# Some unrelated issue")).toEqual([]);
+    });
+
+    it("should badge jobs that were seen before", () => {
+      const result = formatter.format(multipleJobsDigestResult, {
+        seenJobIds: new Set(["job-456"]),
+      });
+
+      const seenSection = result.body
+        .split("Full Stack Developer")[1]
+        .split("**🚀 Actions:**")[0];
+      expect(seenSection).toContain("👀 Seen before");
+      expect(result.body.match(/👀 Seen before/g)).toHaveLength(1);
+    });
+  });
+
+  describe("digest key marker", () => {
+    it("should embed the digest key right after the heading", () => {
+      const result = formatter.format(validDigestResult);
+
+      expect(result.body).toMatch(
+        /^# Job Search Results - .+\n<!-- digest-key: \S+ -->\n\n## 📊 Summary/
+      );
+      expect(formatter.extractDigestKey(result.body)).toBe(
+        formatter.digestKey(validDigestResult)
+      );
+    });
+
+    it("should key digests by UTC day and query", () => {
+      expect(formatter.digestKey(validDigestResult)).toBe(
+        "2025-07-31/software engineer|remote|senior software engineer|techcorp"
+      );
+    });
+
+    it("should share a key between runs on the same day", () => {
+      const laterRun: DigestResult = {
+        ...validDigestResult,
+        metadata: {
+          ...validDigestResult.metadata,
+          generated_at: "2025-07-31T17:30:00Z",
+        },
+      };
+
+      expect(formatter.digestKey(laterRun)).toBe(
+        formatter.digestKey(validDigestResult)
+      );
+    });
+
+    it("should use different keys for different days or queries", () => {
+      const nextDay: DigestResult = {
+        ...validDigestResult,
+        metadata: {
+          ...validDigestResult.metadata,
+          generated_at: "2025-08-01T09:00:00Z",
+        },
+      };
+      const otherQuery: DigestResult = {
+        ...validDigestResult,
+        query: { keywords: "data engineer" },
+      };
+
+      const key = formatter.digestKey(validDigestResult);
+      expect(formatter.digestKey(nextDay)).not.toBe(key);
+      expect(formatter.digestKey(otherQuery)).not.toBe(key);
+    });
+
+    it("should return undefined for bodies without a digest key", () => {
+      expect(formatter.extractDigestKey("# Unrelated")).toBeUndefined();
+    });
+  });
+
+  describe("formatPaginated", () => {
+    const largeDigest = (count: number): DigestResult => ({
+      ...validDigestResult,
+      summary: { ...validDigestResult.summary, total_jobs_found: count },
+      jobs: Array.from({ length: count }, (_, i) => ({
+        ...validDigestResult.jobs[0],
+        id: `job-${i}`,
+        title: `Job ${i + 1}`,
+        description: "Build and ship features across the stack. ".repeat(10),
+        match_score: 1 - i / 1000,
+      })),
+    });
+
+    it("should keep everything in the body when it fits", () => {
+      const result = formatter.formatPaginated(multipleJobsDigestResult);
+
+      expect(result.comments).toEqual([]);
+      expect(result.body.replace(/Job Search Results - .+?\n/, "")).toBe(
+        formatter
+          .format(multipleJobsDigestResult)
+          .body.replace(/Job Search Results - .+?\n/, "")
+      );
+    });
+
+    it("should keep a 200-job digest within GitHub's body limit", () => {
+      const result = formatter.formatPaginated(largeDigest(200), {
+        layout: "cards",
+      });
+
+      expect(result.body.length).toBeLessThanOrEqual(GITHUB_MAX_BODY_LENGTH);
+      expect(result.comments.length).toBeGreaterThan(0);
+      for (const comment of result.comments) {
+        expect(comment.length).toBeLessThanOrEqual(GITHUB_MAX_BODY_LENGTH);
+      }
+    });
+
+    it("should keep summary, next steps and footer in the first part", () => {
+      const result = formatter.formatPaginated(largeDigest(40), {
+        maxBodyLength: 8000,
+      });
+
+      expect(result.body).toContain("## 📊 Summary");
+      expect(result.body).toContain("## 🎯 Next Steps");
+      expect(result.body).toContain("🤖 System Information");
+      for (const comment of result.comments) {
+        expect(comment).not.toContain("## 📊 Summary");
+        expect(comment).not.toContain("System Information");
+      }
+    });
+
+    it("should split listings in order across numbered parts", () => {
+      const result = formatter.formatPaginated(largeDigest(40), {
+        maxBodyLength: 8000,
+        layout: "cards",
+      });
+      const total = result.comments.length + 1;
+
+      expect(result.body).toContain(
+        `continue in the comments below (Part 1/${total})`
+      );
+      result.comments.forEach((comment, index) => {
+        expect(comment).toContain(
+          `<!-- digest-part: ${index + 2}/${total} -->`
+        );
+        expect(comment).toContain(
+          `## 💼 Job Opportunities (Part ${index + 2}/${total})`
+        );
+        expect(comment.length).toBeLessThanOrEqual(8000);
+      });
+      expect(result.body.length).toBeLessThanOrEqual(8000);
+
+      const headings = [result.body, ...result.comments]
+        .join("\n")
+        .match(/### \d+\. Job \d+/g)!;
+      expect(headings).toHaveLength(40);
+      expect(headings[0]).toBe("### 1. Job 1");
+      expect(headings[39]).toBe("### 40. Job 40");
+    });
+
+    it("should list every job id in the issue body for deduplication", () => {
+      const result = formatter.formatPaginated(largeDigest(40), {
+        maxBodyLength: 8000,
+      });
+
+      expect(new Set(formatter.extractJobIds(result.body)).size).toBe(40);
+    });
+
+    it("should never paginate empty digests", () => {
+      const result = formatter.formatPaginated(emptyDigestResult, {
+        maxBodyLength: 100,
+      });
+
+      expect(result.comments).toEqual([]);
+      expect(result.body).toContain("## 🔍 No Jobs Found");
+    });
+  });
+
+  describe("skipped listings section", () => {
+    const skippedListings = [
+      {
+        index: 2,
+        id: "job-bad",
+        title: "Broken Role",
+        errors: [{ path: "$.jobs[2].url", message: "is required" }],
+      },
+      {
+        index: 4,
+        errors: [{ path: "$.jobs[4]", message: "must be an object" }],
+      },
+    ];
+
+    it("should summarize skipped listings in a collapsed section", () => {
+      const { body } = formatter.format(validDigestResult, {
+        skippedListings,
+      });
+
+      expect(body).toContain(
+        "<details>\n<summary>⚠️ Skipped listings (2)</summary>"
+      );
+      expect(body).toContain(
+        "- **Broken Role** (`job-bad`): `$.jobs[2].url` is required\n"
+      );
+      expect(body).toContain("- Job #5: `$.jobs[4]` must be an object\n");
+      expect(body.indexOf("Skipped listings")).toBeLessThan(
+        body.indexOf("🤖 System Information")
+      );
+    });
+
+    it("should keep the section in the issue body when paginating", () => {
+      const digest: DigestResult = {
+        ...multipleJobsDigestResult,
+        jobs: Array.from({ length: 20 }, (_, i) => ({
+          ...validDigestResult.jobs[0],
+          id: `job-${i}`,
+        })),
+      };
+
+      const { body, comments } = formatter.formatPaginated(digest, {
+        maxBodyLength: 6000,
+        skippedListings,
+      });
+
+      expect(comments.length).toBeGreaterThan(0);
+      expect(body).toContain("Skipped listings (2)");
+      comments.forEach((comment) =>
+        expect(comment).not.toContain("Skipped listings")
+      );
+    });
+
+    it("should show skipped listings when no valid jobs remain", () => {
+      const { body } = formatter.format(emptyDigestResult, {
+        skippedListings,
+      });
+
+      expect(body).toContain("## 🔍 No Jobs Found");
+      expect(body).toContain("Skipped listings (2)");
+    });
+
+    it("should omit the section when nothing was skipped", () => {
+      const { body } = formatter.format(validDigestResult, {
+        skippedListings: [],
+      });
+
+      expect(body).not.toContain("Skipped listings");
+    });
+  });
+
+  describe("compact layout", () => {
+    const digestWithJobs = (count: number): DigestResult => ({
+      ...validDigestResult,
+      summary: { ...validDigestResult.summary, total_jobs_found: count },
+      jobs: Array.from({ length: count }, (_, i) => ({
+        ...validDigestResult.jobs[0],
+        id: `job-${i}`,
+        title: `Job ${i + 1}`,
+        match_score: 0.99 - i / 100,
+      })),
+    });
+    const cardCount = (body: string) =>
+      (body.match(/^### \d+\. /gm) || []).length;
+    const rowCount = (body: string) =>
+      (body.match(/^\| \d+ \|/gm) || []).length;
+
+    it("should switch to the compact layout above the full-card count", () => {
+      const { body } = formatter.format(digestWithJobs(25));
+
+      expect(cardCount(body)).toBe(10);
+      expect(rowCount(body)).toBe(15);
+      expect(body).toContain("### 📋 More Opportunities");
+      expect(body).toContain(
+        "| # | Title | Company | Location | Salary | Match | Posted | Apply |"
+      );
+    });
+
+    it("should keep cards for digests up to the full-card count", () => {
+      const { body } = formatter.format(digestWithJobs(10));
+
+      expect(cardCount(body)).toBe(10);
+      expect(body).not.toContain("More Opportunities");
+    });
+
+    it("should decide from summary.total_jobs_found", () => {
+      const { body } = formatter.format({
+        ...digestWithJobs(12),
+        summary: { ...validDigestResult.summary, total_jobs_found: 8 },
+      });
+
+      expect(cardCount(body)).toBe(12);
+      expect(body).not.toContain("More Opportunities");
+    });
+
+    it("should honour an explicit layout and full-card count", () => {
+      const compact = formatter.format(digestWithJobs(5), {
+        layout: "compact",
+        fullCardCount: 2,
+      }).body;
+      const cards = formatter.format(digestWithJobs(25), {
+        layout: "cards",
+      }).body;
+
+      expect(cardCount(compact)).toBe(2);
+      expect(rowCount(compact)).toBe(3);
+      expect(cardCount(cards)).toBe(25);
+    });
+
+    it("should render table rows with the job details and id marker", () => {
+      const digest = digestWithJobs(1);
+      digest.jobs[0] = {
+        ...digest.jobs[0],
+        title: "Dev | Ops",
+        location: undefined,
+        match_score: 0.87,
+      };
+
+      const { body } = formatter.format(digest, {
+        layout: "compact",
+        fullCardCount: 0,
+        seenJobIds: new Set(["job-0"]),
+      });
+
+      expect(body).toMatch(
+        /^\| 1 \| Dev \\\| Ops 👀 \| TechCorp Inc \| — \| \$100,000 - \$120,000 \| 87% \| .+ \| \[Apply\]\(https:\/\/example\.com\/jobs\/123\) \|$/m
+      );
+      expect(body).toContain(
+        "\n\n- [ ] Interested in 1. Dev | Ops <!-- job-id: job-0 -->\n"
+      );
+      expect(formatter.extractJobIds(body)).toEqual(["job-0"]);
+    });
+
+    it("should tick the triage boxes of selected jobs", () => {
+      const { body } = formatter.format(digestWithJobs(3), {
+        layout: "compact",
+        fullCardCount: 1,
+        selectedJobIds: new Set(["job-0", "job-2"]),
+      });
+
+      expect(body).toContain("- [x] Interested <!-- job-id: job-0 -->");
+      expect(body).toContain("- [ ] Interested in 2. ");
+      expect(body).toMatch(
+        /- \[x\] Interested in 3\. .+<!-- job-id: job-2 -->/
+      );
+    });
+
+    it("should link every source of a merged job in its row", () => {
+      const digest = digestWithJobs(1);
+      digest.jobs[0].also_listed_on = [
+        { id: "so-1", source: "Stack Overflow", url: "https://so.example/1" },
+      ];
+
+      const { body } = formatter.format(digest, {
+        layout: "compact",
+        fullCardCount: 0,
+      });
+
+      expect(body).toMatch(
+        /\| \[Adzuna\]\(https:\/\/example\.com\/jobs\/123\), \[Stack Overflow\]\(https:\/\/so\.example\/1\) \|$/m
+      );
+    });
+
+    it("should repeat the table heading on overflow pages", () => {
+      const result = formatter.formatPaginated(digestWithJobs(200), {
+        maxBodyLength: 10000,
+      });
+
+      expect(result.comments.length).toBeGreaterThan(0);
+      for (const comment of result.comments) {
+        expect(comment).toContain("|---:|");
+        expect(comment.length).toBeLessThanOrEqual(10000);
+      }
+      const rows = [result.body, ...result.comments].map(rowCount);
+      expect(rows.reduce((sum, count) => sum + count, 0)).toBe(190);
+      expect(result.body.length).toBeLessThanOrEqual(10000);
+    });
+  });
+
+  describe("grouped listings", () => {
+    const groupedDigest: DigestResult = {
+      ...validDigestResult,
+      summary: { ...validDigestResult.summary, total_jobs_found: 5 },
+      jobs: [
+        ["a", " hooli ", "Adzuna", 0.7],
+        ["b", "Initech", "Indeed", 0.95],
+        ["c", "Hooli", "Indeed", 0.9],
+        ["d", "Initech", "Adzuna", 0.6],
+        ["e", "", "Adzuna", 0.5],
+      ].map(([id, company, source, score]) => ({
+        ...validDigestResult.jobs[0],
+        id: id as string,
+        title: `Role ${id}`,
+        company: company as string,
+        source: source as string,
+        match_score: score as number,
+      })),
+    };
+    const copy = (): DigestResult => JSON.parse(JSON.stringify(groupedDigest));
+    const summaries = (body: string) =>
+      (body.match(/<summary><b>.*<\/summary>/g) || []).map((line) =>
+        line.replace(/<\/?(summary|b)>/g, "")
+      );
+
+    it("should render one collapsible section per group with counts", () => {
+      const { body } = formatter.format(copy(), {
+        layout: "cards",
+        groupBy: "company",
+      });
+
+      expect(summaries(body)).toEqual([
+        "Initech (2 jobs)",
+        "Hooli (2 jobs)",
+        "Company not listed (1 job)",
+      ]);
+      expect(body).toContain(
+        "<details>\n<summary><b>Initech</b> (2 jobs)</summary>\n\n### 1. Role b"
+      );
+    });
+
+    it("should order groups by their best job and keep rank inside groups", () => {
+      const { body } = formatter.format(copy(), {
+        layout: "cards",
+        groupBy: "company",
+      });
+
+      expect(body.match(/^### \d+\. Role \w/gm)).toEqual([
+        "### 1. Role b",
+        "### 2. Role d",
+        "### 3. Role c",
+        "### 4. Role a",
+        "### 5. Role e",
+      ]);
+      expect(formatter.extractJobIds(body)).toEqual(["b", "d", "c", "a", "e"]);
+    });
+
+    it("should group by source", () => {
+      const { body } = formatter.format(copy(), {
+        layout: "cards",
+        groupBy: "source",
+      });
+
+      expect(summaries(body)).toEqual(["Indeed (2 jobs)", "Adzuna (3 jobs)"]);
+    });
+
+    it("should give each group its own table in the compact layout", () => {
+      const { body } = formatter.format(copy(), {
+        layout: "compact",
+        fullCardCount: 1,
+        groupBy: "source",
+      });
+
+      expect(body.match(/\| # \| Title/g)).toHaveLength(2);
+      expect(body).toMatch(/### 1\. Role b[\s\S]*\| 2 \| Role c/);
+    });
+
+    it("should leave ungrouped output unchanged", () => {
+      const { body } = formatter.format(copy(), { layout: "cards" });
+
+      expect(body).not.toContain("<summary><b>");
+    });
+
+    it("should mark groups continued in overflow comments", () => {
+      const digest: DigestResult = {
+        ...validDigestResult,
+        jobs: Array.from({ length: 40 }, (_, i) => ({
+          ...validDigestResult.jobs[0],
+          id: `job-${i}`,
+          company: i % 2 === 0 ? "Hooli" : "Initech",
+          match_score: 0.99 - i / 100,
+        })),
+      };
+
+      const result = formatter.formatPaginated(digest, {
+        layout: "cards",
+        groupBy: "company",
+        maxBodyLength: 10000,
+      });
+
+      expect(result.comments.length).toBeGreaterThan(0);
+      expect(result.body.length).toBeLessThanOrEqual(10000);
+      for (const comment of result.comments) {
+        expect(comment.length).toBeLessThanOrEqual(10000);
+        expect(comment).toMatch(
+          /<summary><b>\w+<\/b> \(20 jobs\) \(continued\)/
+        );
+        expect(comment.match(/<details>/g)?.length).toBe(
+          comment.match(/<\/details>/g)?.length
+        );
+      }
+    });
+  });
+
   describe("performance", () => {
     it("should handle formatting within reasonable time", () => {
       const start = Date.now();
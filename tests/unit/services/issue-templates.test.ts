@@ -0,0 +1,198 @@
+import { defaultTemplate } from "../../../src/services/default-template";
+import { IssueFormatter } from "../../../src/services/issue-formatter";
+import { extractJobIds } from "../../../src/services/issue-markers";
+import { DigestResult } from "../../../src/types";
+import {
+  emptyDigestResult,
+  multipleJobsDigestResult,
+  validDigestResult,
+} from "../../fixtures/digest-fixtures";
+
+// Fixed clock and zone so relative "Posted" dates and timestamps are stable
+process.env.TZ = "UTC";
+
+const copy = (digest: DigestResult): DigestResult =>
+  JSON.parse(JSON.stringify(digest));
+
+describe("IssueFormatter templates", () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date("2025-08-01T12:00:00Z") });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  describe("default template", () => {
+    it("should render a single-job digest", () => {
+      const result = new IssueFormatter().format(copy(validDigestResult));
+
+      expect(result).toMatchSnapshot();
+    });
+
+    it("should render a multi-job digest with seen-before badges", () => {
+      const result = new IssueFormatter().format(
+        copy(multipleJobsDigestResult),
+        { seenJobIds: new Set(["job-456"]) }
+      );
+
+      expect(result).toMatchSnapshot();
+    });
+
+    it("should render the empty state", () => {
+      const result = new IssueFormatter().format(copy(emptyDigestResult));
+
+      expect(result).toMatchSnapshot();
+    });
+
+    it("should render overflow comments", () => {
+      const digest: DigestResult = {
+        ...copy(multipleJobsDigestResult),
+        jobs: Array.from({ length: 6 }, (_, i) => ({
+          ...validDigestResult.jobs[0],
+          id: `job-${i}`,
+          title: `Role ${i + 1}`,
+          match_score: 0.9 - i / 10,
+        })),
+      };
+
+      const result = new IssueFormatter().formatPaginated(digest, {
+        maxBodyLength: 4000,
+      });
+
+      expect(result.comments.length).toBeGreaterThan(0);
+      expect(result).toMatchSnapshot();
+    });
+  });
+
+  describe("compact layout", () => {
+    it("should render cards followed by a table", () => {
+      const digest: DigestResult = {
+        ...copy(multipleJobsDigestResult),
+        jobs: [
+          ...copy(multipleJobsDigestResult).jobs,
+          {
+            ...validDigestResult.jobs[0],
+            id: "job-999",
+            title: "Platform | SRE",
+            location: undefined,
+            salary: undefined,
+            match_score: undefined,
+          },
+        ],
+      };
+
+      const { body } = new IssueFormatter().format(digest, {
+        layout: "compact",
+        fullCardCount: 1,
+        seenJobIds: new Set(["job-789"]),
+      });
+
+      expect(body).toMatchSnapshot();
+    });
+  });
+
+  describe("grouped listings", () => {
+    it("should render a collapsible section per location", () => {
+      const { body } = new IssueFormatter().format(
+        copy(multipleJobsDigestResult),
+        { groupBy: "location" }
+      );
+
+      expect(body).toMatchSnapshot();
+    });
+  });
+
+  describe("custom templates", () => {
+    it("should fall back to the default for renderers not supplied", () => {
+      const formatter = new IssueFormatter({
+        title: (summary) => `Jobs: ${summary.total_jobs_found}`,
+      });
+
+      const result = formatter.format(copy(validDigestResult));
+
+      expect(result.title).toBe("Jobs: 3");
+      expect(result.body).toBe(
+        new IssueFormatter().format(copy(validDigestResult)).body
+      );
+    });
+
+    it("should drop a section when its renderer returns an empty string", () => {
+      const formatter = new IssueFormatter({ nextSteps: () => "" });
+
+      const { body } = formatter.format(copy(multipleJobsDigestResult));
+
+      expect(body).not.toContain("Next Steps");
+      expect(body).toContain("🤖 System Information");
+    });
+
+    it("should render a compact layout", () => {
+      const formatter = new IssueFormatter({
+        heading: () => "# Digest",
+        summary: (summary) => `${summary.total_jobs_found} jobs\n\n`,
+        jobsHeading: (page) => (page ? `Page ${page.part}\n` : ""),
+        jobCard: (job, { index }) =>
+          `${index}. [${job.title}](${job.url}) - ${job.company}`,
+        jobSeparator: "\n",
+        nextSteps: () => "",
+        footer: () => "",
+      });
+
+      const { body } = formatter.format(copy(multipleJobsDigestResult));
+
+      expect(body).toMatchSnapshot();
+    });
+
+    it("should insert the job id marker when the card leaves it out", () => {
+      const formatter = new IssueFormatter({
+        jobCard: (job) => `**${job.title}**\n\nApply: ${job.url}`,
+      });
+
+      const { body } = formatter.format(copy(validDigestResult));
+
+      expect(body).toContain(
+        "**Senior Software Engineer**\n<!-- job-id: job-123 -->\n\nApply:"
+      );
+      expect(extractJobIds(body)).toEqual(["job-123"]);
+    });
+
+    it("should keep the marker where the template placed it", () => {
+      const formatter = new IssueFormatter({
+        jobCard: (job, { marker }) => `- ${job.title} ${marker}`,
+      });
+
+      const { body } = formatter.format(copy(validDigestResult));
+
+      expect(body).toContain(
+        "- Senior Software Engineer <!-- job-id: job-123 -->"
+      );
+      expect(body.match(/job-id: job-123/g)).toHaveLength(1);
+    });
+
+    it("should use the template's heading and separator in overflow comments", () => {
+      const formatter = new IssueFormatter({
+        ...defaultTemplate,
+        jobsHeading: (page) =>
+          page
+            ? `## More jobs (${page.part}/${page.total})\n\n`
+            : "## Jobs\n\n",
+        jobSeparator: "\n***\n\n",
+      });
+      const digest: DigestResult = {
+        ...copy(validDigestResult),
+        jobs: Array.from({ length: 8 }, (_, i) => ({
+          ...validDigestResult.jobs[0],
+          id: `job-${i}`,
+        })),
+      };
+
+      const { body, comments } = formatter.formatPaginated(digest, {
+        maxBodyLength: 4000,
+      });
+
+      expect(body).toContain("## Jobs\n\n");
+      expect(comments[0]).toContain(`## More jobs (2/${comments.length + 1})`);
+      expect(comments[0]).toContain("\n***\n\n");
+    });
+  });
+});
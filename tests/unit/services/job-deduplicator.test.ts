@@ -0,0 +1,151 @@
+import {
+  JobDeduplicator,
+  titleSimilarity,
+} from "../../../src/services/job-deduplicator";
+import { jobListing } from "../../fixtures/digest-fixtures";
+
+const adzuna = jobListing({
+  id: "adzuna-1",
+  title: "Senior Software Engineer",
+  company: "TechCorp Inc",
+  location: "Remote",
+  source: "Adzuna",
+  url: "https://adzuna.example/1",
+  match_score: 0.8,
+  benefits: undefined,
+});
+const stackOverflow = jobListing({
+  id: "so-9",
+  title: "Sr. Software Engineer",
+  company: "TechCorp",
+  location: "Remote, US",
+  source: "Stack Overflow",
+  url: "https://stackoverflow.example/9",
+  match_score: 0.9,
+  salary: undefined,
+  benefits: "Health, 401k",
+});
+
+describe("titleSimilarity", () => {
+  it("should treat abbreviations and punctuation as the same words", () => {
+    expect(
+      titleSimilarity("Sr. Software Eng", "Senior Software Engineer")
+    ).toBe(1);
+  });
+
+  it("should score partial overlaps", () => {
+    expect(
+      titleSimilarity(
+        "Senior Software Engineer - Backend",
+        "Senior Software Engineer"
+      )
+    ).toBeCloseTo(6 / 7);
+    expect(titleSimilarity("Frontend Engineer", "Data Scientist")).toBe(0);
+  });
+});
+
+describe("JobDeduplicator", () => {
+  const deduplicator = new JobDeduplicator();
+
+  it("should merge the same role from two sources into the best match", () => {
+    const result = deduplicator.apply([adzuna, stackOverflow]);
+
+    expect(result.removed).toBe(1);
+    expect(result.jobs).toHaveLength(1);
+    const [merged] = result.jobs;
+    expect(merged.id).toBe("so-9");
+    expect(merged.salary).toBe(adzuna.salary);
+    expect(merged.benefits).toBe("Health, 401k");
+    expect(merged.also_listed_on).toEqual([
+      {
+        id: "adzuna-1",
+        source: "Adzuna",
+        url: "https://adzuna.example/1",
+      },
+    ]);
+  });
+
+  it("should keep clusters in order of their first listing", () => {
+    const other = jobListing({ id: "other", title: "Data Scientist" });
+
+    const result = deduplicator.apply([other, adzuna, stackOverflow]);
+
+    expect(result.jobs.map((listing) => listing.id)).toEqual(["other", "so-9"]);
+  });
+
+  it("should keep different companies, titles and locations apart", () => {
+    const jobs = [
+      adzuna,
+      { ...stackOverflow, company: "TechCorp Labs" },
+      { ...stackOverflow, title: "Software Engineering Manager" },
+      { ...stackOverflow, location: "Berlin, Germany" },
+    ];
+
+    expect(deduplicator.apply(jobs).removed).toBe(0);
+  });
+
+  it("should compare locations in their normalized spelling", () => {
+    const result = deduplicator.apply([
+      { ...adzuna, location: "San Francisco, CA" },
+      { ...stackOverflow, location: "San Francisco, California, USA (Hybrid)" },
+    ]);
+
+    expect(result.removed).toBe(1);
+  });
+
+  it("should match a listing without a location", () => {
+    const result = deduplicator.apply([
+      adzuna,
+      { ...stackOverflow, location: undefined },
+    ]);
+
+    expect(result.removed).toBe(1);
+  });
+
+  it("should honour a configured title similarity", () => {
+    const backend = {
+      ...stackOverflow,
+      title: "Senior Software Engineer, Backend",
+    };
+
+    expect(deduplicator.apply([adzuna, backend]).removed).toBe(0);
+    expect(
+      new JobDeduplicator({ titleSimilarity: 0.8 }).apply([adzuna, backend])
+        .removed
+    ).toBe(1);
+  });
+
+  it("should keep roles at different seniority apart", () => {
+    const midLevel = { ...stackOverflow, title: "Software Engineer" };
+    const staff = { ...stackOverflow, title: "Staff Software Engineer" };
+
+    expect(deduplicator.apply([adzuna, midLevel]).removed).toBe(0);
+    expect(deduplicator.apply([adzuna, staff]).removed).toBe(0);
+    expect(
+      new JobDeduplicator({ titleSimilarity: 0.5 }).apply([adzuna, midLevel])
+        .removed
+    ).toBe(0);
+  });
+
+  it("should keep similar listings from the same source apart", () => {
+    const second = {
+      ...adzuna,
+      id: "adzuna-2",
+      url: "https://adzuna.example/2",
+    };
+
+    expect(deduplicator.apply([adzuna, second]).removed).toBe(0);
+  });
+
+  it("should merge a listing repeated by the same source under one URL", () => {
+    const repeat = { ...adzuna, id: "adzuna-2" };
+
+    expect(deduplicator.apply([adzuna, repeat]).removed).toBe(1);
+  });
+
+  it("should leave unique jobs untouched", () => {
+    const result = deduplicator.apply([adzuna]);
+
+    expect(result).toEqual({ jobs: [adzuna], removed: 0 });
+  });
+});
@@ -1,15 +1,28 @@
 import {
+  CommentResult,
   CreateIssueParams,
+  DigestPublication,
+  DigestPublisher,
   GitHubClient,
+  IssueComment,
+  IssueDetails,
+  IssueDraft,
   IssueResult,
+  ListIssuesParams,
   Logger,
+  UpdateIssueParams,
+  UpsertIssueResult,
 } from "../../../src/interfaces";
+import { InMemoryJobHistoryStore } from "../../../src/adapters/in-memory-job-history.adapter";
 import { JobDigestService } from "../../../src/services/job-digest.service";
+import { DigestResult } from "../../../src/types";
 import {
   emptyDigestResult,
   invalidDigestSamples,
   multipleJobsDigestResult,
+  partiallyInvalidDigest,
   validDigestResult,
+  validJobListing,
 } from "../../fixtures/digest-fixtures";
 
 // Mock implementations
@@ -19,6 +32,16 @@ class MockGitHubClient implements GitHubClient {
     number: 123,
     url: "https://github.com/test/repo/issues/123",
   };
+  public listIssuesCalls: ListIssuesParams[] = [];
+  public updateIssueCalls: {
+    issueNumber: number;
+    params: UpdateIssueParams;
+  }[] = [];
+  public existingIssues: IssueDetails[] = [];
+  public createCommentCalls: { issueNumber: number; body: string }[] = [];
+  public existingComments: IssueComment[] = [];
+  public updateCommentCalls: { commentId: number; body: string }[] = [];
+  public deleteCommentCalls: number[] = [];
   public shouldThrow: boolean = false;
   public throwError: Error = new Error("GitHub API error");
 
@@ -32,9 +55,69 @@ class MockGitHubClient implements GitHubClient {
     return this.mockResult;
   }
 
+  async listIssues(params: ListIssuesParams): Promise<IssueDetails[]> {
+    this.listIssuesCalls.push(params);
+    return this.existingIssues;
+  }
+
+  async updateIssue(
+    issueNumber: number,
+    params: UpdateIssueParams
+  ): Promise<IssueResult> {
+    this.updateIssueCalls.push({ issueNumber, params });
+    return {
+      number: issueNumber,
+      url: `https://github.com/test/repo/issues/${issueNumber}`,
+    };
+  }
+
+  async getIssue(issueNumber: number): Promise<IssueDetails> {
+    const issue = this.existingIssues.find((i) => i.number === issueNumber);
+    if (!issue) {
+      throw new Error(`Issue #${issueNumber} not found`);
+    }
+    return issue;
+  }
+
+  async addLabels(): Promise<void> {}
+
+  async removeLabel(): Promise<void> {}
+
+  async createComment(
+    issueNumber: number,
+    body: string
+  ): Promise<CommentResult> {
+    this.createCommentCalls.push({ issueNumber, body });
+    const id = this.createCommentCalls.length;
+    return { id, url: `${this.mockResult.url}#issuecomment-${id}` };
+  }
+
+  async listComments(): Promise<IssueComment[]> {
+    return this.existingComments;
+  }
+
+  async updateComment(commentId: number, body: string): Promise<CommentResult> {
+    this.updateCommentCalls.push({ commentId, body });
+    return {
+      id: commentId,
+      url: `${this.mockResult.url}#issuecomment-${commentId}`,
+    };
+  }
+
+  async deleteComment(commentId: number): Promise<void> {
+    this.deleteCommentCalls.push(commentId);
+  }
+
   // Test helpers
   reset() {
     this.createIssueCalls = [];
+    this.listIssuesCalls = [];
+    this.updateIssueCalls = [];
+    this.existingIssues = [];
+    this.createCommentCalls = [];
+    this.existingComments = [];
+    this.updateCommentCalls = [];
+    this.deleteCommentCalls = [];
     this.shouldThrow = false;
     this.mockResult = {
       number: 123,
@@ -47,6 +130,19 @@ class MockGitHubClient implements GitHubClient {
   }
 }
 
+class MockPublisher implements DigestPublisher {
+  public publications: DigestPublication[] = [];
+
+  constructor(public readonly name: string, private failure?: Error) {}
+
+  async publish(publication: DigestPublication): Promise<void> {
+    this.publications.push(publication);
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
+
 class MockLogger implements Logger {
   public infoCalls: string[] = [];
   public debugCalls: string[] = [];
@@ -169,6 +265,20 @@ describe("JobDigestService", () => {
         expect(issueCall.labels).toEqual(["job-digest", "automated", "jobs-3"]);
         expect(issueCall.labels).not.toContain("new-jobs");
       });
+
+      it("should append extra labels once", async () => {
+        await service.createDigestIssue(JSON.stringify(validDigestResult), {
+          labels: ["weekly", "automated"],
+        });
+
+        expect(mockGithubClient.getLastCall()!.labels).toEqual([
+          "job-digest",
+          "automated",
+          "jobs-3",
+          "new-jobs",
+          "weekly",
+        ]);
+      });
     });
 
     describe("logging behavior", () => {
@@ -369,7 +479,7 @@ describe("JobDigestService", () => {
         sources: ["Adzuna", "Stack Overflow"],
         avgMatchScore: 0.95,
       });
-      expect(result.error).toBeUndefined();
+      expect(result.report).toEqual({ valid: true, errors: [] });
     });
 
     it("should validate empty digest", async () => {
@@ -389,7 +499,8 @@ describe("JobDigestService", () => {
 
       expect(result.valid).toBe(false);
       expect(result.summary).toBeUndefined();
-      expect(result.error).toContain("Invalid digest data:");
+      expect(result.report.errors[0].path).toBe("$");
+      expect(result.report.errors[0].message).toContain("is not valid JSON");
     });
 
     it("should return validation error for missing required fields", async () => {
@@ -398,7 +509,10 @@ describe("JobDigestService", () => {
       const result = await service.validateDigest(invalidDigest);
 
       expect(result.valid).toBe(false);
-      expect(result.error).toContain("Invalid digest data:");
+      expect(result.report.errors).toContainEqual({
+        path: "$.summary",
+        message: "is required",
+      });
     });
 
     it("should not call GitHub client during validation", async () => {
@@ -420,6 +534,1013 @@ describe("JobDigestService", () => {
     });
   });
 
+  describe("deduplication against previous digests", () => {
+    const previousDigestIssue = (jobIds: string[]): IssueDetails => ({
+      number: 100,
+      url: "https://github.com/test/repo/issues/100",
+      title: "🎯 Previous digest",
+      body: jobIds.map((id) => `<!-- job-id: ${id} -->`).join("\n"),
+      labels: ["job-digest", "automated"],
+      state: "closed",
+    });
+
+    it("should not look up previous issues by default", async () => {
+      await service.createDigestIssue(JSON.stringify(multipleJobsDigestResult));
+
+      expect(mockGithubClient.listIssuesCalls).toHaveLength(0);
+    });
+
+    it("should search recent digest issues when deduplicating", async () => {
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip", dedupeLookback: 10 }
+      );
+
+      expect(mockGithubClient.listIssuesCalls).toEqual([
+        { labels: ["job-digest"], state: "all", perPage: 10, page: 1 },
+      ]);
+    });
+
+    it("should page through lookbacks larger than one API page", async () => {
+      mockGithubClient.existingIssues = Array.from({ length: 100 }, () =>
+        previousDigestIssue([])
+      );
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip", dedupeLookback: 150 }
+      );
+
+      expect(mockGithubClient.listIssuesCalls).toEqual([
+        { labels: ["job-digest"], state: "all", perPage: 100, page: 1 },
+        { labels: ["job-digest"], state: "all", perPage: 100, page: 2 },
+      ]);
+    });
+
+    it("should skip jobs posted in earlier digests", async () => {
+      mockGithubClient.existingIssues = [previousDigestIssue(["job-456"])];
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip" }
+      );
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.title).toBe("🎯 2 Job Opportunities (2 new)");
+      expect(issueCall.body).not.toContain("Full Stack Developer");
+      expect(issueCall.body).toContain("Senior Software Engineer");
+      expect(issueCall.labels).toContain("jobs-2");
+      expect(mockLogger.infoCalls).toContain(
+        "Skipping 1 previously posted job(s)"
+      );
+    });
+
+    it("should never count more new jobs than remain after skipping", async () => {
+      mockGithubClient.existingIssues = [
+        previousDigestIssue(["job-123", "job-456"]),
+      ];
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip" }
+      );
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.title).toBe("🎯 1 New Job Opportunity");
+      expect(issueCall.labels).toContain("new-jobs");
+    });
+
+    it("should mark jobs posted in earlier digests", async () => {
+      mockGithubClient.existingIssues = [previousDigestIssue(["job-456"])];
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "mark" }
+      );
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.title).toBe("🎯 3 Job Opportunities (2 new)");
+      expect(issueCall.body).toContain("Full Stack Developer");
+      expect(issueCall.body.match(/👀 Seen before/g)).toHaveLength(1);
+    });
+
+    it("should post an empty digest when every job was already posted", async () => {
+      mockGithubClient.existingIssues = [
+        previousDigestIssue(["job-123", "job-456", "job-789"]),
+      ];
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip" }
+      );
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.title).toBe("📭 No New Job Opportunities Today");
+      expect(issueCall.labels).toContain("no-results");
+    });
+
+    it("should fail when previous issues cannot be listed", async () => {
+      mockGithubClient.listIssues = async () => {
+        throw new Error("Failed to list GitHub issues: boom");
+      };
+
+      await expect(
+        service.createDigestIssue(JSON.stringify(validDigestResult), {
+          dedupe: "skip",
+        })
+      ).rejects.toThrow("Failed to list GitHub issues: boom");
+      expect(mockGithubClient.createIssueCalls).toHaveLength(0);
+    });
+  });
+
+  describe("upsertDigestIssue", () => {
+    const existingDigestIssue = async (
+      digest = validDigestResult
+    ): Promise<IssueDetails> => {
+      // Render through the service so the body carries the real markers
+      const probe = new MockGitHubClient();
+      await new JobDigestService(probe, new MockLogger()).createDigestIssue(
+        JSON.stringify(digest)
+      );
+      const params = probe.getLastCall()!;
+      return {
+        number: 77,
+        url: "https://github.com/test/repo/issues/77",
+        title: params.title,
+        body: params.body,
+        labels: params.labels!,
+        state: "open",
+      };
+    };
+
+    it("should create the issue when none exists for the day", async () => {
+      const result = await service.upsertDigestIssue(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(result).toEqual({
+        number: 123,
+        url: "https://github.com/test/repo/issues/123",
+        action: "created",
+      });
+      expect(mockGithubClient.createIssueCalls).toHaveLength(1);
+      expect(mockGithubClient.updateIssueCalls).toHaveLength(0);
+    });
+
+    it("should update the existing issue for the same day and query", async () => {
+      mockGithubClient.existingIssues = [await existingDigestIssue()];
+
+      const result = await service.upsertDigestIssue(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(result).toEqual({
+        number: 77,
+        url: "https://github.com/test/repo/issues/77",
+        action: "updated",
+      });
+      expect(mockGithubClient.createIssueCalls).toHaveLength(0);
+
+      const [update] = mockGithubClient.updateIssueCalls;
+      expect(update.issueNumber).toBe(77);
+      expect(update.params.title).toBe("🎯 3 Job Opportunities (2 new)");
+      expect(update.params.body).toContain("Senior Software Engineer");
+      expect(update.params.labels).toContain("job-digest");
+      expect(mockLogger.infoCalls).toContain(
+        "✅ Updated issue #77: https://github.com/test/repo/issues/77"
+      );
+    });
+
+    it("should create a new issue for a different day", async () => {
+      mockGithubClient.existingIssues = [
+        await existingDigestIssue({
+          ...validDigestResult,
+          metadata: {
+            ...validDigestResult.metadata,
+            generated_at: "2025-07-30T09:00:00Z",
+          },
+        }),
+      ];
+
+      const result = await service.upsertDigestIssue(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(result.action).toBe("created");
+      expect(mockGithubClient.updateIssueCalls).toHaveLength(0);
+    });
+
+    it("should not dedupe against the issue being updated", async () => {
+      mockGithubClient.existingIssues = [
+        await existingDigestIssue(multipleJobsDigestResult),
+      ];
+
+      await service.upsertDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip" }
+      );
+
+      const [update] = mockGithubClient.updateIssueCalls;
+      expect(update.params.title).toBe("🎯 3 Job Opportunities (2 new)");
+      expect(update.params.body).toContain("Full Stack Developer");
+    });
+
+    it("should keep triage boxes ticked between runs", async () => {
+      const existing = await existingDigestIssue(multipleJobsDigestResult);
+      mockGithubClient.existingIssues = [
+        {
+          ...existing,
+          body: existing.body.replace(
+            "- [ ] Interested <!-- job-id: job-456 -->",
+            "- [x] Interested <!-- job-id: job-456 -->"
+          ),
+        },
+      ];
+
+      await service.upsertDigestIssue(JSON.stringify(multipleJobsDigestResult));
+
+      const [update] = mockGithubClient.updateIssueCalls;
+      expect(update.params.body).toContain(
+        "- [x] Interested <!-- job-id: job-456 -->"
+      );
+      expect(update.params.body).toContain(
+        "- [ ] Interested <!-- job-id: job-123 -->"
+      );
+    });
+
+    it("should keep triage boxes ticked in overflow comments", async () => {
+      mockGithubClient.existingIssues = [await existingDigestIssue()];
+      mockGithubClient.existingComments = [
+        {
+          id: 601,
+          url: "",
+          body: "<!-- digest-part: 2/2 -->\n- [x] Interested in 1. Senior Software Engineer <!-- job-id: job-123 -->",
+        },
+      ];
+
+      await service.upsertDigestIssue(JSON.stringify(validDigestResult));
+
+      const [update] = mockGithubClient.updateIssueCalls;
+      expect(update.params.body).toContain(
+        "- [x] Interested <!-- job-id: job-123 -->"
+      );
+    });
+
+    it("should skip malformed markers edited into the issue", async () => {
+      const existing = await existingDigestIssue(multipleJobsDigestResult);
+      mockGithubClient.existingIssues = [
+        {
+          ...existing,
+          body: `${existing.body}\n- [x] Interested <!-- job-id: %E0 -->\n<!-- job-id: %ZZ -->`,
+        },
+        {
+          ...existing,
+          number: 78,
+          body: "<!-- digest-key: %E0 -->\n<!-- job-id: %E0 -->",
+        },
+      ];
+
+      const result = await service.upsertDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dedupe: "skip" }
+      );
+
+      expect(result.action).toBe("updated");
+      const [update] = mockGithubClient.updateIssueCalls;
+      expect(update.params.body).toContain("Full Stack Developer");
+    });
+
+    it("should log and rethrow update failures", async () => {
+      mockGithubClient.existingIssues = [await existingDigestIssue()];
+      mockGithubClient.updateIssue = async () => {
+        throw new Error("Failed to update GitHub issue #77: Not Found");
+      };
+
+      await expect(
+        service.upsertDigestIssue(JSON.stringify(validDigestResult))
+      ).rejects.toThrow("Not Found");
+      expect(mockLogger.errorCalls).toEqual([
+        "Failed to upsert digest issue: Failed to update GitHub issue #77: Not Found",
+      ]);
+    });
+  });
+
+  describe("oversized digests", () => {
+    const largeDigestJson = JSON.stringify({
+      ...validDigestResult,
+      summary: { ...validDigestResult.summary, total_jobs_found: 30 },
+      jobs: Array.from({ length: 30 }, (_, i) => ({
+        ...validDigestResult.jobs[0],
+        id: `job-${i}`,
+        title: `Job ${i + 1}`,
+        match_score: 1 - i / 100,
+      })),
+    });
+
+    it("should post overflow parts as comments after creating the issue", async () => {
+      await service.createDigestIssue(largeDigestJson, {
+        maxBodyLength: 6000,
+      });
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      const comments = mockGithubClient.createCommentCalls;
+      expect(issueCall.body.length).toBeLessThanOrEqual(6000);
+      expect(issueCall.body).toContain("## 📊 Summary");
+      expect(comments.length).toBeGreaterThan(0);
+      comments.forEach((comment, index) => {
+        expect(comment.issueNumber).toBe(123);
+        expect(comment.body).toContain(
+          `(Part ${index + 2}/${comments.length + 1})`
+        );
+      });
+      expect(mockLogger.infoCalls).toContain(
+        `Posted ${comments.length} overflow comment(s) on issue #123`
+      );
+    });
+
+    it("should lay out large digests compactly unless cards are requested", async () => {
+      await service.createDigestIssue(largeDigestJson);
+      const compact = mockGithubClient.getLastCall()!.body;
+      await service.createDigestIssue(largeDigestJson, {
+        layout: "compact",
+        fullCardCount: 3,
+      });
+      const fewerCards = mockGithubClient.getLastCall()!.body;
+
+      expect(compact).toContain("### 📋 More Opportunities");
+      expect(compact.match(/^### \d+\. /gm)).toHaveLength(10);
+      expect(fewerCards.match(/^### \d+\. /gm)).toHaveLength(3);
+    });
+
+    it("should not comment when the digest fits in one body", async () => {
+      await service.createDigestIssue(largeDigestJson);
+
+      expect(mockGithubClient.createCommentCalls).toHaveLength(0);
+    });
+
+    it("should reuse and trim overflow comments when upserting", async () => {
+      const probe = new MockGitHubClient();
+      await new JobDigestService(probe, new MockLogger()).createDigestIssue(
+        largeDigestJson
+      );
+      mockGithubClient.existingIssues = [
+        {
+          number: 77,
+          url: "https://github.com/test/repo/issues/77",
+          title: probe.getLastCall()!.title,
+          body: probe.getLastCall()!.body,
+          labels: ["job-digest"],
+          state: "open",
+        },
+      ];
+      mockGithubClient.existingComments = [
+        { id: 501, url: "", body: "Thanks for the digest!" },
+        { id: 503, url: "", body: "<!-- digest-part: 3/9 -->\nold" },
+        { id: 502, url: "", body: "<!-- digest-part: 2/9 -->\nold" },
+        ...[504, 505, 506, 507, 508, 509].map((id) => ({
+          id,
+          url: "",
+          body: `<!-- digest-part: ${id - 500}/9 -->\nold`,
+        })),
+      ];
+
+      await service.upsertDigestIssue(largeDigestJson, {
+        maxBodyLength: 12000,
+        layout: "cards",
+      });
+
+      const updated = mockGithubClient.updateCommentCalls.map(
+        (call) => call.commentId
+      );
+      const partComments = [502, 503, 504, 505, 506, 507, 508, 509];
+      expect(updated.length).toBeGreaterThan(0);
+      expect(updated).toEqual(partComments.slice(0, updated.length));
+      expect(mockGithubClient.deleteCommentCalls).toEqual(
+        partComments.slice(updated.length)
+      );
+      expect(mockGithubClient.createCommentCalls).toHaveLength(0);
+    });
+  });
+
+  describe("lenient validation", () => {
+    const partialJson = JSON.stringify(partiallyInvalidDigest);
+
+    it("should reject digests with invalid jobs by default", async () => {
+      await expect(service.createDigestIssue(partialJson)).rejects.toThrow(
+        "Invalid digest data: 3 validation errors"
+      );
+      expect(mockGithubClient.createIssueCalls).toHaveLength(0);
+    });
+
+    it("should post the valid jobs and list the skipped ones", async () => {
+      await service.createDigestIssue(partialJson, { validation: "lenient" });
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.body).toContain(validDigestResult.jobs[0].title);
+      expect(issueCall.body).toContain("Skipped listings (2)");
+      expect(issueCall.body).toContain("- **Warnings:** 3");
+      expect(issueCall.body).not.toContain("<!-- job-id: job-bad-score -->");
+      expect(mockLogger.infoCalls).toContain(
+        "⚠️ Skipped job job-no-description at $.jobs[0]: $.jobs[0].description is required"
+      );
+    });
+
+    it("should apply lenient validation when upserting", async () => {
+      const result = await service.upsertDigestIssue(partialJson, {
+        validation: "lenient",
+      });
+
+      expect(result.action).toBe("created");
+      expect(mockGithubClient.getLastCall()!.body).toContain(
+        "Skipped listings (2)"
+      );
+    });
+  });
+
+  describe("preference filtering", () => {
+    const digestJson = JSON.stringify(multipleJobsDigestResult);
+
+    it("should drop filtered jobs before formatting", async () => {
+      await service.createDigestIssue(digestJson, {
+        preferences: { excludeCompanies: ["StartupCorp"], minMatchScore: 0.8 },
+      });
+
+      const body = mockGithubClient.getLastCall()!.body;
+      expect(body).toContain("TechCorp Inc");
+      expect(body).not.toContain("at **StartupCorp**");
+      expect(body).not.toContain("at **DesignCorp**");
+      expect(body).toContain("**Total Jobs:** 1");
+      expect(mockLogger.infoCalls).toEqual(
+        expect.arrayContaining([
+          "Filter exclude_companies removed 1 job(s)",
+          "Filter min_match_score removed 1 job(s)",
+        ])
+      );
+    });
+
+    it("should merge active filters into filters_applied", async () => {
+      await service.createDigestIssue(digestJson, {
+        preferences: { maxJobsPerDigest: 2 },
+      });
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.body).toContain(
+        "**Filters Applied:** min match score: 0.6; excluded companies: BadCorp; max jobs per digest: 2"
+      );
+      expect(issueCall.labels).toContain("jobs-2");
+    });
+
+    it("should never count more new jobs than remain after filtering", async () => {
+      await service.createDigestIssue(
+        JSON.stringify({
+          ...multipleJobsDigestResult,
+          summary: { ...multipleJobsDigestResult.summary, new_jobs: 3 },
+        }),
+        { preferences: { maxJobsPerDigest: 2 } }
+      );
+
+      expect(mockGithubClient.getLastCall()!.title).toBe(
+        "🎯 2 Job Opportunities (2 new)"
+      );
+    });
+
+    it("should leave the digest untouched without preferences", async () => {
+      await service.createDigestIssue(digestJson);
+
+      expect(mockGithubClient.getLastCall()!.body).not.toContain(
+        "max jobs per digest"
+      );
+      expect(mockGithubClient.getLastCall()!.labels).toContain("jobs-3");
+    });
+  });
+
+  describe("work modes", () => {
+    it("should fill remote_option and work_mode before filtering", async () => {
+      const digest = {
+        ...multipleJobsDigestResult,
+        jobs: [
+          { ...validJobListing, location: "Austin, TX (Remote OK)" },
+          {
+            ...validJobListing,
+            id: "job-hybrid",
+            title: "Hybrid Engineer",
+            location: "London, UK",
+            description: "A hybrid role with two office days.",
+          },
+          {
+            ...validJobListing,
+            id: "job-office",
+            title: "Office Engineer",
+            location: "Berlin, Germany (On-site)",
+          },
+        ].map((job) => ({ ...job, remote_option: undefined })),
+      };
+
+      await service.createDigestIssue(JSON.stringify(digest), {
+        preferences: { workModes: ["remote", "hybrid"] },
+      });
+
+      const body = mockGithubClient.getLastCall()!.body;
+      expect(body).toContain("🏠 Remote Available");
+      expect(body).toContain("🏢 Hybrid");
+      expect(body).not.toContain("Office Engineer");
+      expect(body).toContain("work modes: remote, hybrid");
+    });
+  });
+
+  describe("local scoring", () => {
+    const unscoredDigest: DigestResult = {
+      ...multipleJobsDigestResult,
+      query: { keywords: "frontend" },
+      jobs: multipleJobsDigestResult.jobs.map((job) => ({
+        ...job,
+        match_score: undefined,
+        match_reasons: undefined,
+      })),
+    };
+
+    it("should score jobs before filtering and formatting", async () => {
+      await service.createDigestIssue(JSON.stringify(unscoredDigest), {
+        scoring: { profile: { keywords: ["react"] } },
+        preferences: { minMatchScore: 0.5 },
+      });
+
+      const { body } = mockGithubClient.getLastCall()!;
+      expect(body).toContain("### 1. Frontend Engineer at **DesignCorp**");
+      expect(body).toContain(
+        '**✨ Why this matches:** Matches "react", "frontend"'
+      );
+      expect(body).toContain("🎯 75% match");
+      expect(mockLogger.infoCalls).toContain("Scored 3 job(s) locally");
+      expect(mockLogger.infoCalls).toContain(
+        "Filter min_match_score removed 2 job(s)"
+      );
+    });
+  });
+
+  describe("cross-source duplicates", () => {
+    const duplicatedDigest: DigestResult = {
+      ...multipleJobsDigestResult,
+      summary: {
+        ...multipleJobsDigestResult.summary,
+        total_jobs_found: 4,
+        duplicates_removed: 1,
+      },
+      jobs: [
+        ...multipleJobsDigestResult.jobs,
+        {
+          ...multipleJobsDigestResult.jobs[0],
+          id: "so-123",
+          title: "Sr Software Engineer",
+          company: "TechCorp",
+          source: "Stack Overflow",
+          url: "https://stackoverflow.example/jobs/123",
+          match_score: 0.5,
+        },
+      ],
+    };
+
+    it("should merge duplicates into one card listing every source", async () => {
+      await service.createDigestIssue(JSON.stringify(duplicatedDigest), {
+        mergeDuplicates: true,
+      });
+
+      const { title, body } = mockGithubClient.getLastCall()!;
+      expect(title).toBe("🎯 3 Job Opportunities (2 new)");
+      expect(body).toContain("- **Duplicates Removed:** 2");
+      expect(body).not.toContain("<!-- job-id: so-123 -->");
+      expect(body).toContain(
+        "- Also listed on [Stack Overflow](https://stackoverflow.example/jobs/123) 🔗"
+      );
+      expect(mockLogger.infoCalls).toContain(
+        "Merged 1 duplicate listing(s) into 1 job(s)"
+      );
+    });
+
+    it("should keep duplicates unless merging is enabled", async () => {
+      await service.createDigestIssue(JSON.stringify(duplicatedDigest));
+
+      const { body } = mockGithubClient.getLastCall()!;
+      expect(body).toContain("<!-- job-id: so-123 -->");
+      expect(body).toContain("- **Duplicates Removed:** 1");
+    });
+
+    it("should never count more new jobs than remain after merging", async () => {
+      await service.createDigestIssue(
+        JSON.stringify({
+          ...duplicatedDigest,
+          summary: { ...duplicatedDigest.summary, new_jobs: 4 },
+        }),
+        { mergeDuplicates: true }
+      );
+
+      expect(mockGithubClient.getLastCall()!.title).toBe(
+        "🎯 3 Job Opportunities (3 new)"
+      );
+    });
+
+    describe("when another source wins the merge on a later run", () => {
+      const soPreferred: DigestResult = {
+        ...duplicatedDigest,
+        metadata: {
+          ...duplicatedDigest.metadata,
+          generated_at: "2025-08-02T09:00:00Z",
+        },
+        jobs: duplicatedDigest.jobs.map((job) =>
+          job.id === "so-123" ? { ...job, match_score: 0.99 } : job
+        ),
+      };
+
+      it("should still skip the job as previously posted", async () => {
+        await service.createDigestIssue(JSON.stringify(duplicatedDigest), {
+          mergeDuplicates: true,
+        });
+        const { body } = mockGithubClient.getLastCall()!;
+        expect(body).toContain("<!-- also-listed: so-123 -->");
+        mockGithubClient.existingIssues = [
+          {
+            number: 100,
+            url: "https://github.com/test/repo/issues/100",
+            title: "🎯 Previous digest",
+            body: body.replace(/<!-- job-id: job-(456|789) -->/g, ""),
+            labels: ["job-digest", "automated"],
+            state: "closed",
+          },
+        ];
+
+        await service.createDigestIssue(JSON.stringify(soPreferred), {
+          mergeDuplicates: true,
+          dedupe: "skip",
+        });
+
+        const { title, body: nextBody } = mockGithubClient.getLastCall()!;
+        expect(title).toBe("🎯 2 Job Opportunities (2 new)");
+        expect(nextBody).not.toContain("Software Engineer");
+        expect(mockLogger.infoCalls).toContain(
+          "Skipping 1 previously posted job(s)"
+        );
+      });
+
+      it("should keep the job's history", async () => {
+        const history = new InMemoryJobHistoryStore();
+        service = new JobDigestService(mockGithubClient, mockLogger, history);
+
+        await service.createDigestIssue(JSON.stringify(duplicatedDigest), {
+          mergeDuplicates: true,
+        });
+        const firstSeenAt = history.entries.get("job-123")!.firstSeenAt;
+        expect(history.entries.get("so-123")!.job.source).toBe(
+          "Stack Overflow"
+        );
+
+        await service.createDigestIssue(JSON.stringify(soPreferred), {
+          mergeDuplicates: true,
+        });
+
+        const { body } = mockGithubClient.getLastCall()!;
+        expect(body.match(/👀 Seen before/g)).toHaveLength(3);
+        expect(history.entries.get("so-123")!.status).toBe("repeat");
+        expect(history.entries.get("job-123")!.firstSeenAt).toBe(firstSeenAt);
+        expect(mockLogger.infoCalls).toContain(
+          "Job history: 0 new, 0 updated, 3 repeat"
+        );
+      });
+    });
+  });
+
+  describe("custom templates", () => {
+    it("should render the issue with the supplied template", async () => {
+      await service.createDigestIssue(JSON.stringify(validDigestResult), {
+        template: {
+          title: (summary) => `Daily jobs (${summary.total_jobs_found})`,
+          nextSteps: () => "",
+        },
+      });
+
+      const issueCall = mockGithubClient.getLastCall()!;
+      expect(issueCall.title).toBe("Daily jobs (3)");
+      expect(issueCall.body).not.toContain("## 🎯 Next Steps");
+      expect(issueCall.body).toContain("<!-- job-id: job-123 -->");
+    });
+
+    it("should group listings when asked", async () => {
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        {
+          groupBy: "company",
+        }
+      );
+
+      const { body } = mockGithubClient.getLastCall()!;
+      expect(body.match(/<details>\n<summary><b>/g)).toHaveLength(3);
+      expect(body).toContain("<summary><b>StartupCorp</b> (1 job)</summary>");
+    });
+  });
+
+  describe("job history", () => {
+    let history: InMemoryJobHistoryStore;
+
+    const nextDay = (digest: DigestResult): DigestResult => ({
+      ...digest,
+      metadata: {
+        ...digest.metadata,
+        generated_at: "2025-08-02T09:00:00Z",
+      },
+    });
+
+    beforeEach(() => {
+      history = new InMemoryJobHistoryStore();
+      service = new JobDigestService(mockGithubClient, mockLogger, history);
+    });
+
+    it("should count every job as new on the first run", async () => {
+      await service.createDigestIssue(JSON.stringify(multipleJobsDigestResult));
+
+      const { title, body, labels } = mockGithubClient.getLastCall()!;
+      expect(title).toBe("🎯 3 Job Opportunities (3 new)");
+      expect(body).toContain("(3 new since last run)");
+      expect(body.match(/🆕 New/g)).toHaveLength(3);
+      expect(labels).toContain("new-jobs");
+      expect([...history.entries.keys()]).toEqual([
+        "job-123",
+        "job-456",
+        "job-789",
+      ]);
+      expect(mockLogger.infoCalls).toContain(
+        "Job history: 3 new, 0 updated, 0 repeat"
+      );
+    });
+
+    it("should flag repeats and jobs whose salary or description changed", async () => {
+      await service.createDigestIssue(JSON.stringify(multipleJobsDigestResult));
+      const firstSeenAt = history.entries.get("job-123")!.firstSeenAt;
+
+      const digest = nextDay(multipleJobsDigestResult);
+      digest.jobs = [
+        digest.jobs[0],
+        { ...digest.jobs[1], salary: "$100,000 - $130,000" },
+        digest.jobs[2],
+        { ...digest.jobs[0], id: "job-new", title: "Staff Engineer" },
+      ];
+      await service.createDigestIssue(JSON.stringify(digest));
+
+      const { title, body, labels } = mockGithubClient.getLastCall()!;
+      expect(title).toBe("🎯 3 Job Opportunities (1 new)");
+      expect(body.match(/🆕 New/g)).toHaveLength(1);
+      expect(body.match(/✏️ Updated/g)).toHaveLength(1);
+      expect(body.match(/👀 Seen before/g)).toHaveLength(2);
+      expect(labels).toContain("new-jobs");
+      expect(history.entries.get("job-456")!.status).toBe("updated");
+      expect(history.entries.get("job-123")!.firstSeenAt).toBe(firstSeenAt);
+    });
+
+    it("should not count a repeat-only digest as new", async () => {
+      await service.createDigestIssue(JSON.stringify(multipleJobsDigestResult));
+      await service.createDigestIssue(
+        JSON.stringify(nextDay(multipleJobsDigestResult))
+      );
+
+      const { title, labels } = mockGithubClient.getLastCall()!;
+      expect(title).toBe("🎯 3 Job Opportunities");
+      expect(labels).not.toContain("new-jobs");
+    });
+
+    it("should keep statuses when the same digest is upserted again", async () => {
+      const digestJson = JSON.stringify(multipleJobsDigestResult);
+      await service.upsertDigestIssue(digestJson);
+      mockGithubClient.existingIssues = [
+        {
+          ...mockGithubClient.mockResult,
+          title: mockGithubClient.getLastCall()!.title,
+          body: mockGithubClient.getLastCall()!.body,
+          labels: ["job-digest"],
+          state: "open",
+        },
+      ];
+
+      await service.upsertDigestIssue(digestJson);
+
+      const { body } = mockGithubClient.updateIssueCalls[0].params;
+      expect(body!.match(/🆕 New/g)).toHaveLength(3);
+    });
+
+    it("should not record jobs when the issue could not be created", async () => {
+      mockGithubClient.shouldThrow = true;
+
+      await expect(
+        service.createDigestIssue(JSON.stringify(multipleJobsDigestResult))
+      ).rejects.toThrow("GitHub API error");
+
+      expect(history.entries.size).toBe(0);
+    });
+  });
+
+  describe("publishers", () => {
+    it("should send the posted digest to every publisher", async () => {
+      const slack = new MockPublisher("slack");
+      const email = new MockPublisher("email");
+      service = new JobDigestService(mockGithubClient, mockLogger, undefined, [
+        slack,
+        email,
+      ]);
+
+      await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { preferences: { excludeCompanies: ["StartupCorp"] } }
+      );
+
+      expect(slack.publications).toHaveLength(1);
+      const [publication] = slack.publications;
+      expect(publication.title).toBe(mockGithubClient.getLastCall()!.title);
+      expect(publication.issue).toEqual(mockGithubClient.mockResult);
+      expect(publication.digest.jobs.map((job) => job.company)).toEqual([
+        "TechCorp Inc",
+        "DesignCorp",
+      ]);
+      expect(email.publications).toEqual([publication]);
+      expect(mockLogger.infoCalls).toEqual(
+        expect.arrayContaining([
+          "📣 Sent digest to slack",
+          "📣 Sent digest to email",
+        ])
+      );
+    });
+
+    it("should keep going when a publisher fails", async () => {
+      const slack = new MockPublisher(
+        "slack",
+        new Error("Webhook error (404)")
+      );
+      const discord = new MockPublisher("discord");
+      service = new JobDigestService(mockGithubClient, mockLogger, undefined, [
+        slack,
+        discord,
+      ]);
+
+      const issue = await service.createDigestIssue(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(issue.number).toBe(123);
+      expect(discord.publications).toHaveLength(1);
+      expect(mockLogger.errorCalls).toEqual([
+        "Failed to send digest to slack: Webhook error (404)",
+      ]);
+    });
+
+    it("should publish upserted digests with the existing issue", async () => {
+      const slack = new MockPublisher("slack");
+      service = new JobDigestService(mockGithubClient, mockLogger, undefined, [
+        slack,
+      ]);
+      const digestJson = JSON.stringify(validDigestResult);
+      await service.upsertDigestIssue(digestJson);
+      mockGithubClient.existingIssues = [
+        {
+          number: 99,
+          url: "https://github.com/test/repo/issues/99",
+          title: mockGithubClient.getLastCall()!.title,
+          body: mockGithubClient.getLastCall()!.body,
+          labels: ["job-digest"],
+          state: "open",
+        },
+      ];
+
+      await service.upsertDigestIssue(digestJson);
+
+      expect(slack.publications.map(({ issue }) => issue)).toEqual([
+        mockGithubClient.mockResult,
+        { number: 99, url: "https://github.com/test/repo/issues/99" },
+      ]);
+    });
+
+    it("should post the issue through the given issue publisher", async () => {
+      const drafts: IssueDraft[] = [];
+      const issuePublisher = {
+        name: "fake-github",
+        publish: async (draft: IssueDraft): Promise<UpsertIssueResult> => {
+          drafts.push(draft);
+          return { number: 5, url: "https://example.com/5", action: "created" };
+        },
+      };
+      const slack = new MockPublisher("slack");
+      service = new JobDigestService(
+        mockGithubClient,
+        mockLogger,
+        undefined,
+        [slack],
+        issuePublisher
+      );
+
+      const issue = await service.createDigestIssue(
+        JSON.stringify(validDigestResult)
+      );
+
+      expect(issue).toEqual({ number: 5, url: "https://example.com/5" });
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0].params.labels).toContain("job-digest");
+      expect(drafts[0].existing).toBeUndefined();
+      expect(mockGithubClient.createIssueCalls).toHaveLength(0);
+      expect(slack.publications[0].issue).toEqual(issue);
+    });
+
+    it("should not publish when the issue could not be created", async () => {
+      const slack = new MockPublisher("slack");
+      service = new JobDigestService(mockGithubClient, mockLogger, undefined, [
+        slack,
+      ]);
+      mockGithubClient.shouldThrow = true;
+
+      await expect(
+        service.createDigestIssue(JSON.stringify(validDigestResult))
+      ).rejects.toThrow("GitHub API error");
+      expect(slack.publications).toHaveLength(0);
+    });
+  });
+
+  describe("dry run", () => {
+    it("should return the issue it would create without creating it", async () => {
+      const result = await service.createDigestIssue(
+        JSON.stringify(validDigestResult),
+        { dryRun: true, labels: ["weekly"] }
+      );
+
+      expect(mockGithubClient.createIssueCalls).toHaveLength(0);
+      expect(result.dryRun).toBe(true);
+      expect(result.params.title).toBe("🎯 3 Job Opportunities (2 new)");
+      expect(result.params.body).toContain("## 📊 Summary");
+      expect(result.params.labels).toEqual([
+        "job-digest",
+        "automated",
+        "jobs-3",
+        "new-jobs",
+        "weekly",
+      ]);
+      expect(result.comments).toEqual([]);
+      expect(result.stats).toEqual({
+        totalJobs: 3,
+        newJobs: 2,
+        sources: ["Adzuna", "Stack Overflow"],
+        avgMatchScore: 0.95,
+      });
+      expect(result.digest.jobs.map((job) => job.id)).toEqual(["job-123"]);
+      expect(mockLogger.infoCalls).toContain(
+        '🧪 Dry run: issue "🎯 3 Job Opportunities (2 new)" not created'
+      );
+    });
+
+    it("should return overflow parts and skipped listings", async () => {
+      const result = await service.createDigestIssue(
+        JSON.stringify({
+          ...partiallyInvalidDigest,
+          jobs: [
+            ...partiallyInvalidDigest.jobs,
+            ...Array.from({ length: 30 }, (_, i) => ({
+              ...validJobListing,
+              id: `job-${i}`,
+              title: `Job ${i + 1}`,
+            })),
+          ],
+        }),
+        { dryRun: true, validation: "lenient", maxBodyLength: 6000 }
+      );
+
+      expect(result.params.body.length).toBeLessThanOrEqual(6000);
+      expect(result.comments.length).toBeGreaterThan(0);
+      expect(result.skipped.map((listing) => listing.id)).toEqual([
+        "job-no-description",
+        "job-bad-score",
+      ]);
+      expect(mockGithubClient.createCommentCalls).toHaveLength(0);
+    });
+
+    it("should neither record history nor publish", async () => {
+      const history = new InMemoryJobHistoryStore();
+      const slack = new MockPublisher("slack");
+      service = new JobDigestService(mockGithubClient, mockLogger, history, [
+        slack,
+      ]);
+
+      const result = await service.createDigestIssue(
+        JSON.stringify(multipleJobsDigestResult),
+        { dryRun: true }
+      );
+
+      expect(result.jobStatuses?.get("job-123")).toBe("new");
+      expect(history.entries.size).toBe(0);
+      expect(slack.publications).toHaveLength(0);
+    });
+
+    it("should be rejected by upsertDigestIssue", async () => {
+      await expect(
+        service.upsertDigestIssue(JSON.stringify(validDigestResult), {
+          dryRun: true,
+        })
+      ).rejects.toThrow("Dry runs are only supported by createDigestIssue");
+      expect(mockGithubClient.listIssuesCalls).toHaveLength(0);
+    });
+  });
+
   describe("dependency injection", () => {
     it("should use injected GitHub client", async () => {
       const customClient = new MockGitHubClient();
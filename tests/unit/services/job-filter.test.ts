@@ -0,0 +1,171 @@
+import { JobFilter } from "../../../src/services/job-filter";
+import { JobListing } from "../../../src/types";
+import { jobListing } from "../../fixtures/digest-fixtures";
+
+const jobs: JobListing[] = [
+  jobListing({
+    id: "a",
+    company: "TechCorp Inc",
+    match_score: 0.9,
+    salary: "$90,000 - $110,000",
+    experience_level: "Senior",
+    job_type: "Full-time",
+  }),
+  jobListing({
+    id: "b",
+    company: "BadCorp",
+    match_score: 0.95,
+    salary: "$150k",
+    experience_level: "senior",
+    job_type: "full-time",
+  }),
+  jobListing({
+    id: "c",
+    company: "StartupCorp",
+    match_score: 0.5,
+    salary: "$120,000",
+    experience_level: "mid-level",
+    job_type: "contract",
+  }),
+  jobListing({
+    id: "d",
+    company: "LowPay Ltd",
+    match_score: 0.8,
+    salary: "$40,000 - $55,000",
+    experience_level: "Mid Level",
+    job_type: "full_time",
+  }),
+  jobListing({
+    id: "e",
+    company: "Mystery Co",
+    match_score: undefined,
+    salary: undefined,
+    experience_level: undefined,
+    job_type: undefined,
+  }),
+];
+
+const ids = (list: JobListing[]) => list.map((listing) => listing.id);
+
+describe("JobFilter", () => {
+  it("should keep every job when no preferences are set", () => {
+    const result = new JobFilter({}).apply(jobs);
+
+    expect(result.jobs).toEqual(jobs);
+    expect(result.rejected).toEqual({});
+    expect(result.applied).toEqual({});
+  });
+
+  it("should exclude companies case-insensitively", () => {
+    const result = new JobFilter({ excludeCompanies: ["badcorp "] }).apply(
+      jobs
+    );
+
+    expect(ids(result.jobs)).toEqual(["a", "c", "d", "e"]);
+    expect(result.rejected).toEqual({ exclude_companies: 1 });
+  });
+
+  it("should drop jobs below the minimum match score", () => {
+    const result = new JobFilter({ minMatchScore: 0.8 }).apply(jobs);
+
+    expect(ids(result.jobs)).toEqual(["a", "b", "d", "e"]);
+    expect(result.rejected).toEqual({ min_match_score: 1 });
+  });
+
+  it("should compare the top of the salary range with the minimum", () => {
+    const result = new JobFilter({ salaryMin: 100000 }).apply([
+      ...jobs,
+      jobListing({ id: "hourly", salary: "$60/hour" }),
+    ]);
+
+    expect(ids(result.jobs)).toEqual(["a", "b", "c", "e", "hourly"]);
+    expect(result.rejected).toEqual({ salary_min: 1 });
+  });
+
+  it("should match experience levels and job types loosely", () => {
+    const result = new JobFilter({
+      experienceLevels: ["mid-level"],
+      jobTypes: ["full-time"],
+    }).apply(jobs);
+
+    expect(ids(result.jobs)).toEqual(["d", "e"]);
+    expect(result.rejected).toEqual({ experience_levels: 2, job_types: 1 });
+  });
+
+  it("should keep only accepted work modes", () => {
+    const result = new JobFilter({ workModes: ["remote", "hybrid"] }).apply([
+      jobListing({ id: "remote", work_mode: "remote" }),
+      jobListing({ id: "office", work_mode: "onsite" }),
+      jobListing({ id: "unknown", work_mode: undefined }),
+    ]);
+
+    expect(ids(result.jobs)).toEqual(["remote", "unknown"]);
+    expect(result.rejected).toEqual({ work_modes: 1 });
+  });
+
+  it("should drop jobs, companies and sources hidden with /hide", () => {
+    const result = new JobFilter({
+      hidden: ["job:a", "company:startupcorp", "Source:Adzuna"],
+    }).apply([
+      ...jobs,
+      jobListing({ id: "f", company: "Other Co", source: "Stack Overflow" }),
+    ]);
+
+    expect(ids(result.jobs)).toEqual(["f"]);
+    expect(result.rejected).toEqual({ hidden: 5 });
+  });
+
+  it("should match hidden job ids exactly", () => {
+    const result = new JobFilter({ hidden: ["job:A"] }).apply(jobs);
+
+    expect(ids(result.jobs)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("should count each job against the first rule it fails", () => {
+    const result = new JobFilter({
+      excludeCompanies: ["BadCorp"],
+      minMatchScore: 0.99,
+    }).apply(jobs);
+
+    expect(result.rejected).toEqual({
+      exclude_companies: 1,
+      min_match_score: 3,
+    });
+  });
+
+  it("should cap the digest at the best-matching jobs in original order", () => {
+    const result = new JobFilter({ maxJobsPerDigest: 2 }).apply(jobs);
+
+    expect(ids(result.jobs)).toEqual(["a", "b"]);
+    expect(result.rejected).toEqual({ max_jobs_per_digest: 3 });
+  });
+
+  it("should apply the cap after the other rules", () => {
+    const result = new JobFilter({
+      excludeCompanies: ["BadCorp"],
+      maxJobsPerDigest: 2,
+    }).apply(jobs);
+
+    expect(ids(result.jobs)).toEqual(["a", "d"]);
+    expect(result.rejected).toEqual({
+      exclude_companies: 1,
+      max_jobs_per_digest: 2,
+    });
+  });
+
+  it("should report the active rules and their settings", () => {
+    const result = new JobFilter({
+      excludeCompanies: [],
+      minMatchScore: 0.6,
+      jobTypes: ["contract"],
+      maxJobsPerDigest: 10,
+    }).apply(jobs);
+
+    expect(result.applied).toEqual({
+      min_match_score: 0.6,
+      job_types: ["contract"],
+      max_jobs_per_digest: 10,
+    });
+    expect(result.rejected.max_jobs_per_digest).toBe(0);
+  });
+});
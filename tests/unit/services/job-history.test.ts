@@ -0,0 +1,74 @@
+import {
+  classifyJob,
+  jobContentHash,
+  toHistoryEntry,
+} from "../../../src/services/job-history";
+import { validJobListing } from "../../fixtures/digest-fixtures";
+
+describe("job history", () => {
+  const entry = toHistoryEntry(
+    validJobListing,
+    "new",
+    "2025-08-01/query",
+    "2025-08-01T09:00:00.000Z"
+  );
+
+  describe("jobContentHash", () => {
+    it("should change with the salary or description only", () => {
+      const hash = jobContentHash(validJobListing);
+
+      expect(jobContentHash({ ...validJobListing, title: "Other" })).toBe(hash);
+      expect(
+        jobContentHash({
+          ...validJobListing,
+          description: ` ${validJobListing.description.replace(/ /g, "\n ")}`,
+        })
+      ).toBe(hash);
+      expect(
+        jobContentHash({ ...validJobListing, salary: "$150,000" })
+      ).not.toBe(hash);
+      expect(
+        jobContentHash({ ...validJobListing, description: "Changed" })
+      ).not.toBe(hash);
+    });
+  });
+
+  describe("classifyJob", () => {
+    it("should classify unknown, changed and unchanged jobs", () => {
+      const key = "2025-08-02/query";
+
+      expect(classifyJob(validJobListing, undefined, key)).toBe("new");
+      expect(
+        classifyJob({ ...validJobListing, salary: "$150,000" }, entry, key)
+      ).toBe("updated");
+      expect(classifyJob(validJobListing, entry, key)).toBe("repeat");
+    });
+
+    it("should keep the recorded status when the same digest re-runs", () => {
+      expect(classifyJob(validJobListing, entry, "2025-08-01/query")).toBe(
+        "new"
+      );
+    });
+  });
+
+  describe("toHistoryEntry", () => {
+    it("should keep the first-seen time of an existing entry", () => {
+      const next = toHistoryEntry(
+        validJobListing,
+        "repeat",
+        "2025-08-02/query",
+        "2025-08-02T09:00:00.000Z",
+        entry
+      );
+
+      expect(next).toEqual({
+        job: validJobListing,
+        contentHash: entry.contentHash,
+        status: "repeat",
+        digestKey: "2025-08-02/query",
+        firstSeenAt: "2025-08-01T09:00:00.000Z",
+        lastSeenAt: "2025-08-02T09:00:00.000Z",
+      });
+    });
+  });
+});
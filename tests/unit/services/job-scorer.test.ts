@@ -0,0 +1,235 @@
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  JobScorer,
+} from "../../../src/services/job-scorer";
+import { ScoringProfile } from "../../../src/types";
+import { jobListing, validSearchQuery } from "../../fixtures/digest-fixtures";
+
+const profile: ScoringProfile = {
+  keywords: ["software engineer", "python"],
+  locations: ["Remote", "New York, NY"],
+  salaryMin: 100000,
+  tags: ["python", "aws"],
+  experienceLevels: ["senior"],
+};
+
+const perfect = jobListing({
+  title: "Senior Software Engineer",
+  description: "Build Python services",
+  location: "Remote",
+  salary: "$120,000 - $150,000",
+  remote_option: true,
+  tags: ["Python", "AWS", "Docker"],
+  experience_level: "Senior",
+});
+
+describe("JobScorer", () => {
+  describe("score", () => {
+    it("should give a job matching every criterion full marks and reasons", () => {
+      const result = new JobScorer({ profile }).score(
+        jobListing({ ...perfect, description: "Python services" })
+      );
+
+      expect(result?.score).toBe(0.91);
+      expect(result?.criteria).toEqual({
+        keywords: 0.75,
+        location: 1,
+        salary: 1,
+        remote: 1,
+        tags: 1,
+        experience: 1,
+      });
+      expect(result?.reasons).toEqual([
+        'Matches "software engineer", "python"',
+        "Located in Remote",
+        "Salary meets $100,000 minimum",
+        "Remote work available",
+        "Skills: python, aws",
+        "Senior level",
+      ]);
+    });
+
+    it("should score keywords fully only when they are in the title", () => {
+      const scorer = new JobScorer({ profile: { keywords: ["python"] } });
+
+      expect(
+        scorer.score(jobListing({ title: "Python Developer" }))?.criteria
+          .keywords
+      ).toBe(1);
+      expect(
+        scorer.score(
+          jobListing({ title: "Developer", description: "Uses Python" })
+        )?.criteria.keywords
+      ).toBe(0.5);
+      expect(
+        scorer.score(jobListing({ title: "Developer", description: "Go" }))
+          ?.score
+      ).toBe(0);
+    });
+
+    it("should scale salaries below the minimum", () => {
+      const scorer = new JobScorer({ profile: { salaryMin: 100000 } });
+
+      expect(scorer.score(jobListing({ salary: "$60k - $80k" }))?.score).toBe(
+        0.8
+      );
+      expect(scorer.score(jobListing({ salary: "$40/hour" }))?.score).toBe(
+        0.83
+      );
+      expect(scorer.score(jobListing({ salary: "Competitive" }))?.score).toBe(
+        0.5
+      );
+    });
+
+    it("should state the salary minimum in the job's currency", () => {
+      const scorer = new JobScorer({ profile: { salaryMin: 50000 } });
+
+      expect(
+        scorer.score(jobListing({ salary: "£60k - £70k" }))?.reasons
+      ).toEqual(["Salary meets £50,000 minimum"]);
+      expect(
+        scorer.score(jobListing({ salary: "CHF 90,000" }))?.reasons
+      ).toEqual(["Salary meets CHF 50,000 minimum"]);
+    });
+
+    it("should treat missing job data as neutral", () => {
+      const result = new JobScorer({ profile }).score(
+        jobListing({
+          title: "Software Engineer",
+          location: undefined,
+          salary: undefined,
+          remote_option: undefined,
+          tags: undefined,
+          experience_level: undefined,
+        })
+      );
+
+      expect(result?.criteria).toEqual({
+        keywords: 0.5,
+        location: 0.5,
+        salary: 0.5,
+        remote: 0.5,
+        tags: 0.5,
+        experience: 0.5,
+      });
+      expect(result?.reasons).toEqual([]);
+    });
+
+    it("should only score remote work when it is preferred", () => {
+      const onSite = jobListing({
+        location: "Austin, TX",
+        remote_option: false,
+      });
+
+      expect(
+        new JobScorer({ profile: { locations: ["Austin, TX"] } }).score(onSite)
+          ?.criteria
+      ).toEqual({ location: 1 });
+      expect(
+        new JobScorer({ profile: { remotePreferred: true } }).score(onSite)
+          ?.score
+      ).toBe(0);
+    });
+
+    it("should count hybrid work as half remote", () => {
+      const scorer = new JobScorer({ profile: { remotePreferred: true } });
+
+      expect(
+        scorer.score(jobListing({ location: "Austin, TX (Hybrid)" }))?.score
+      ).toBe(0.5);
+      expect(
+        scorer.score(
+          jobListing({ location: "Austin, TX", work_mode: "remote" })
+        )?.reasons
+      ).toEqual(["Remote work available"]);
+    });
+
+    it("should weight criteria as configured", () => {
+      const target = jobListing({
+        title: "Software Engineer",
+        experience_level: "junior",
+      });
+      const profile = {
+        keywords: ["software engineer"],
+        experienceLevels: ["senior"],
+      };
+
+      expect(new JobScorer({ profile }).score(target)?.score).toBe(0.7);
+      expect(
+        new JobScorer({
+          profile,
+          weights: { keywords: 1, experience: 0 },
+        }).score(target)?.score
+      ).toBe(1);
+    });
+
+    it("should return undefined when the profile sets nothing", () => {
+      expect(new JobScorer({ profile: {} }).score(perfect)).toBeUndefined();
+    });
+  });
+
+  describe("apply", () => {
+    const scored = jobListing({
+      id: "scored",
+      match_score: 0.2,
+      match_reasons: ["Upstream"],
+    });
+    const unscored = jobListing({
+      id: "unscored",
+      title: "Python Engineer",
+      match_score: undefined,
+      match_reasons: undefined,
+    });
+
+    it("should only fill in missing scores by default", () => {
+      const result = new JobScorer({
+        profile: { keywords: ["python"] },
+      }).apply([scored, unscored]);
+
+      expect(result.scored).toBe(1);
+      expect(result.jobs[0]).toBe(scored);
+      expect(result.jobs[1].match_score).toBe(1);
+      expect(result.jobs[1].match_reasons).toEqual(['Matches "python"']);
+    });
+
+    it("should rescore every job in override mode", () => {
+      const result = new JobScorer({
+        profile: { keywords: ["python"] },
+        mode: "override",
+      }).apply([scored, unscored]);
+
+      expect(result.scored).toBe(2);
+      expect(result.jobs[0].match_score).toBe(0);
+      expect(result.jobs[0].match_reasons).toEqual([]);
+    });
+
+    it("should add the search query's keywords and location", () => {
+      const result = new JobScorer({ profile: {} }).apply(
+        [
+          jobListing({
+            title: "Software Engineer",
+            location: "Remote",
+            match_score: undefined,
+            match_reasons: undefined,
+          }),
+        ],
+        validSearchQuery
+      );
+
+      expect(result.jobs[0].match_reasons).toEqual([
+        'Matches "software engineer"',
+        "Located in Remote",
+        "Remote work available",
+      ]);
+    });
+  });
+
+  it("should default to weights that sum to one", () => {
+    const total = Object.values(DEFAULT_SCORING_WEIGHTS).reduce(
+      (sum, weight) => sum + weight,
+      0
+    );
+
+    expect(total).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  detectWorkMode,
+  formatLocation,
+  normalizeJobLocation,
+  parseLocation,
+} from "../../../src/services/location-normalizer";
+import { validJobListing } from "../../fixtures/digest-fixtures";
+
+describe("location normalizer", () => {
+  describe("parseLocation", () => {
+    it.each([
+      [
+        "San Francisco, CA (Hybrid)",
+        {
+          city: "San Francisco",
+          region: "CA",
+          country: "United States",
+          workMode: "hybrid",
+        },
+      ],
+      [
+        "Austin, Texas, USA",
+        { city: "Austin", region: "TX", country: "United States" },
+      ],
+      ["London, UK", { city: "London", country: "United Kingdom" }],
+      ["Remote - UK", { country: "United Kingdom", workMode: "remote" }],
+      ["Remote (US only)", { country: "United States", workMode: "remote" }],
+      ["Remote", { workMode: "remote" }],
+      [
+        "Toronto, ON, Canada (On-site)",
+        {
+          city: "Toronto",
+          region: "ON",
+          country: "Canada",
+          workMode: "onsite",
+        },
+      ],
+      ["Tulsa, OK", { city: "Tulsa", region: "OK", country: "United States" }],
+      ["Berlin, DE", { city: "Berlin", country: "Germany" }],
+      ["Toronto, ON, CA", { city: "Toronto", region: "ON", country: "Canada" }],
+      [
+        "Bengaluru, KA, IN",
+        { city: "Bengaluru", region: "KA", country: "India" },
+      ],
+      [
+        "Indianapolis, IN",
+        { city: "Indianapolis", region: "IN", country: "United States" },
+      ],
+      [
+        "Austin, TX, US",
+        { city: "Austin", region: "TX", country: "United States" },
+      ],
+      ["Paris, FR", { city: "Paris", country: "France" }],
+      [
+        "Remote or Austin, TX",
+        {
+          city: "Austin",
+          region: "TX",
+          country: "United States",
+          workMode: "remote",
+        },
+      ],
+      [
+        "Austin, TX or Remote",
+        {
+          city: "Austin",
+          region: "TX",
+          country: "United States",
+          workMode: "remote",
+        },
+      ],
+      [
+        "Remote / Austin, TX",
+        {
+          city: "Austin",
+          region: "TX",
+          country: "United States",
+          workMode: "remote",
+        },
+      ],
+      [
+        "Hybrid & London, UK",
+        { city: "London", country: "United Kingdom", workMode: "hybrid" },
+      ],
+      ["Not remote", { workMode: "onsite" }],
+      [
+        "Non-remote - Berlin, DE",
+        { city: "Berlin", country: "Germany", workMode: "onsite" },
+      ],
+      [
+        "Portland, OR or Remote",
+        {
+          city: "Portland",
+          region: "OR",
+          country: "United States",
+          workMode: "remote",
+        },
+      ],
+    ])("should split %s", (text, expected) => {
+      expect(parseLocation(text)).toEqual(expected);
+    });
+  });
+
+  describe("detectWorkMode", () => {
+    it("should read the location before the description", () => {
+      expect(detectWorkMode("NYC (Remote OK)")).toBe("remote");
+      expect(detectWorkMode("Berlin", "This is a fully remote role")).toBe(
+        "remote"
+      );
+      expect(detectWorkMode("Berlin (Hybrid)", "Work remotely")).toBe("hybrid");
+    });
+
+    it("should not read passing mentions in descriptions", () => {
+      expect(
+        detectWorkMode(
+          "Berlin",
+          "Collaborate with remote teams; on-site interviews"
+        )
+      ).toBeUndefined();
+      expect(detectWorkMode("Berlin", "This is not remote")).toBe("onsite");
+      expect(detectWorkMode(undefined, undefined)).toBeUndefined();
+    });
+  });
+
+  describe("formatLocation", () => {
+    it("should spell equivalent locations the same way", () => {
+      expect(formatLocation(parseLocation("San Francisco, California"))).toBe(
+        formatLocation(parseLocation("San Francisco, CA, USA"))
+      );
+      expect(formatLocation(parseLocation("remote, u.s."))).toBe(
+        "United States (Remote)"
+      );
+    });
+  });
+
+  describe("normalizeJobLocation", () => {
+    const job = {
+      ...validJobListing,
+      location: "San Francisco, CA",
+      description: "Build things.",
+      remote_option: undefined,
+    };
+
+    it("should fill remote_option and work_mode from the text", () => {
+      expect(
+        normalizeJobLocation({ ...job, location: "Remote, US" })
+      ).toMatchObject({ work_mode: "remote", remote_option: true });
+      expect(
+        normalizeJobLocation({ ...job, description: "A hybrid role." })
+      ).toMatchObject({ work_mode: "hybrid", remote_option: false });
+    });
+
+    it("should keep values already on the job", () => {
+      expect(
+        normalizeJobLocation({
+          ...job,
+          location: "Remote",
+          remote_option: false,
+          work_mode: "onsite",
+        })
+      ).toMatchObject({ work_mode: "onsite", remote_option: false });
+      expect(
+        normalizeJobLocation({ ...job, remote_option: true }).work_mode
+      ).toBe("remote");
+    });
+
+    it("should leave jobs with no work mode untouched", () => {
+      expect(normalizeJobLocation(job)).toBe(job);
+    });
+  });
+});
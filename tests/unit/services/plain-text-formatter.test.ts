@@ -0,0 +1,84 @@
+import { PlainTextFormatter } from "../../../src/services/plain-text-formatter";
+import {
+  emptyDigestResult,
+  multipleJobsDigestResult,
+  validDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+describe("PlainTextFormatter", () => {
+  const formatter = new PlainTextFormatter();
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-08-01T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should render the title, summary and each job", () => {
+    const { title, body } = formatter.format(validDigestResult, {
+      issueUrl: "https://github.com/owner/repo/issues/7",
+    });
+
+    expect(title).toBe("🎯 3 Job Opportunities (2 new)");
+    expect(body.split("\n").slice(0, 4)).toEqual([
+      "🎯 3 Job Opportunities (2 new)",
+      "=".repeat(title.length),
+      "",
+      "3 jobs (2 new) from Adzuna, Stack Overflow",
+    ]);
+    expect(body).toContain(
+      [
+        "1. Senior Software Engineer at TechCorp Inc",
+        "   📍 Remote • 💰 $100,000 - $120,000 • 🎯 95% match",
+        "   Posted: 2 days ago",
+      ].join("\n")
+    );
+    expect(body).toContain("   Apply: https://example.com/jobs/123");
+    expect(body).toContain(
+      "Full digest: https://github.com/owner/repo/issues/7"
+    );
+    expect(body).not.toMatch(/<[a-z]/);
+  });
+
+  it("should follow the requested order", () => {
+    const { body } = formatter.format(multipleJobsDigestResult, {
+      sortBy: "salary",
+      jobStatuses: new Map([["job-456", "updated"]]),
+    });
+
+    expect(body.match(/^\d+\. .+$/gm)).toEqual([
+      "1. Senior Software Engineer at TechCorp Inc",
+      "2. Frontend Engineer at DesignCorp",
+      "3. Full Stack Developer at StartupCorp",
+    ]);
+    expect(body).toContain("✏️ Updated");
+  });
+
+  it("should keep long descriptions on one shortened line", () => {
+    const { body } = formatter.format({
+      ...emptyDigestResult,
+      jobs: [
+        {
+          ...validJobListing,
+          description: `Build things.\n\n${"word ".repeat(100)}`,
+        },
+      ],
+    });
+
+    const description = body
+      .split("\n")
+      .find((line) => line.startsWith("   Build things."))!;
+    expect(description.length).toBeLessThanOrEqual(306);
+    expect(description.endsWith("...")).toBe(true);
+  });
+
+  it("should explain an empty digest", () => {
+    const { body } = formatter.format(emptyDigestResult);
+
+    expect(body).toContain("No jobs matched your search criteria this time.");
+    expect(body).not.toContain("Full digest:");
+  });
+});
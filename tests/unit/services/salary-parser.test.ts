@@ -0,0 +1,113 @@
+import {
+  annualSalary,
+  formatSalary,
+  parseSalary,
+} from "../../../src/services/salary-parser";
+
+describe("salary parser", () => {
+  describe("parseSalary", () => {
+    it.each([
+      [
+        "$90,000 - $120,000",
+        { min: 90000, max: 120000, currency: "USD", period: "year" },
+      ],
+      ["£50k–60k", { min: 50000, max: 60000, currency: "GBP", period: "year" }],
+      [
+        "80-100K USD",
+        { min: 80000, max: 100000, currency: "USD", period: "year" },
+      ],
+      ["$45/hr", { min: 45, max: 45, currency: "USD", period: "hour" }],
+      ["€500 per day", { min: 500, max: 500, currency: "EUR", period: "day" }],
+      ["CA$1.2M", { min: 1200000, max: 1200000, currency: "CAD" }],
+      ["4,000-5,000 a month", { min: 4000, max: 5000, period: "month" }],
+      [
+        "€45.000 - €55.000",
+        { min: 45000, max: 55000, currency: "EUR", period: "year" },
+      ],
+      ["45 000 - 55 000 EUR", { min: 45000, max: 55000, currency: "EUR" }],
+      ["€1.234,50 per month", { min: 1234.5, max: 1234.5, period: "month" }],
+      ["$45.50/hr", { min: 45.5, max: 45.5, period: "hour" }],
+      [
+        "$1,000 signing + $120k",
+        { min: 120000, max: 120000, currency: "USD", period: "year" },
+      ],
+    ])("should read %s", (text, expected) => {
+      expect(parseSalary(text)).toMatchObject(expected);
+    });
+
+    it("should annualize by period", () => {
+      expect(parseSalary("$45/hr")).toMatchObject({
+        annualMin: 93600,
+        annualMax: 93600,
+      });
+      expect(parseSalary("€500 per day")?.annualMax).toBe(130000);
+      expect(parseSalary("$2,000 weekly")?.annualMax).toBe(104000);
+    });
+
+    it("should take small amounts without a period as hourly", () => {
+      expect(parseSalary("35-40")).toMatchObject({
+        period: "hour",
+        annualMax: 83200,
+      });
+    });
+
+    it("should ignore percentages and text without amounts", () => {
+      expect(parseSalary("$100k + 10% bonus")).toMatchObject({
+        min: 100000,
+        max: 100000,
+      });
+      expect(parseSalary("Up to $120k + 401(k)")).toMatchObject({
+        min: 120000,
+        max: 120000,
+      });
+      expect(parseSalary("Competitive")).toBeUndefined();
+      expect(parseSalary("")).toBeUndefined();
+    });
+  });
+
+  describe("annualSalary", () => {
+    it("should return the top of the annualized range", () => {
+      expect(annualSalary("£50k–60k")).toBe(60000);
+      expect(annualSalary("$50/hour")).toBe(104000);
+      expect(annualSalary("DOE")).toBeUndefined();
+      expect(annualSalary(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("formatSalary", () => {
+    it("should display annual ranges with full amounts", () => {
+      expect(formatSalary("$150k-200k + equity")).toBe(
+        "$150,000 - $200,000 + equity"
+      );
+      expect(formatSalary("80-100K USD")).toBe("$80,000 - $100,000");
+      expect(formatSalary("CHF 120000")).toBe("CHF 120,000");
+    });
+
+    it("should show other periods with their annual equivalent", () => {
+      expect(formatSalary("$45/hr")).toBe("$45/hour (≈ $93,600/year)");
+      expect(formatSalary("£400-450 p/d")).toBe(
+        "£400 - £450/day (≈ £104,000 - £117,000/year)"
+      );
+    });
+
+    it("should keep extras that contain digits", () => {
+      expect(formatSalary("Up to $120k + 401(k)")).toBe("$120,000 + 401(k)");
+      expect(formatSalary("$100k +  10% bonus")).toBe("$100,000 + 10% bonus");
+      expect(formatSalary("€45.000 - €55.000")).toBe("€45,000 - €55,000");
+    });
+
+    it("should move a leading bonus after the pay", () => {
+      expect(formatSalary("$1,000 signing + $120k")).toBe(
+        "$120,000 + $1,000 signing"
+      );
+      expect(formatSalary("$5k sign-on bonus + $90k - $110k + equity")).toBe(
+        "$90,000 - $110,000 + $5k sign-on bonus + equity"
+      );
+    });
+
+    it("should keep unreadable salaries as written", () => {
+      expect(formatSalary("Competitive")).toBe("Competitive");
+      expect(formatSalary("€12.345.67")).toBe("€12.345.67");
+    });
+  });
+});
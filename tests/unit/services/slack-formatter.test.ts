@@ -0,0 +1,127 @@
+import { DigestPublication } from "../../../src/interfaces";
+import { SlackFormatter } from "../../../src/services/slack-formatter";
+import {
+  multipleJobsDigestResult,
+  validJobListing,
+} from "../../fixtures/digest-fixtures";
+
+const publication: DigestPublication = {
+  title: "🎯 3 Job Opportunities (2 new)",
+  digest: multipleJobsDigestResult,
+  issue: { number: 7, url: "https://github.com/owner/repo/issues/7" },
+  jobStatuses: new Map([["job-456", "new"]]),
+};
+
+describe("SlackFormatter", () => {
+  it("should render a header, summary, job sections and an issue button", () => {
+    const message = new SlackFormatter().format(publication);
+
+    expect(message.text).toBe(
+      "🎯 3 Job Opportunities (2 new): 3 jobs (2 new) from Adzuna, Stack Overflow"
+    );
+    expect(message.blocks.map((block) => block.type)).toEqual([
+      "header",
+      "context",
+      "section",
+      "section",
+      "section",
+      "actions",
+    ]);
+    expect(message.blocks[2]).toEqual({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text:
+          "*1. <https://example.com/jobs/123|Senior Software Engineer>* at TechCorp Inc\n" +
+          "📍 Remote • 💰 $100,000 - $120,000 • 🎯 95% match",
+      },
+      accessory: {
+        type: "button",
+        text: { type: "plain_text", text: "Apply" },
+        url: "https://example.com/jobs/123",
+      },
+    });
+    expect(JSON.stringify(message.blocks[3])).toContain("🆕 New");
+    expect(message.blocks[5]).toEqual({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          text: { type: "plain_text", text: "Open issue #7" },
+          url: "https://github.com/owner/repo/issues/7",
+        },
+      ],
+    });
+  });
+
+  it("should escape mrkdwn control characters", () => {
+    const message = new SlackFormatter().format({
+      ...publication,
+      digest: {
+        ...multipleJobsDigestResult,
+        jobs: [
+          {
+            ...validJobListing,
+            title: "R&D <Lead> | Platform",
+            company: "A&B",
+          },
+        ],
+      },
+    });
+
+    expect(JSON.stringify(message.blocks[2])).toContain(
+      "R&amp;D &lt;Lead&gt; - Platform>* at A&amp;B"
+    );
+  });
+
+  it("should encode link delimiters in job URLs", () => {
+    const message = new SlackFormatter().format({
+      ...publication,
+      digest: {
+        ...multipleJobsDigestResult,
+        jobs: [
+          {
+            ...validJobListing,
+            title: "Engineer",
+            url: "https://example.com/jobs?tags=a|b&next=>",
+          },
+        ],
+      },
+    });
+
+    expect(JSON.stringify(message.blocks[2])).toContain(
+      "<https://example.com/jobs?tags=a%7Cb&next=%3E|Engineer>"
+    );
+  });
+
+  it("should list at most maxJobs and link the rest", () => {
+    const message = new SlackFormatter({ maxJobs: 1 }).format(publication);
+
+    expect(
+      message.blocks.filter((block) => block.type === "section")
+    ).toHaveLength(1);
+    expect(message.blocks[3]).toEqual({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: "…and 2 more jobs in <https://github.com/owner/repo/issues/7|the digest issue>",
+        },
+      ],
+    });
+  });
+
+  it("should stay within Slack's block limit", () => {
+    const jobs = Array.from({ length: 60 }, (_, i) => ({
+      ...validJobListing,
+      id: `job-${i}`,
+    }));
+
+    const message = new SlackFormatter({ maxJobs: 100 }).format({
+      ...publication,
+      digest: { ...multipleJobsDigestResult, jobs },
+    });
+
+    expect(message.blocks.length).toBeLessThanOrEqual(50);
+  });
+});